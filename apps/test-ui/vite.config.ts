@@ -4,5 +4,5 @@ import { defineConfig } from "vite";
 import flare from "../../packages/flare/vite.mjs";
 
 export default defineConfig({
-  plugins: [react(), tailwindcss(), flare()],
+  plugins: [react(), tailwindcss(), flare({ tailwind: true })],
 });
@@ -3,17 +3,27 @@ import {
   EyeOff,
   ExternalLink,
   Frame,
+  ListTree,
   Minimize2,
   SquareMousePointer,
   X,
 } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  AckNotice,
   Breadcrumb,
+  BreakpointBar,
+  BridgeTokenNotice,
+  ChangesPanel,
+  ComponentScopeBar,
   CopyPromptBar,
   ElementComment,
+  LayersPanel,
   PropertySections,
+  SelectionBar,
   SourceReference,
+  StateBar,
+  VerifyNotice,
 } from "./components";
 import {
   useDrag,
@@ -21,19 +31,50 @@ import {
   useInspector,
   useStyleEditor,
   useTheme,
+  useUndoShortcuts,
 } from "./hooks";
 import {
+  type AgentAckSummary,
   getBridgeStatus,
   pushSnapshotToAgent,
+  subscribeAgentEvents,
+  summarizeAck,
 } from "./bridge-client";
+import type { AgentAckRequest, FlareElementChange } from "./bridge-types";
 import {
   IconFlare,
   IconMoon,
   IconSun,
 } from "./icons";
-import { buildPrompt, serializeElementChange } from "./utils";
+import {
+  buildPrompt,
+  type ElementEntry,
+  getFailedEntries,
+  serializeElementChange,
+  snapshotEntries,
+} from "./utils";
+import {
+  captureVerification,
+  dropFailedTargets,
+  getRepushEntries,
+  loadPendingVerifications,
+  type PendingVerification,
+  savePendingVerifications,
+  settleVerifications,
+  type VerificationReport,
+  type VerificationTarget,
+  verifyTargets,
+} from "./verify";
+import { findComponentInstances, findMatchingElements, type MatchKind } from "./matching";
 import { Canvas } from "./canvas";
 
+// Dispatched by the Vite plugin after each hot update, with the updated module paths
+const HMR_EVENT = "flare:hmr";
+// How long to let the page settle before checking pushed changes
+const VERIFY_AFTER_LOAD_MS = 1000;
+const VERIFY_AFTER_UPDATE_MS = 300;
+const VERIFY_AFTER_ACK_MS = 1500;
+
 export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
   const initOpen = (() => {
     try {
@@ -104,22 +145,32 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
   const {
     inspecting,
     selectedEl,
+    selectedEls,
     startInspecting,
     stopInspecting,
     selectElement,
+    selectElements,
+    replaceElement,
     highlightElement,
     clearHighlight,
   } = useInspector();
-  const editor = useStyleEditor(selectedEl);
+  const editor = useStyleEditor(selectedEl, {
+    selection: selectedEls,
+    onRelocateSelected: replaceElement,
+  });
   const sourceInfo = useElementSource(selectedEl);
   const [canvasMode, setCanvasMode] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [layersOpen, setLayersOpen] = useState(false);
+  // The canvas has its own editor and history
+  useUndoShortcuts(editor, expanded && !canvasMode);
   const toggleCanvas = useCallback(() => {
     setCanvasMode((v) => {
       if (!v) stopInspecting();
       return !v;
     });
   }, [stopInspecting]);
-  const { acknowledgeEntries, setElementSourceInfo } = editor;
+  const { acknowledgeEntries, reopenEntries, setElementSourceInfo } = editor;
   const commentKeyRef = useRef(0);
   const prevElRef = useRef(selectedEl);
   if (prevElRef.current !== selectedEl) {
@@ -131,25 +182,133 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
   const styleChangeCount = editor.totalStyleChangeCount;
   const commentChangeCount = editor.totalCommentCount;
   const [bridgeAvailable, setBridgeAvailable] = useState(false);
+  // Set when the bridge is up but refuses this page's token
+  const [bridgeTokenIssue, setBridgeTokenIssue] = useState<"missing" | "rejected" | null>(null);
   const [autoPushState, setAutoPushState] = useState<"pushing" | null>(null);
   const autoPushInFlightRef = useRef(false);
   const prevCommentCountRef = useRef(commentChangeCount);
+  // Pushes still waiting for an agent ack, keyed by inbox file id
+  const awaitingAckRef = useRef(
+    new Map<string, { entries: ElementEntry[]; changes: FlareElementChange[] }>(),
+  );
+  const [ackSummary, setAckSummary] = useState<AgentAckSummary | null>(null);
 
   useEffect(() => {
     if (!selectedEl) return;
     setElementSourceInfo(selectedEl, sourceInfo);
   }, [selectedEl, setElementSourceInfo, sourceInfo]);
 
-  const buildAgentSnapshot = useCallback(() => {
-    const entries = editor.getAllChanges();
+  // Picking an element, or running out of changes, leaves the review list
+  useEffect(() => {
+    setReviewing(false);
+  }, [selectedEl]);
+  useEffect(() => {
+    if (changeCount === 0) setReviewing(false);
+  }, [changeCount]);
+
+  const jumpToEntry = useCallback(
+    (entry: ElementEntry) => {
+      selectElement(entry.el);
+      editor.setBreakpoint(entry.breakpoint ?? null);
+      editor.setState(entry.state ?? null, entry.el);
+      entry.el.scrollIntoView({ block: "center", behavior: "smooth" });
+      clearHighlight();
+      setReviewing(false);
+    },
+    [clearHighlight, editor.setBreakpoint, editor.setState, selectElement],
+  );
+
+  const selectMatching = useCallback(
+    async (kind: MatchKind) => {
+      if (!selectedEl) return false;
+      const { elements, partial } = await findMatchingElements(selectedEl, kind);
+      // Keep what's already picked, and the panel on the same element
+      selectElements([...new Set([...selectedEls, ...elements])]);
+      return partial;
+    },
+    [selectElements, selectedEl, selectedEls],
+  );
+
+  const selectedElRef = useRef(selectedEl);
+  selectedElRef.current = selectedEl;
+  const { setComponentScope } = editor;
+  const editComponent = useCallback(
+    async (component: boolean) => {
+      if (!selectedEl) return;
+      if (!component) {
+        setComponentScope(null);
+        return;
+      }
+      const found = await findComponentInstances(selectedEl);
+      // The selection may have moved on while instances were looked up
+      if (selectedElRef.current === selectedEl) setComponentScope(found);
+    },
+    [selectedEl, setComponentScope],
+  );
+
+  const buildAgentSnapshot = useCallback((entries: ElementEntry[]) => {
     return {
-      entries,
-      snapshot: {
-        updatedAt: new Date().toISOString(),
-        changes: entries.map((entry) => serializeElementChange(entry)),
-      },
+      updatedAt: new Date().toISOString(),
+      changes: entries.map((entry) => serializeElementChange(entry)),
     };
-  }, [editor.getAllChanges]);
+  }, []);
+
+  // ── Verification ──
+  // Pushes whose result hasn't been checked on the page yet
+  const pendingVerificationsRef = useRef<PendingVerification[]>([]);
+  const verifyTimerRef = useRef<number | null>(null);
+  // Modules hot-updated since the last check
+  const updatedPathsRef = useRef(new Set<string>());
+  const [verification, setVerification] = useState<VerificationReport | null>(null);
+
+  const runVerification = useCallback(async () => {
+    const pending = pendingVerificationsRef.current;
+    const updatedPaths = [...updatedPathsRef.current];
+    updatedPathsRef.current.clear();
+    const checked = await verifyTargets(
+      document,
+      pending.flatMap((verification) => verification.targets),
+    );
+    const { report, pending: waiting } = settleVerifications(pending, checked, updatedPaths);
+    // Pushed or acked while checking; those get a check of their own
+    const changed = pendingVerificationsRef.current.filter((v) => !pending.includes(v));
+    const changedIds = new Set(changed.map((v) => v.id).filter((id) => id !== null));
+    pendingVerificationsRef.current = [
+      ...waiting.filter((v) => v.id === null || !changedIds.has(v.id)),
+      ...changed,
+    ];
+    savePendingVerifications(pendingVerificationsRef.current);
+    if (report.elements.length > 0) setVerification(report);
+  }, []);
+
+  const scheduleVerification = useCallback(
+    (delayMs: number) => {
+      if (pendingVerificationsRef.current.length === 0) return;
+      if (verifyTimerRef.current) window.clearTimeout(verifyTimerRef.current);
+      verifyTimerRef.current = window.setTimeout(() => {
+        verifyTimerRef.current = null;
+        void runVerification();
+      }, delayMs);
+    },
+    [runVerification],
+  );
+
+  useEffect(() => {
+    // Pushed before a full reload; check once the page has rendered
+    pendingVerificationsRef.current = loadPendingVerifications();
+    scheduleVerification(VERIFY_AFTER_LOAD_MS);
+
+    const onUpdate = (event: Event) => {
+      const paths = (event as CustomEvent<string[] | undefined>).detail ?? [];
+      for (const path of paths) updatedPathsRef.current.add(path);
+      scheduleVerification(VERIFY_AFTER_UPDATE_MS);
+    };
+    window.addEventListener(HMR_EVENT, onUpdate);
+    return () => {
+      window.removeEventListener(HMR_EVENT, onUpdate);
+      if (verifyTimerRef.current) window.clearTimeout(verifyTimerRef.current);
+    };
+  }, [scheduleVerification]);
 
   useEffect(() => {
     if (!expanded) return;
@@ -158,7 +317,10 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
     const pollStatus = async () => {
       const status = await getBridgeStatus();
       if (!active) return;
-      setBridgeAvailable(status.available);
+      setBridgeAvailable(status.available && status.tokenValid);
+      setBridgeTokenIssue(
+        status.available && !status.tokenValid ? (status.hasToken ? "rejected" : "missing") : null,
+      );
     };
 
     void pollStatus();
@@ -172,15 +334,87 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
     };
   }, [expanded]);
 
-  const handlePush = useCallback(async () => {
-    const { entries, snapshot } = buildAgentSnapshot();
-    if (entries.length === 0) return false;
+  // `targets` replace the checks captured from `entries`, e.g. on a re-push
+  const pushEntries = useCallback(
+    async (entries: ElementEntry[], targets?: VerificationTarget[]) => {
+      if (entries.length === 0) return false;
+      const snapshot = buildAgentSnapshot(entries);
+      const verification = targets
+        ? { id: null, targets }
+        : captureVerification(null, entries, snapshot.changes, editor.getLocator);
+
+      const result = await pushSnapshotToAgent(snapshot);
+      if (result.unauthorized) {
+        setBridgeAvailable(false);
+        setBridgeTokenIssue("rejected");
+      }
+      if (result.ok) {
+        if (result.id) {
+          awaitingAckRef.current.set(result.id, {
+            entries: snapshotEntries(entries),
+            changes: snapshot.changes,
+          });
+        }
+        acknowledgeEntries(entries);
+        setAckSummary(null);
+        if (verification.targets.length > 0) {
+          pendingVerificationsRef.current.push({ ...verification, id: result.id ?? null });
+          savePendingVerifications(pendingVerificationsRef.current);
+        }
+      }
+
+      return result.ok;
+    },
+    [acknowledgeEntries, buildAgentSnapshot, editor.getLocator],
+  );
+
+  const handlePush = useCallback(
+    () => pushEntries(editor.getIncludedChanges()),
+    [editor.getIncludedChanges, pushEntries],
+  );
+
+  const handleRepush = useCallback(async () => {
+    if (!verification) return;
+    const repush = getRepushEntries(verification);
+    const ok = await pushEntries(
+      repush.map(({ entry }) => entry),
+      repush.map(({ target }) => target),
+    );
+    if (ok) setVerification(null);
+  }, [pushEntries, verification]);
 
-    const result = await pushSnapshotToAgent(snapshot);
-    if (result.ok) acknowledgeEntries(entries);
+  // Latest handler lives in a ref so the ack stream isn't reopened on
+  // every selection change
+  const handleAcksRef = useRef<(acks: AgentAckRequest[]) => void>(() => {});
+  handleAcksRef.current = (acks) => {
+    for (const ack of acks) {
+      // The ack makes the push's next check final, even for a push made
+      // before a full reload. Changes the agent couldn't apply aren't checked
+      pendingVerificationsRef.current = pendingVerificationsRef.current.map((verification) =>
+        verification.id === ack.id
+          ? { ...dropFailedTargets(verification, ack.changes), acked: true }
+          : verification,
+      );
+      savePendingVerifications(pendingVerificationsRef.current);
+      scheduleVerification(VERIFY_AFTER_ACK_MS);
 
-    return result.ok;
-  }, [acknowledgeEntries, buildAgentSnapshot]);
+      const pushed = awaitingAckRef.current.get(ack.id);
+      if (!pushed) continue;
+      awaitingAckRef.current.delete(ack.id);
+
+      // ...they go back into the change list instead
+      const failed = getFailedEntries(pushed.entries, pushed.changes, ack.changes);
+      if (failed.length > 0) reopenEntries(failed);
+      setAckSummary(summarizeAck(ack));
+    }
+  };
+
+  useEffect(() => {
+    if (!bridgeAvailable) return;
+    return subscribeAgentEvents({
+      onAcks: (acks) => handleAcksRef.current(acks),
+    });
+  }, [bridgeAvailable]);
 
   useEffect(() => {
     const prevCommentCount = prevCommentCountRef.current;
@@ -206,11 +440,23 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
           label: "Bridge running",
           detail: "Push to Agent is ready.",
         }
-      : {
-          tone: "offline",
-          label: "Bridge offline",
-          detail: "Start the local bridge to enable agent push.",
-        };
+      : bridgeTokenIssue === "rejected"
+        ? {
+            tone: "waiting",
+            label: "Bridge token rejected — reload the page",
+            detail: "The bridge restarted with a new session token.",
+          }
+        : bridgeTokenIssue === "missing"
+          ? {
+              tone: "waiting",
+              label: "Bridge token missing — see setup",
+              detail: "Pass the output of `npx flare-dev token` in window.__FLARE_BRIDGE__.",
+            }
+          : {
+              tone: "offline",
+              label: "Bridge offline",
+              detail: "Start the local bridge to enable agent push.",
+            };
 
   return (
     <>
@@ -234,7 +480,7 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
         className={[
           "f-shell f-expanded",
           closing && "f-shell-closing",
-          !selectedEl && "f-compact",
+          !selectedEl && !reviewing && !layersOpen && "f-compact",
         ].filter(Boolean).join(" ")}
         style={drag.hasMoved ? { left: drag.pos.x, top: drag.pos.y } : undefined}
       >
@@ -299,6 +545,17 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
                   </div>
                 )}
               </div>
+              <button
+                className={`f-settings-btn${layersOpen ? " active" : ""}`}
+                onClick={() => {
+                  setLayersOpen((v) => !v);
+                  setReviewing(false);
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                title="Layers"
+              >
+                <ListTree size={14} strokeWidth={1.5} />
+              </button>
               <button
                 className="f-settings-btn"
                 onClick={handleClose}
@@ -324,6 +581,7 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
             <button
               className={`f-inspect-btn${inspecting ? " active" : ""}`}
               onClick={inspecting ? stopInspecting : startInspecting}
+              title="Shift-click to select several elements"
             >
               <SquareMousePointer size={13} strokeWidth={1.5} />
               <span>{inspecting ? "Cancel" : "Select Element"}</span>
@@ -338,6 +596,28 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
                 onHoverEnd={clearHighlight}
               />
             )}
+            {selectedEl && (
+              <SelectionBar
+                el={selectedEl}
+                count={selectedEls.length}
+                hasSource={!!sourceInfo?.source}
+                onSelectMatching={selectMatching}
+                onClear={() => selectElement(selectedEl)}
+              />
+            )}
+            {selectedEl && (sourceInfo?.source || sourceInfo?.componentName) && (
+              <ComponentScopeBar
+                name={
+                  editor.componentScope?.name ??
+                  sourceInfo.componentName ??
+                  sourceInfo.source?.componentName ??
+                  null
+                }
+                count={editor.componentScope ? editor.componentScope.instances.length + 1 : null}
+                partial={editor.componentScope?.partial ?? false}
+                onChange={editComponent}
+              />
+            )}
             {selectedEl && (
               <ElementComment
                 key={commentKeyRef.current}
@@ -345,11 +625,50 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
                 onChange={editor.setComment}
               />
             )}
+            {selectedEl && (
+              <BreakpointBar
+                el={selectedEl}
+                value={editor.breakpoint}
+                changed={editor.changedBreakpoints}
+                onChange={editor.setBreakpoint}
+              />
+            )}
+            {selectedEl && (
+              <StateBar
+                value={editor.state}
+                changed={editor.changedStates}
+                onChange={editor.setState}
+              />
+            )}
           </div>
 
           {/* Scrollable content */}
           <div className="f-scroll">
-            {!selectedEl ? (
+            {reviewing ? (
+              <ChangesPanel
+                entries={editor.getAllChanges()}
+                isIncluded={editor.isEntryIncluded}
+                onIncludedChange={editor.setEntryIncluded}
+                onJump={jumpToEntry}
+                onHover={highlightElement}
+                onHoverEnd={clearHighlight}
+                onRevert={editor.revertProperty}
+                onCommentChange={editor.setElementComment}
+              />
+            ) : layersOpen ? (
+              <LayersPanel
+                root={document.body}
+                selectedEl={selectedEl}
+                onSelect={selectElement}
+                onHover={highlightElement}
+                onHoverEnd={clearHighlight}
+                onOpen={(el) => {
+                  selectElement(el);
+                  clearHighlight();
+                  setLayersOpen(false);
+                }}
+              />
+            ) : !selectedEl ? (
               <div className="f-empty-state">
                 <SquareMousePointer size={16} strokeWidth={1.5} />
                 <span>Select an element</span>
@@ -359,12 +678,32 @@ export default function App({ shadowHost }: { shadowHost: HTMLElement }) {
             )}
           </div>
 
+          {ackSummary && (
+            <AckNotice summary={ackSummary} onDismiss={() => setAckSummary(null)} />
+          )}
+
+          {bridgeTokenIssue && <BridgeTokenNotice issue={bridgeTokenIssue} />}
+
+          {verification && (
+            <VerifyNotice
+              report={verification}
+              onRepush={bridgeAvailable ? handleRepush : undefined}
+              onDismiss={() => setVerification(null)}
+            />
+          )}
+
           {/* Copy prompt bar */}
           <CopyPromptBar
             changeCount={changeCount}
+            includedCount={editor.includedChangeCount}
+            reviewing={reviewing}
+            onReview={() => {
+              setReviewing((v) => !v);
+              setLayersOpen(false);
+            }}
             onPush={handlePush}
             onCopy={() => {
-              const entries = editor.getAllChanges();
+              const entries = editor.getIncludedChanges();
               const text = buildPrompt(entries);
               if (text) {
                 void navigator.clipboard.writeText(text);
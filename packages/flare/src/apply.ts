@@ -0,0 +1,595 @@
+/**
+ * `flare-dev apply [batch-file]`
+ *
+ * Applies simple style changes from a `watch.batch` straight to source,
+ * without an agent: Tailwind utility classes, inline `style={{}}` objects
+ * and CSS Module rules on the element that `source` points to. Anything
+ * it can't apply confidently is passed through for the agent, as a
+ * `watch.batch` with only the remaining changes.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import type { FlareElementChange, FlareStyleChange } from "./bridge-types.js";
+
+type Strategy = "tailwind" | "inline-style" | "css-module";
+
+export interface AppliedChange {
+  selector: string;
+  property: string;
+  after: string;
+  file: string;
+  strategy: Strategy;
+}
+
+export interface SkippedChange {
+  selector: string;
+  property?: string;
+  reason: string;
+}
+
+interface BatchFile {
+  filePath?: string;
+  payload: { origin?: string; snapshot: { changes: FlareElementChange[] } } & Record<string, unknown>;
+}
+
+export interface ApplyResult {
+  type: "apply.result";
+  applied: AppliedChange[];
+  skipped: SkippedChange[];
+  /** The input batch with applied changes removed, for the agent to finish */
+  batch: { type: "watch.batch"; inboxPath?: string; files: BatchFile[] };
+}
+
+export interface ApplyOptions {
+  cwd?: string;
+  dryRun?: boolean;
+}
+
+// ── Source lookup ─────────────────────────────────
+
+interface SourceLocation {
+  filePath: string;
+  line: number;
+  column: number | null;
+}
+
+/** Parse `src/App.tsx:12:4 (Hero)` into a file on disk, if it exists. */
+function resolveSource(source: string, cwd: string): SourceLocation | null {
+  const match = source.match(/^(.*?):(\d+)(?::(\d+))?(?:\s+\(.*\))?$/);
+  if (!match) return null;
+  const raw = match[1].replace(/^file:\/\//, "").replace(/\?.*$/, "");
+  const candidates = isAbsolute(raw)
+    ? [raw, join(cwd, raw.replace(/^\/+/, ""))]
+    : [resolve(cwd, raw)];
+  const filePath = candidates.find((candidate) => existsSync(candidate));
+  if (!filePath) return null;
+  return {
+    filePath,
+    line: Number(match[2]),
+    column: match[3] ? Number(match[3]) : null,
+  };
+}
+
+interface JsxAttribute {
+  name: string;
+  kind: "string" | "expression";
+  /** Offsets of the value inside its quotes or braces */
+  start: number;
+  end: number;
+}
+
+interface JsxTag {
+  name: string;
+  attributes: JsxAttribute[];
+}
+
+function skipQuoted(code: string, i: number) {
+  const quote = code[i];
+  i++;
+  while (i < code.length && code[i] !== quote) {
+    if (code[i] === "\\") i++;
+    i++;
+  }
+  return i + 1;
+}
+
+/** Offset just past the `}` matching the `{` at `i`. */
+function skipBraces(code: string, i: number) {
+  let depth = 0;
+  while (i < code.length) {
+    const char = code[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipQuoted(code, i);
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+  return -1;
+}
+
+/** Read the JSX opening tag that starts at (or after) a source position. */
+function readJsxTag(code: string, location: SourceLocation): JsxTag | null {
+  const lines = code.split("\n");
+  if (location.line < 1 || location.line > lines.length) return null;
+  const lineStart = lines.slice(0, location.line - 1).reduce((n, line) => n + line.length + 1, 0);
+  const lineEnd = lineStart + lines[location.line - 1].length;
+  const from = lineStart + Math.max(0, (location.column ?? 1) - 1);
+
+  const opening = /<([A-Za-z][\w.:-]*)/g;
+  opening.lastIndex = from;
+  const tagMatch = opening.exec(code);
+  if (!tagMatch || tagMatch.index > lineEnd) return null;
+
+  const attributes: JsxAttribute[] = [];
+  let i = tagMatch.index + tagMatch[0].length;
+  while (i < code.length) {
+    const char = code[i];
+    if (char === ">" || (char === "/" && code[i + 1] === ">")) {
+      return { name: tagMatch[1], attributes };
+    }
+    if (char === "{") {
+      // Spread props — skip, but keep reading
+      i = skipBraces(code, i);
+      if (i < 0) return null;
+      continue;
+    }
+    const nameMatch = /^[A-Za-z_][\w:-]*/.exec(code.slice(i, i + 64));
+    if (!nameMatch) {
+      i++;
+      continue;
+    }
+    const name = nameMatch[0];
+    i += name.length;
+    while (/\s/.test(code[i] ?? "")) i++;
+    if (code[i] !== "=") continue;
+    i++;
+    while (/\s/.test(code[i] ?? "")) i++;
+    if (code[i] === '"' || code[i] === "'") {
+      const end = skipQuoted(code, i);
+      attributes.push({ name, kind: "string", start: i + 1, end: end - 1 });
+      i = end;
+    } else if (code[i] === "{") {
+      const end = skipBraces(code, i);
+      if (end < 0) return null;
+      attributes.push({ name, kind: "expression", start: i + 1, end: end - 1 });
+      i = end;
+    }
+  }
+  return null;
+}
+
+function kebabToCamel(property: string) {
+  return property.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+// ── Tailwind ──────────────────────────────────────
+
+const FONT_SIZES: Record<string, string> = {
+  "12px": "xs", "14px": "sm", "16px": "base", "18px": "lg", "20px": "xl",
+  "24px": "2xl", "30px": "3xl", "36px": "4xl", "48px": "5xl", "60px": "6xl",
+  "72px": "7xl", "96px": "8xl", "128px": "9xl",
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  "100": "thin", "200": "extralight", "300": "light", "400": "normal", "500": "medium",
+  "600": "semibold", "700": "bold", "800": "extrabold", "900": "black",
+};
+
+const DISPLAYS: Record<string, string> = {
+  block: "block", "inline-block": "inline-block", inline: "inline", flex: "flex",
+  "inline-flex": "inline-flex", grid: "grid", "inline-grid": "inline-grid",
+  none: "hidden", contents: "contents", "flow-root": "flow-root",
+};
+
+const COLOR_VALUE = String.raw`(?:black|white|transparent|current|inherit|[a-z]+-\d{2,3}(?:\/\d+)?|\[(?:#|rgb|hsl|oklch)[^\]]*\])`;
+
+const FONT_SIZE_VALUE = String.raw`(?:xs|sm|base|lg|\d?xl|\[\d[^\]]*(?:px|rem|em)\])`;
+
+// Utilities sharing a prefix with a color but setting something else
+const TEXT_OTHER = "(?:left|center|right|justify|start|end|wrap|nowrap|balance|pretty|ellipsis|clip)";
+const BG_OTHER = String.raw`(?:fixed|local|scroll|auto|cover|contain|none|center|top|bottom|left|right|(?:left|right)-(?:top|bottom)|(?:no-)?repeat(?:-\S+)?|(?:clip|origin|blend)-\S+|(?:gradient|linear|radial|conic)(?:-\S+)?|\[(?:url|image|length|position|size)[(:]\S*\])`;
+const BORDER_OTHER = String.raw`(?:(?:[xytrblse]-)?(?:\d+|\[\d[^\]]*\])|[xytrblse]|solid|dashed|dotted|double|hidden|none|collapse|separate|spacing-\S+)`;
+
+function arbitrary(value: string) {
+  return `[${value.replace(/\s+/g, "_")}]`;
+}
+
+/** `24px` → `6`, on Tailwind's 4px spacing scale; otherwise an arbitrary value. */
+function spacingToken(value: string) {
+  if (value === "0px" || value === "0") return "0";
+  if (value === "1px") return "px";
+  if (value === "auto") return "auto";
+  const px = value.match(/^(\d+(?:\.\d+)?)px$/);
+  if (px) {
+    const steps = Number(px[1]) / 4;
+    if (Number.isInteger(steps * 2)) return String(steps);
+  }
+  return arbitrary(value);
+}
+
+function spacingRule(prefix: string, allowNegative = false, shared: string[] = []) {
+  return {
+    matches: new RegExp(`^-?${prefix}-(?:\\d+(?:\\.\\d+)?|px|auto|full|\\[[^\\]]+\\])$`),
+    family: new RegExp(`^-?(?:${[prefix, ...shared].join("|")})-`),
+    toClass(value: string) {
+      if (allowNegative && value.startsWith("-") && value !== "-0px") {
+        return `-${prefix}-${spacingToken(value.slice(1))}`;
+      }
+      return value.startsWith("-") ? null : `${prefix}-${spacingToken(value)}`;
+    },
+  };
+}
+
+interface TailwindRule {
+  /** Base utilities that already set this property */
+  matches: RegExp;
+  /**
+   * Every utility that may set it, `matches` included. One `matches` can't
+   * read (`w-1/2`, a theme color like `text-primary`) would compete with the
+   * new class.
+   */
+  family: RegExp;
+  toClass: (value: string) => string | null;
+}
+
+const TAILWIND_RULES: Record<string, TailwindRule> = {
+  "padding-top": spacingRule("pt"),
+  "padding-right": spacingRule("pr"),
+  "padding-bottom": spacingRule("pb"),
+  "padding-left": spacingRule("pl"),
+  "margin-top": spacingRule("mt", true),
+  "margin-right": spacingRule("mr", true),
+  "margin-bottom": spacingRule("mb", true),
+  "margin-left": spacingRule("ml", true),
+  gap: spacingRule("gap"),
+  "row-gap": spacingRule("gap-y"),
+  "column-gap": spacingRule("gap-x"),
+  width: spacingRule("w", false, ["size"]),
+  height: spacingRule("h", false, ["size"]),
+  color: {
+    matches: new RegExp(`^text-${COLOR_VALUE}$`),
+    family: new RegExp(`^text-(?!(?:${FONT_SIZE_VALUE}|${TEXT_OTHER})$)`),
+    toClass: (value) => `text-${arbitrary(value)}`,
+  },
+  "background-color": {
+    matches: new RegExp(`^bg-${COLOR_VALUE}$`),
+    family: new RegExp(`^bg-(?!${BG_OTHER}$)`),
+    toClass: (value) => `bg-${arbitrary(value)}`,
+  },
+  "border-color": {
+    matches: new RegExp(`^border-${COLOR_VALUE}$`),
+    family: new RegExp(`^border-(?!${BORDER_OTHER}$)`),
+    toClass: (value) => `border-${arbitrary(value)}`,
+  },
+  "font-size": {
+    matches: new RegExp(`^text-${FONT_SIZE_VALUE}$`),
+    family: new RegExp(`^text-(?!(?:${COLOR_VALUE}|${TEXT_OTHER})$)`),
+    toClass: (value) => `text-${FONT_SIZES[value] ?? arbitrary(value)}`,
+  },
+  "font-weight": {
+    matches: /^font-(?:thin|extralight|light|normal|medium|semibold|bold|extrabold|black|\[\d+\])$/,
+    // Not the families: `font-sans`, `font-['Inter']`
+    family: /^font-(?!(?:sans|serif|mono)$|stretch-|\[(?!\d))/,
+    toClass: (value) => `font-${FONT_WEIGHTS[value] ?? arbitrary(value)}`,
+  },
+  "line-height": {
+    matches: /^leading-(?:\S+)$/,
+    family: /^leading-/,
+    toClass: (value) => `leading-${arbitrary(value)}`,
+  },
+  "letter-spacing": {
+    matches: /^tracking-(?:\S+)$/,
+    family: /^tracking-/,
+    toClass: (value) => `tracking-${arbitrary(value)}`,
+  },
+  "border-radius": {
+    matches: /^rounded(?:-(?:none|xs|sm|md|lg|\d?xl|full|\[[^\]]+\]))?$/,
+    family: /^rounded(?:$|-)/,
+    toClass: (value) =>
+      value === "0px" ? "rounded-none" : value === "9999px" ? "rounded-full" : `rounded-${arbitrary(value)}`,
+  },
+  opacity: {
+    matches: /^opacity-(?:\d+|\[[^\]]+\])$/,
+    family: /^opacity-/,
+    toClass: (value) => {
+      const percent = Number(value) * 100;
+      return Number.isInteger(percent) ? `opacity-${percent}` : `opacity-${arbitrary(value)}`;
+    },
+  },
+  display: {
+    matches: /^(?:block|inline-block|inline|flex|inline-flex|grid|inline-grid|hidden|contents|flow-root)$/,
+    family: /^(?:block|inline-block|inline|flex|inline-flex|grid|inline-grid|hidden|contents|flow-root|list-item|(?:inline-)?table(?:-\S+)?)$/,
+    toClass: (value) => DISPLAYS[value] ?? null,
+  },
+};
+
+function rewriteClassList(
+  classList: string,
+  change: FlareStyleChange,
+  variant = "",
+): string | null {
+  const rule = TAILWIND_RULES[change.property];
+  if (!rule) return null;
+  // The panel's suggestion comes from the project's own theme, so prefer it.
+  // It already carries the variant.
+  const suggested = change.suggestedClass?.startsWith(variant)
+    ? change.suggestedClass.slice(variant.length)
+    : undefined;
+  const base = suggested && rule.matches.test(suggested) ? suggested : rule.toClass(change.after);
+  if (!base) return null;
+
+  const classes = classList.split(/\s+/).filter(Boolean);
+  const isTarget = (name: string) =>
+    name.startsWith(variant) && !name.slice(variant.length).includes(":") &&
+    rule.matches.test(name.slice(variant.length));
+  // Leave it to the agent when another class could win over the new one:
+  // other responsive or state variants of the utility, which may be what
+  // shows at some sizes, or one in this variant the rules can't read
+  const hasConflict = classes.some((name) => {
+    const utility = name.split(":").pop() ?? name;
+    if (isTarget(name) || !rule.family.test(utility)) return false;
+    return name.includes(":") || !variant;
+  });
+  if (hasConflict) return null;
+
+  const kept = classes.filter((name) => !isTarget(name));
+  return [...kept, variant + base].join(" ");
+}
+
+/** Tailwind variant prefix for a scoped entry, e.g. `md:hover:`; null if there's none. */
+function getVariant(entry: FlareElementChange) {
+  let media = "";
+  if (entry.breakpoint) media = `${entry.breakpoint}:`;
+  else if (entry.mediaQuery) {
+    const minWidth = entry.mediaQuery.match(/^\(min-width: (\d+(?:\.\d+)?px)\)$/);
+    if (!minWidth) return null;
+    media = `min-[${minWidth[1]}]:`;
+  }
+  return media + (entry.state ? `${entry.state}:` : "");
+}
+
+const tailwindProjects = new Map<string, boolean>();
+
+/** Whether the nearest package.json above `filePath` depends on Tailwind. */
+function usesTailwind(filePath: string) {
+  let dir = dirname(filePath);
+  while (true) {
+    const cached = tailwindProjects.get(dir);
+    if (cached !== undefined) return cached;
+    const pkgPath = join(dir, "package.json");
+    if (existsSync(pkgPath)) {
+      let found = false;
+      try {
+        const pkg = JSON.parse(readFileSync(pkgPath, "utf8"));
+        const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+        found = "tailwindcss" in deps || "@tailwindcss/vite" in deps;
+      } catch {}
+      tailwindProjects.set(dir, found);
+      return found;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+}
+
+// ── Inline styles ─────────────────────────────────
+
+/**
+ * Set one key in a `style={{ ... }}` literal, or null if it isn't a plain
+ * object or the key already holds an expression.
+ */
+function rewriteStyleObject(expression: string, change: FlareStyleChange): string | null {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith("{") || !trimmed.endsWith("}")) return null;
+  const key = kebabToCamel(change.property);
+
+  const existing = new RegExp(
+    `([{,]\\s*(?:${key}|["']${change.property}["'])\\s*:\\s*)("[^"]*"|'[^']*'|-?\\d+(?:\\.\\d+)?)`,
+  );
+  if (existing.test(expression)) {
+    return expression.replace(existing, (_, head: string, previous: string) => {
+      const quote = previous.startsWith("'") ? "'" : '"';
+      return `${head}${quote}${change.after}${quote}`;
+    });
+  }
+  // `paddingTop: size` — appending would duplicate the key
+  if (hasStyleKey(expression, change.property)) return null;
+
+  const close = expression.lastIndexOf("}");
+  const body = expression.slice(0, close).replace(/\s*$/, "");
+  const separator = body.endsWith("{") || body.endsWith(",") ? " " : ", ";
+  return `${body}${separator}${key}: ${JSON.stringify(change.after)} ${expression.slice(close)}`;
+}
+
+function hasStyleKey(expression: string, property: string) {
+  return new RegExp(`[{,]\\s*(?:${kebabToCamel(property)}|["']${property}["'])\\s*:`).test(expression);
+}
+
+// ── CSS Modules ───────────────────────────────────
+
+function findModuleStylesheet(code: string, sourcePath: string, binding: string) {
+  const imports = new RegExp(
+    `import\\s+${binding}\\s+from\\s+["']([^"']+\\.module\\.(?:css|scss))["']`,
+  );
+  const match = code.match(imports);
+  if (!match) return null;
+  const filePath = resolve(dirname(sourcePath), match[1]);
+  return existsSync(filePath) ? filePath : null;
+}
+
+/** Set a declaration in the top-level `.className { }` rule. */
+function rewriteModuleRule(css: string, className: string, change: FlareStyleChange): string | null {
+  const rule = new RegExp(`(^|[}\\n])\\s*\\.${className}\\s*\\{`, "g");
+  const matches = [...css.matchAll(rule)];
+  if (matches.length !== 1) return null;
+
+  const open = (matches[0].index ?? 0) + matches[0][0].length;
+  const close = css.indexOf("}", open);
+  if (close < 0) return null;
+  const block = css.slice(open, close);
+  // Nested rules would need a real parser
+  if (block.includes("{")) return null;
+
+  const declaration = new RegExp(`(^|[;\\s])(${change.property}\\s*:\\s*)([^;]+)`);
+  let nextBlock: string;
+  if (declaration.test(block)) {
+    nextBlock = block.replace(declaration, (_, lead: string, head: string) => `${lead}${head}${change.after}`);
+  } else {
+    const indent = block.match(/\n([ \t]+)\S/)?.[1] ?? "  ";
+    nextBlock = `${block.replace(/\s*$/, "")}\n${indent}${change.property}: ${change.after};\n`;
+  }
+  return css.slice(0, open) + nextBlock + css.slice(close);
+}
+
+// ── Applying ──────────────────────────────────────
+
+function splice(code: string, start: number, end: number, replacement: string) {
+  return code.slice(0, start) + replacement + code.slice(end);
+}
+
+export function applyBatch(batch: unknown, options: ApplyOptions = {}): ApplyResult {
+  const cwd = options.cwd ?? process.cwd();
+  const input = batch as { type?: string; inboxPath?: string; files?: BatchFile[] };
+  // A single inbox file works too
+  const files: BatchFile[] =
+    input.type === "watch.batch" && Array.isArray(input.files)
+      ? input.files
+      : [{ payload: batch as BatchFile["payload"] }];
+
+  const contents = new Map<string, string>();
+  const read = (filePath: string) => {
+    if (!contents.has(filePath)) contents.set(filePath, readFileSync(filePath, "utf8"));
+    return contents.get(filePath)!;
+  };
+  const dirty = new Set<string>();
+  const write = (filePath: string, code: string) => {
+    contents.set(filePath, code);
+    dirty.add(filePath);
+  };
+
+  const applied: AppliedChange[] = [];
+  const skipped: SkippedChange[] = [];
+
+  const applyChange = (entry: FlareElementChange, change: FlareStyleChange): string | null => {
+    // Flare annotates translucent colors as `#rrggbb (opacity 50%)`
+    if (/ \(opacity \d+%\)$/.test(change.after)) return "Value isn't plain CSS";
+    const location = entry.source ? resolveSource(entry.source, cwd) : null;
+    if (!location) return "No source file to edit";
+
+    const code = read(location.filePath);
+    const tag = readJsxTag(code, location);
+    if (!tag) return "Couldn't find the JSX element at the source location";
+    if (!/^[a-z]/.test(tag.name)) return `<${tag.name}> is a component, so the edit belongs inside it`;
+
+    const record = (file: string, strategy: Strategy) => {
+      applied.push({ selector: entry.selector, property: change.property, after: change.after, file, strategy });
+      return null;
+    };
+
+    const style = tag.attributes.find((attr) => attr.name === "style" && attr.kind === "expression");
+    const className = tag.attributes.find((attr) => attr.name === "className");
+    const styleExpression = style ? code.slice(style.start, style.end) : null;
+
+    // Inline styles and module rules can't target a state or breakpoint
+    // without a new rule, so only a Tailwind variant is a confident edit
+    if (entry.state || entry.mediaQuery) {
+      const scope = [entry.breakpoint ?? entry.mediaQuery, entry.state && `:${entry.state}`]
+        .filter(Boolean)
+        .join(" ");
+      const variant = getVariant(entry);
+      if (!variant || className?.kind !== "string" || !usesTailwind(location.filePath)) {
+        return `${scope} changes need a stylesheet rule or variant`;
+      }
+      const next = rewriteClassList(code.slice(className.start, className.end), change, variant);
+      if (!next) return `No confident Tailwind ${variant} utility for ${change.property}`;
+      write(location.filePath, splice(code, className.start, className.end, next));
+      return record(location.filePath, "tailwind");
+    }
+
+    // Inline style already sets this property
+    if (style && styleExpression && hasStyleKey(styleExpression, change.property)) {
+      const next = rewriteStyleObject(styleExpression, change);
+      if (!next) return `style sets ${change.property} to something other than a literal`;
+      write(location.filePath, splice(code, style.start, style.end, next));
+      return record(location.filePath, "inline-style");
+    }
+
+    if (className?.kind === "expression") {
+      const expression = code.slice(className.start, className.end).trim();
+      const member = expression.match(/^(\w+)(?:\.(\w+)|\[["']([\w-]+)["']\])$/);
+      const stylesheet = member ? findModuleStylesheet(code, location.filePath, member[1]) : null;
+      if (!member || !stylesheet) return "className is a dynamic expression";
+      const css = rewriteModuleRule(read(stylesheet), member[2] ?? member[3], change);
+      if (!css) return `No single plain .${member[2] ?? member[3]} rule in ${stylesheet}`;
+      write(stylesheet, css);
+      return record(stylesheet, "css-module");
+    }
+
+    if (className?.kind === "string" && usesTailwind(location.filePath)) {
+      const next = rewriteClassList(code.slice(className.start, className.end), change);
+      if (!next) return `No confident Tailwind utility for ${change.property}`;
+      write(location.filePath, splice(code, className.start, className.end, next));
+      return record(location.filePath, "tailwind");
+    }
+
+    if (style && styleExpression) {
+      const next = rewriteStyleObject(styleExpression, change);
+      if (!next) return "style isn't a plain object literal";
+      write(location.filePath, splice(code, style.start, style.end, next));
+      return record(location.filePath, "inline-style");
+    }
+
+    return "Element has no className or style that can be edited safely";
+  };
+
+  const remainingFiles = files.map((file) => {
+    const changes = file.payload?.snapshot?.changes ?? [];
+    const remaining: FlareElementChange[] = [];
+
+    for (const entry of changes) {
+      // Comments and variants need judgment, so the agent handles the whole entry
+      if (entry.comment || entry.variantSource) {
+        skipped.push({ selector: entry.selector, reason: "Has a comment or variant for the agent" });
+        remaining.push(entry);
+        continue;
+      }
+      const left: FlareStyleChange[] = [];
+      for (const change of entry.changes) {
+        let reason: string | null;
+        try {
+          reason = applyChange(entry, change);
+        } catch (error) {
+          reason = error instanceof Error ? error.message : String(error);
+        }
+        if (reason) {
+          skipped.push({ selector: entry.selector, property: change.property, reason });
+          left.push(change);
+        }
+      }
+      if (left.length > 0) remaining.push({ ...entry, changes: left });
+    }
+
+    return {
+      ...file,
+      payload: { ...file.payload, snapshot: { ...file.payload.snapshot, changes: remaining } },
+    };
+  });
+
+  if (!options.dryRun) {
+    for (const filePath of dirty) writeFileSync(filePath, contents.get(filePath)!);
+  }
+
+  return {
+    type: "apply.result",
+    applied,
+    skipped,
+    batch: { type: "watch.batch", inboxPath: input.inboxPath, files: remainingFiles },
+  };
+}
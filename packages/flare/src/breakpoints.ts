@@ -0,0 +1,60 @@
+// ── Breakpoints ────────────────────────────────────
+//
+// Configured breakpoints come from the Vite plugin, either its `breakpoints`
+// option or the Tailwind theme. Without them, the `min-width` media queries
+// in the page's stylesheets are used.
+
+import { collectMediaQueries } from "./cascade";
+
+export interface Breakpoint {
+  /** Configured name, e.g. `md`; null for breakpoints read from stylesheets */
+  name: string | null;
+  minWidth: number;
+  mediaQuery: string;
+}
+
+// `(min-width: 768px)` or `(width >= 48rem)`
+const MIN_WIDTH = /\(\s*(?:min-width\s*:|width\s*>=)\s*([\d.]+)(px|em|rem)\s*\)/;
+
+// Media queries resolve `em`/`rem` against the initial font size, not the page's
+const MEDIA_FONT_SIZE = 16;
+
+export function toMediaQuery(minWidth: number) {
+  return `(min-width: ${minWidth}px)`;
+}
+
+/** `md`, or the width for breakpoints without a name. */
+export function getBreakpointLabel(breakpoint: Breakpoint) {
+  return breakpoint.name ?? `${breakpoint.minWidth}`;
+}
+
+/** The project's breakpoints, narrowest first. */
+export function getBreakpoints(doc: Document): Breakpoint[] {
+  const configured = window.__FLARE_BREAKPOINTS__;
+  if (configured && Object.keys(configured).length > 0) {
+    return Object.entries(configured)
+      .map(([name, minWidth]) => ({ name, minWidth, mediaQuery: toMediaQuery(minWidth) }))
+      .sort((a, b) => a.minWidth - b.minWidth);
+  }
+
+  const widths = new Set<number>();
+  for (const query of collectMediaQueries(doc)) {
+    // Ranges and max-width queries don't describe a mobile-first breakpoint
+    if (/max-width|width\s*<|print/.test(query)) continue;
+    const m = query.match(MIN_WIDTH);
+    if (!m) continue;
+    const value = parseFloat(m[1]);
+    widths.add(m[2] === "px" ? value : value * MEDIA_FONT_SIZE);
+  }
+  return [...widths]
+    .sort((a, b) => a - b)
+    .map((minWidth) => ({ name: null, minWidth, mediaQuery: toMediaQuery(minWidth) }));
+}
+
+/**
+ * Tailwind variant prefix for edits at `breakpoint`, e.g. `md:`. Breakpoints
+ * without a name use an arbitrary variant like `min-[768px]:`.
+ */
+export function getBreakpointVariant(breakpoint: Breakpoint) {
+  return breakpoint.name ? `${breakpoint.name}:` : `min-[${breakpoint.minWidth}px]:`;
+}
@@ -1,9 +1,20 @@
-import type { FlareSessionSnapshot } from "./bridge-types";
+import {
+  type AgentAckRequest,
+  type AgentDomResponse,
+  type FlareCanvasDocument,
+  type FlareCanvasSummary,
+  type FlareSessionSnapshot,
+  SCHEMA_VERSION,
+} from "./bridge-types";
+
+export type { AgentDomResponse, FlareCanvasDocument, FlareCanvasSummary };
 
 const DEFAULT_BRIDGE_URL = "http://127.0.0.1:4318";
 
 interface FlareBridgeConfig {
   url?: string;
+  /** Session token the bridge wrote at startup; injected by the Vite plugin */
+  token?: string;
 }
 
 declare global {
@@ -13,12 +24,17 @@ declare global {
 }
 
 function getBridgeConfig() {
-  if (typeof window === "undefined") return { url: DEFAULT_BRIDGE_URL };
+  if (typeof window === "undefined") return { url: DEFAULT_BRIDGE_URL, token: null };
   return {
     url: window.__FLARE_BRIDGE__?.url ?? DEFAULT_BRIDGE_URL,
+    token: window.__FLARE_BRIDGE__?.token ?? null,
   };
 }
 
+function getAuthHeaders(token: string | null): Record<string, string> {
+  return token ? { "X-Flare-Token": token } : {};
+}
+
 function getCurrentOrigin() {
   if (typeof window === "undefined") return null;
   return window.location.origin ?? null;
@@ -33,29 +49,30 @@ export function getBridgeConnectionInfo() {
   };
 }
 
-export async function getBridgeStatus() {
+export interface BridgeStatus {
+  available: boolean;
+  /** False when the bridge is up but rejects this page's token, e.g. after a restart */
+  tokenValid: boolean;
+  /** Whether the page was given a token at all */
+  hasToken: boolean;
+}
+
+export async function getBridgeStatus(): Promise<BridgeStatus> {
   const config = getBridgeConfig();
+  const hasToken = config.token !== null;
 
   try {
     const url = new URL("/health", config.url);
-    const response = await fetch(url);
-    return {
-      available: response.ok,
-    };
+    const response = await fetch(url, { headers: getAuthHeaders(config.token) });
+    if (!response.ok) return { available: false, tokenValid: false, hasToken };
+    const data = (await response.json()) as { tokenValid?: boolean };
+    // Bridges that predate the check don't report it
+    return { available: true, tokenValid: data.tokenValid !== false, hasToken };
   } catch {
-    return { available: false };
+    return { available: false, tokenValid: false, hasToken };
   }
 }
 
-export interface AgentDomResponse {
-  origin: string;
-  selector: string;
-  outerHTML: string;
-  variantRequestId?: string;
-  variantSource?: string;
-  variantExportName?: string;
-}
-
 export async function pollAgentResponses(): Promise<AgentDomResponse[]> {
   const config = getBridgeConfig();
   const origin = getCurrentOrigin();
@@ -64,7 +81,7 @@ export async function pollAgentResponses(): Promise<AgentDomResponse[]> {
   try {
     const url = new URL("/api/agent/responses", config.url);
     url.searchParams.set("origin", origin);
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: getAuthHeaders(config.token) });
     if (!response.ok) return [];
     const data = (await response.json()) as { responses?: AgentDomResponse[] };
     return data.responses ?? [];
@@ -73,38 +90,216 @@ export async function pollAgentResponses(): Promise<AgentDomResponse[]> {
   }
 }
 
+export async function pollAgentAcks(): Promise<AgentAckRequest[]> {
+  const config = getBridgeConfig();
+  const origin = getCurrentOrigin();
+  if (!origin) return [];
+
+  try {
+    const url = new URL("/api/agent/acks", config.url);
+    url.searchParams.set("origin", origin);
+    const response = await fetch(url, { headers: getAuthHeaders(config.token) });
+    if (!response.ok) return [];
+    const data = (await response.json()) as { acks?: AgentAckRequest[] };
+    return data.acks ?? [];
+  } catch {
+    return [];
+  }
+}
+
+export interface AgentAckSummary {
+  id: string;
+  applied: number;
+  skipped: number;
+  failed: number;
+  /** Reasons the agent gave for skipped or failed changes */
+  reasons: string[];
+}
+
+export function summarizeAck(ack: AgentAckRequest): AgentAckSummary {
+  const summary: AgentAckSummary = { id: ack.id, applied: 0, skipped: 0, failed: 0, reasons: [] };
+  for (const change of ack.changes) {
+    summary[change.status] += 1;
+    if (change.status !== "applied" && change.reason) summary.reasons.push(change.reason);
+  }
+  return summary;
+}
+
+export interface AgentEventHandlers {
+  onResponses?: (responses: AgentDomResponse[]) => void;
+  onAcks?: (acks: AgentAckRequest[]) => void;
+}
+
+/**
+ * Follow DOM responses and acks for the current origin. Uses the bridge's
+ * event stream and falls back to polling when the stream can't be opened
+ * or is closed for good.
+ * Only the kinds with a handler are consumed. Returns an unsubscribe function.
+ */
+export function subscribeAgentEvents(
+  handlers: AgentEventHandlers,
+  pollMs = 1000,
+): () => void {
+  const config = getBridgeConfig();
+  const origin = getCurrentOrigin();
+  if (!origin) return () => {};
+
+  const { onResponses, onAcks } = handlers;
+  let closed = false;
+  let pollTimer: number | null = null;
+  let source: EventSource | null = null;
+
+  const startPolling = () => {
+    if (closed || pollTimer !== null) return;
+    pollTimer = window.setInterval(async () => {
+      if (onResponses) {
+        const responses = await pollAgentResponses();
+        if (!closed && responses.length > 0) onResponses(responses);
+      }
+      if (onAcks) {
+        const acks = await pollAgentAcks();
+        if (!closed && acks.length > 0) onAcks(acks);
+      }
+    }, pollMs);
+  };
+
+  if (typeof EventSource === "undefined") {
+    startPolling();
+  } else {
+    const url = new URL("/api/agent/responses/stream", config.url);
+    url.searchParams.set("origin", origin);
+    url.searchParams.set(
+      "events",
+      [onResponses && "response", onAcks && "ack"].filter(Boolean).join(","),
+    );
+    // EventSource can't send headers, so the token rides in the query
+    if (config.token) url.searchParams.set("token", config.token);
+    let opened = false;
+    source = new EventSource(url);
+    source.onopen = () => {
+      opened = true;
+    };
+    source.addEventListener("response", (event) => {
+      try {
+        onResponses?.([JSON.parse((event as MessageEvent<string>).data) as AgentDomResponse]);
+      } catch {}
+    });
+    source.addEventListener("ack", (event) => {
+      try {
+        onAcks?.([JSON.parse((event as MessageEvent<string>).data) as AgentAckRequest]);
+      } catch {}
+    });
+    source.onerror = () => {
+      // Once open, EventSource reconnects on its own — unless the bridge
+      // refused the reconnect (e.g. a 401 after a restart), which closes it
+      if (opened && source?.readyState !== EventSource.CLOSED) return;
+      source?.close();
+      source = null;
+      startPolling();
+    };
+  }
+
+  return () => {
+    closed = true;
+    source?.close();
+    if (pollTimer !== null) window.clearInterval(pollTimer);
+  };
+}
+
 export async function pushSnapshotToAgent(
   snapshot: FlareSessionSnapshot,
 ) {
   const config = getBridgeConfig();
   const origin = getCurrentOrigin();
-  if (!origin) return { ok: false, inboxPath: null, filePath: null };
+  if (!origin) return { ok: false, id: null, inboxPath: null, filePath: null };
 
   try {
     const url = new URL("/api/agent/push", config.url);
     const response = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...getAuthHeaders(config.token) },
       body: JSON.stringify({
+        schemaVersion: SCHEMA_VERSION,
         origin,
         snapshot,
       }),
     });
 
     if (!response.ok) {
-      return { ok: false, inboxPath: null, filePath: null };
+      return {
+        ok: false,
+        id: null,
+        inboxPath: null,
+        filePath: null,
+        unauthorized: response.status === 401,
+      };
     }
 
     const data = (await response.json()) as {
+      id?: string;
       inboxPath?: string;
       filePath?: string;
     };
     return {
       ok: true,
+      id: data.id ?? null,
       inboxPath: data.inboxPath ?? null,
       filePath: data.filePath ?? null,
     };
   } catch {
-    return { ok: false, inboxPath: null, filePath: null };
+    return { ok: false, id: null, inboxPath: null, filePath: null };
+  }
+}
+
+// ── Canvas documents ──────────────────────────────
+
+export async function saveCanvasDocument(document: FlareCanvasDocument) {
+  const config = getBridgeConfig();
+
+  try {
+    const url = new URL("/api/canvas", config.url);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getAuthHeaders(config.token) },
+      body: JSON.stringify({ ...document, schemaVersion: SCHEMA_VERSION }),
+    });
+    if (response.status === 409) {
+      // Another canvas already lives in the file this name maps to
+      const data = (await response.json()) as { name?: string };
+      return { ok: false, filePath: null, conflictsWith: data.name ?? null };
+    }
+    if (!response.ok) return { ok: false, filePath: null, conflictsWith: null };
+    const data = (await response.json()) as { filePath?: string };
+    return { ok: true, filePath: data.filePath ?? null, conflictsWith: null };
+  } catch {
+    return { ok: false, filePath: null, conflictsWith: null };
+  }
+}
+
+export async function listCanvasDocuments(): Promise<FlareCanvasSummary[]> {
+  const config = getBridgeConfig();
+
+  try {
+    const url = new URL("/api/canvas", config.url);
+    const response = await fetch(url, { headers: getAuthHeaders(config.token) });
+    if (!response.ok) return [];
+    const data = (await response.json()) as { canvases?: FlareCanvasSummary[] };
+    return data.canvases ?? [];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadCanvasDocument(name: string): Promise<FlareCanvasDocument | null> {
+  const config = getBridgeConfig();
+
+  try {
+    const url = new URL("/api/canvas/document", config.url);
+    url.searchParams.set("name", name);
+    const response = await fetch(url, { headers: getAuthHeaders(config.token) });
+    if (!response.ok) return null;
+    return (await response.json()) as FlareCanvasDocument;
+  } catch {
+    return null;
   }
 }
@@ -0,0 +1,254 @@
+import {
+  type AgentAckRequest,
+  type AgentDomResponse,
+  type AgentPushRequest,
+  type FlareCanvasDocument,
+  INBOX_FILE_ID_PATTERN,
+  SUPPORTED_SCHEMA_VERSIONS,
+} from "./bridge-types.js";
+
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. `$.snapshot.changes[0].after` */
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+type Validator = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+function describeType(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const string: Validator = (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push({ path, message: `Expected string, got ${describeType(value)}` });
+  }
+};
+
+const number: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path, message: `Expected number, got ${describeType(value)}` });
+  }
+};
+
+const boolean: Validator = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: `Expected boolean, got ${describeType(value)}` });
+  }
+};
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path, issues) => {
+    if (typeof value === "string" && values.includes(value)) return;
+    issues.push({
+      path,
+      message: `Expected one of ${values.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value) ?? "undefined"}`,
+    });
+  };
+}
+
+// The file name may come with its extension
+const inboxFileId: Validator = (value, path, issues) => {
+  if (typeof value !== "string" || !INBOX_FILE_ID_PATTERN.test(value.replace(/\.json$/, ""))) {
+    issues.push({ path, message: `Expected an inbox file id, got ${JSON.stringify(value) ?? "undefined"}` });
+  }
+};
+
+function arrayOf(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `Expected array, got ${describeType(value)}` });
+      return;
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, issues));
+  };
+}
+
+function recordOf(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: `Expected object, got ${describeType(value)}` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) item(entry, `${path}.${key}`, issues);
+  };
+}
+
+/** Unknown keys are allowed so newer clients can add fields. */
+function object(
+  required: Record<string, Validator>,
+  optional: Record<string, Validator> = {},
+): Validator {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: `Expected object, got ${describeType(value)}` });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validate] of Object.entries(required)) {
+      if (!(key in record)) {
+        issues.push({ path: `${path}.${key}`, message: "Required" });
+        continue;
+      }
+      validate(record[key], `${path}.${key}`, issues);
+    }
+    for (const [key, validate] of Object.entries(optional)) {
+      if (record[key] !== undefined) validate(record[key], `${path}.${key}`, issues);
+    }
+  };
+}
+
+// Payloads without a version predate versioning and are read as version 1
+const schemaVersion: Validator = (value, path, issues) => {
+  if (SUPPORTED_SCHEMA_VERSIONS.includes(value as number)) return;
+  issues.push({
+    path,
+    message: `Unsupported schema version ${JSON.stringify(value)} (supported: ${SUPPORTED_SCHEMA_VERSIONS.join(", ")})`,
+  });
+};
+
+// ── Schemas ───────────────────────────────────────
+
+const styleChange = object(
+  { property: string, before: string, after: string },
+  { suggestedClass: string, resolvedBefore: string, resolvedAfter: string },
+);
+
+const elementState = oneOf(["hover", "focus", "active", "disabled"]);
+
+const elementChange = object(
+  { selector: string, path: string, changes: arrayOf(styleChange) },
+  {
+    textSnippet: string,
+    comment: string,
+    source: string,
+    componentStack: arrayOf(string),
+    variantSource: string,
+    variantExportName: string,
+    state: elementState,
+    mediaQuery: string,
+    breakpoint: string,
+    group: string,
+    scope: oneOf(["component"]),
+    contrast: string,
+  },
+);
+
+const sessionSnapshot = object(
+  { updatedAt: string, changes: arrayOf(elementChange) },
+  { schemaVersion },
+);
+
+const pushRequest = object({ origin: string, snapshot: sessionSnapshot }, { schemaVersion });
+
+const domResponse = object(
+  { origin: string, selector: string, outerHTML: string },
+  { schemaVersion, variantRequestId: string, variantSource: string, variantExportName: string },
+);
+
+const ackRequest = object(
+  {
+    origin: string,
+    id: inboxFileId,
+    changes: arrayOf(
+      object(
+        { selector: string, status: oneOf(["applied", "skipped", "failed"]) },
+        { property: string, reason: string },
+      ),
+    ),
+  },
+  { schemaVersion },
+);
+
+const canvasElementRef = {
+  frameId: string,
+  indexPath: arrayOf(number),
+  tagName: string,
+  cssSelector: string,
+};
+
+const canvasFrame = object(
+  { id: string, path: string, width: number, height: number, x: number, y: number },
+  {
+    isVariant: boolean,
+    variantRequestId: string,
+    variantSelector: string,
+    variantExportName: string,
+    variantSourceCode: string,
+    variantHTML: string,
+    variantIndex: number,
+  },
+);
+
+const canvasEdit = object(
+  { ...canvasElementRef, overrides: recordOf(string), original: recordOf(string) },
+  { state: elementState, mediaQuery: string, breakpoint: string, comment: string },
+);
+
+const canvasComment = object({
+  ...canvasElementRef,
+  selector: string,
+  outerHTML: string,
+  text: string,
+  x: number,
+  y: number,
+  status: oneOf(["pending", "applied", "failed"]),
+});
+
+const canvasContentChange = object({
+  frameId: string,
+  selector: string,
+  originalHTML: string,
+  newHTML: string,
+  comment: string,
+});
+
+const canvasGuide = object({
+  count: number,
+  color: string,
+  opacity: number,
+  type: oneOf(["stretch", "left", "center", "right"]),
+  width: number,
+  margin: number,
+  gutter: number,
+});
+
+const canvasDocument = object(
+  {
+    name: string,
+    savedAt: string,
+    frames: arrayOf(canvasFrame),
+    edits: arrayOf(canvasEdit),
+    comments: arrayOf(canvasComment),
+    contentChanges: arrayOf(canvasContentChange),
+  },
+  { schemaVersion, guides: arrayOf(canvasGuide) },
+);
+
+function validate<T>(validator: Validator, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  validator(value, "$", issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: value as T };
+}
+
+export function validateAgentPushRequest(value: unknown) {
+  return validate<AgentPushRequest>(pushRequest, value);
+}
+
+export function validateAgentDomResponse(value: unknown) {
+  return validate<AgentDomResponse>(domResponse, value);
+}
+
+export function validateAgentAckRequest(value: unknown) {
+  return validate<AgentAckRequest>(ackRequest, value);
+}
+
+export function validateCanvasDocument(value: unknown) {
+  return validate<FlareCanvasDocument>(canvasDocument, value);
+}
@@ -1,25 +1,66 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
 import type { AddressInfo } from "node:net";
-import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import {
+  existsSync,
+  type FSWatcher,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  watch,
+  writeFileSync,
+} from "node:fs";
+import { basename, join, resolve } from "node:path";
 import { URL } from "node:url";
-import type {
-  AgentPushRequest,
-  FlareSessionSnapshot,
+import {
+  type SchemaIssue,
+  validateAgentAckRequest,
+  validateAgentDomResponse,
+  validateAgentPushRequest,
+  validateCanvasDocument,
+} from "./bridge-schema.js";
+import {
+  type AgentAckRequest,
+  type FlareCanvasSummary,
+  SCHEMA_VERSION,
+  SUPPORTED_SCHEMA_VERSIONS,
 } from "./bridge-types.js";
-import { BRIDGE_TMP_ROOT, getOriginInboxPath } from "./inbox-path.js";
+import { recordAck, recordPush } from "./history.js";
+import {
+  BRIDGE_TMP_ROOT,
+  ensureStoreRoot,
+  getBridgeStorePath,
+  getBridgeTokenPath,
+  getCanvasPath,
+  getCanvasRoot,
+  getOriginInboxPath,
+  getStoreRoot,
+  toTimestampFileName,
+} from "./inbox-path.js";
 
 export interface BridgeServerOptions {
   host?: string;
   port?: number;
+  /** Session token; generated at startup when omitted */
+  token?: string;
+  /** Browser origins allowed to call the bridge. Empty allows any origin with the token. */
+  allowedOrigins?: string[];
+  /** Where inboxes and history live; defaults to `getStoreRoot()` */
+  storeRoot?: string;
 }
 
 export interface BridgeServerInstance {
   host: string;
   port: number;
+  token: string;
+  tokenPath: string;
   close: () => Promise<void>;
 }
 
+export const BRIDGE_TOKEN_HEADER = "x-flare-token";
+
 function sendJson(res: ServerResponse, status: number, body: unknown) {
   res.statusCode = status;
   res.setHeader("Content-Type", "application/json; charset=utf-8");
@@ -31,6 +72,21 @@ function sendNoContent(res: ServerResponse) {
   res.end();
 }
 
+function tokensMatch(expected: string, received: string | null) {
+  if (!received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Token from the header, or the `token` query param for EventSource, which can't set headers. */
+function readRequestToken(req: IncomingMessage, url: URL) {
+  const header = req.headers[BRIDGE_TOKEN_HEADER];
+  return (Array.isArray(header) ? header[0] : header) ?? url.searchParams.get("token");
+}
+
+class InvalidJsonError extends Error {}
+
 async function readJson(req: IncomingMessage): Promise<unknown> {
   const chunks: Buffer[] = [];
   for await (const chunk of req) {
@@ -40,56 +96,85 @@ async function readJson(req: IncomingMessage): Promise<unknown> {
   if (chunks.length === 0) return null;
 
   const raw = Buffer.concat(chunks).toString("utf8");
-  return JSON.parse(raw);
-}
-
-function isSourceFrame(value: unknown) {
-  return typeof value === "string";
-}
-
-function isSnapshot(value: unknown): value is FlareSessionSnapshot {
-  if (!value || typeof value !== "object") return false;
-  const snapshot = value as Record<string, unknown>;
-
-  return (
-    typeof snapshot.updatedAt === "string" &&
-    Array.isArray(snapshot.changes) &&
-    snapshot.changes.every((change) => {
-      if (!change || typeof change !== "object") return false;
-      const item = change as Record<string, unknown>;
-      return (
-        typeof item.selector === "string" &&
-        typeof item.path === "string" &&
-        (!("textSnippet" in item) || typeof item.textSnippet === "string") &&
-        (!("comment" in item) || typeof item.comment === "string") &&
-        (!("source" in item) || isSourceFrame(item.source)) &&
-        Array.isArray(item.changes) &&
-        item.changes.every((entry) => {
-          if (!entry || typeof entry !== "object") return false;
-          const style = entry as Record<string, unknown>;
-          return (
-            typeof style.property === "string" &&
-            typeof style.before === "string" &&
-            typeof style.after === "string"
-          );
-        })
-      );
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new InvalidJsonError(error instanceof Error ? error.message : "Malformed JSON");
+  }
+}
+
+function sendInvalidPayload(res: ServerResponse, kind: string, issues: SchemaIssue[]) {
+  sendJson(res, 400, {
+    error: `Invalid ${kind} payload`,
+    issues,
+    supportedSchemaVersions: SUPPORTED_SCHEMA_VERSIONS,
+  });
+}
+
+function getOriginOutboxPath(origin: string, storeRoot: string) {
+  return getOriginInboxPath(origin, storeRoot) + "-outbox";
+}
+
+function getOriginAcksPath(origin: string, storeRoot: string) {
+  return getOriginInboxPath(origin, storeRoot) + "-acks";
+}
+
+/** Inbox file id: the file name without its `.json` extension. */
+function toInboxFileId(filePath: string) {
+  return basename(filePath).replace(/\.json$/, "");
+}
+
+function listJsonFiles(dirPath: string) {
+  if (!existsSync(dirPath)) return [];
+  return readdirSync(dirPath).filter((name) => name.endsWith(".json")).sort();
+}
+
+function readJsonFile(filePath: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/** Read and delete every pending item in an outbox or acks folder. */
+function drainQueue(queuePath: string): unknown[] {
+  return listJsonFiles(queuePath).map((name) => {
+    const filePath = join(queuePath, name);
+    const data = JSON.parse(readFileSync(filePath, "utf8"));
+    unlinkSync(filePath);
+    return data;
+  });
+}
+
+/** Saved canvases, newest first. Files that no longer validate are left out. */
+function listCanvasDocuments(storeRoot: string): FlareCanvasSummary[] {
+  const canvasRoot = getCanvasRoot(storeRoot);
+  return listJsonFiles(canvasRoot)
+    .flatMap((name) => {
+      const filePath = join(canvasRoot, name);
+      const result = validateCanvasDocument(readJsonFile(filePath));
+      if (!result.ok) return [];
+      const { name: canvasName, savedAt, frames } = result.value;
+      const frameCount = frames.filter((frame) => !frame.isVariant).length;
+      return [{ name: canvasName, savedAt, frameCount, filePath }];
     })
-  );
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
 }
 
-function isAgentPushRequest(value: unknown): value is AgentPushRequest {
-  if (!value || typeof value !== "object") return false;
-  const request = value as Record<string, unknown>;
-  return (
-    typeof request.origin === "string" &&
-    isSnapshot(request.snapshot)
-  );
+const STREAM_HEARTBEAT_MS = 15000;
+
+function openEventStream(res: ServerResponse) {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  res.write(": connected\n\n");
 }
 
-let _fileSeq = 0;
-function toTimestampFileName(isoString: string) {
-  return `${isoString.replace(/[:.]/g, "-")}-${_fileSeq++}.json`;
+function writeStreamEvent(res: ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
 export function createBridgeServer(
@@ -97,12 +182,88 @@ export function createBridgeServer(
 ): { start: () => Promise<BridgeServerInstance> } {
   const host = options.host ?? "127.0.0.1";
   const port = options.port ?? 4318;
+  const token = options.token ?? randomBytes(24).toString("hex");
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  const storeRoot = options.storeRoot ?? getStoreRoot();
+
+  // Open SSE connections, keyed by the inbox, outbox or acks folder they follow
+  const streams = new Map<string, Set<ServerResponse>>();
+  // Inbox files each agent stream has been sent, so fs.watch and the push
+  // route don't deliver the same snapshot to it twice
+  const sentFiles = new Map<ServerResponse, Set<string>>();
+  const inboxWatchers = new Map<string, FSWatcher>();
+
+  const broadcast = (key: string, event: string, data: unknown) => {
+    for (const res of streams.get(key) ?? []) writeStreamEvent(res, event, data);
+  };
+
+  const announceInboxFile = (inboxPath: string, name: string) => {
+    if (!name.endsWith(".json")) return;
+    const subscribers = [...(streams.get(inboxPath) ?? [])];
+    const filePath = join(inboxPath, name);
+    if (!existsSync(filePath)) {
+      // The agent is done with it
+      for (const res of subscribers) sentFiles.get(res)?.delete(name);
+      return;
+    }
+    const pending = subscribers.filter((res) => !sentFiles.get(res)?.has(name));
+    if (pending.length === 0) return;
+    // Partially written files fail to parse; fs.watch fires again once the write lands
+    const payload = readJsonFile(filePath);
+    if (!payload) return;
+
+    for (const res of pending) {
+      sentFiles.get(res)?.add(name);
+      writeStreamEvent(res, "snapshot", { filePath, payload });
+    }
+  };
+
+  // Queued items are only drained once someone is listening, so nothing is
+  // lost while the browser isn't subscribed
+  const flushQueue = (queuePath: string, event: string) => {
+    if (!streams.get(queuePath)?.size) return;
+    for (const item of drainQueue(queuePath)) {
+      broadcast(queuePath, event, item);
+    }
+  };
+
+  const subscribe = (keys: string[], req: IncomingMessage, res: ServerResponse) => {
+    openEventStream(res);
+    for (const key of keys) {
+      const subscribers = streams.get(key) ?? new Set<ServerResponse>();
+      streams.set(key, subscribers);
+      subscribers.add(res);
+    }
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      for (const key of keys) {
+        const subscribers = streams.get(key);
+        subscribers?.delete(res);
+        if (subscribers?.size) continue;
+        streams.delete(key);
+        inboxWatchers.get(key)?.close();
+        inboxWatchers.delete(key);
+      }
+    });
+  };
 
   const server = createServer(async (req, res) => {
     try {
-      res.setHeader("Access-Control-Allow-Origin", "*");
+      // Non-browser clients send no Origin and are only checked by token
+      const requestOrigin = req.headers.origin;
+      if (requestOrigin && allowedOrigins.size > 0 && !allowedOrigins.has(requestOrigin)) {
+        sendJson(res, 403, { error: `Origin ${requestOrigin} is not allowed` });
+        return;
+      }
+      res.setHeader(
+        "Access-Control-Allow-Origin",
+        requestOrigin && allowedOrigins.size > 0 ? requestOrigin : "*",
+      );
       res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
-      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      res.setHeader("Access-Control-Allow-Headers", `Content-Type, ${BRIDGE_TOKEN_HEADER}`);
+      if (allowedOrigins.size > 0) res.setHeader("Vary", "Origin");
 
       if (!req.url) {
         sendJson(res, 400, { error: "Missing request URL" });
@@ -116,37 +277,53 @@ export function createBridgeServer(
 
       const url = new URL(req.url, `http://${host}:${port}`);
 
+      // Open so the panel can tell a stopped bridge from a stale token
       if (req.method === "GET" && url.pathname === "/health") {
-        sendJson(res, 200, { ok: true });
+        sendJson(res, 200, {
+          ok: true,
+          schemaVersion: SCHEMA_VERSION,
+          supportedSchemaVersions: SUPPORTED_SCHEMA_VERSIONS,
+          tokenValid: tokensMatch(token, readRequestToken(req, url)),
+        });
+        return;
+      }
+
+      if (!tokensMatch(token, readRequestToken(req, url))) {
+        sendJson(res, 401, {
+          error: `Missing or invalid bridge token — send it in the ${BRIDGE_TOKEN_HEADER} header`,
+        });
         return;
       }
 
       if (req.method === "POST" && url.pathname === "/api/agent/push") {
-        const body = await readJson(req);
-        if (!isAgentPushRequest(body)) {
-          sendJson(res, 400, { error: "Invalid agent push payload" });
+        const result = validateAgentPushRequest(await readJson(req));
+        if (!result.ok) {
+          sendInvalidPayload(res, "agent push", result.issues);
           return;
         }
+        const body = result.value;
 
         const origin = body.origin;
-        const inboxPath = getOriginInboxPath(origin);
+        const inboxPath = getOriginInboxPath(origin, storeRoot);
         mkdirSync(inboxPath, { recursive: true });
         const filePath = join(inboxPath, toTimestampFileName(new Date().toISOString()));
-        writeFileSync(
-          filePath,
-          JSON.stringify({
-            origin,
-            snapshot: body.snapshot,
-          }, null, 2),
-        );
+        const payload = {
+          schemaVersion: body.schemaVersion ?? 1,
+          origin,
+          snapshot: body.snapshot,
+        };
+        writeFileSync(filePath, JSON.stringify(payload, null, 2));
+        recordPush(filePath, payload, { storeRoot });
         process.stdout.write(
           `Received ${body.snapshot.changes.length} change${
             body.snapshot.changes.length === 1 ? "" : "s"
           } -> ${filePath}\n`,
         );
+        announceInboxFile(inboxPath, basename(filePath));
 
         sendJson(res, 202, {
           ok: true,
+          id: toInboxFileId(filePath),
           inboxPath,
           filePath,
         });
@@ -154,45 +331,178 @@ export function createBridgeServer(
       }
       // Agent posts DOM updates back to Flare
       if (req.method === "POST" && url.pathname === "/api/agent/respond") {
-        const body = await readJson(req) as Record<string, unknown> | null;
-        if (!body || typeof body.origin !== "string" || typeof body.selector !== "string" || typeof body.outerHTML !== "string") {
-          sendJson(res, 400, { error: "Invalid respond payload — need origin, selector, outerHTML" });
+        const result = validateAgentDomResponse(await readJson(req));
+        if (!result.ok) {
+          sendInvalidPayload(res, "respond", result.issues);
           return;
         }
-        const outboxPath = getOriginInboxPath(body.origin as string) + "-outbox";
+        const body = result.value;
+        const outboxPath = getOriginOutboxPath(body.origin, storeRoot);
         mkdirSync(outboxPath, { recursive: true });
         const filePath = join(outboxPath, toTimestampFileName(new Date().toISOString()));
         writeFileSync(filePath, JSON.stringify(body, null, 2));
         process.stdout.write(`Response for ${body.selector} -> ${filePath}\n`);
+        flushQueue(outboxPath, "response");
+        sendJson(res, 202, { ok: true });
+        return;
+      }
+
+      // Agent reports how applying one inbox file went, change by change
+      if (req.method === "POST" && url.pathname === "/api/agent/ack") {
+        const result = validateAgentAckRequest(await readJson(req));
+        if (!result.ok) {
+          sendInvalidPayload(res, "ack", result.issues);
+          return;
+        }
+        const ack: AgentAckRequest = {
+          ...result.value,
+          id: result.value.id.replace(/\.json$/, ""),
+        };
+        const acksPath = getOriginAcksPath(ack.origin, storeRoot);
+        mkdirSync(acksPath, { recursive: true });
+        const filePath = join(acksPath, toTimestampFileName(new Date().toISOString()));
+        writeFileSync(filePath, JSON.stringify(ack, null, 2));
+        recordAck(ack, storeRoot);
+        const failed = ack.changes.filter((change) => change.status === "failed").length;
+        process.stdout.write(
+          `Ack for ${ack.id}: ${ack.changes.length - failed} ok, ${failed} failed\n`,
+        );
+        flushQueue(acksPath, "ack");
         sendJson(res, 202, { ok: true });
         return;
       }
 
-      // Flare polls for pending DOM updates
+      // Agents follow new inbox snapshots as they arrive
+      if (req.method === "GET" && url.pathname === "/api/agent/inbox/stream") {
+        const origin = url.searchParams.get("origin");
+        if (!origin) {
+          sendJson(res, 400, { error: "Missing origin query param" });
+          return;
+        }
+        const inboxPath = getOriginInboxPath(origin, storeRoot);
+        mkdirSync(inboxPath, { recursive: true });
+        subscribe([inboxPath], req, res);
+        const sent = new Set<string>();
+        sentFiles.set(res, sent);
+        req.on("close", () => sentFiles.delete(res));
+
+        // Replay what is already pending, then pick up files written by anyone
+        for (const name of listJsonFiles(inboxPath)) {
+          const filePath = join(inboxPath, name);
+          const payload = readJsonFile(filePath);
+          if (!payload) continue;
+          sent.add(name);
+          writeStreamEvent(res, "snapshot", { filePath, payload });
+        }
+        if (!inboxWatchers.has(inboxPath)) {
+          inboxWatchers.set(
+            inboxPath,
+            watch(inboxPath, (_event, name) => {
+              if (name) announceInboxFile(inboxPath, name.toString());
+            }),
+          );
+        }
+        return;
+      }
+
+      // Flare follows DOM responses and acks as agents post them.
+      // `events` picks which of the two this connection wants.
+      if (req.method === "GET" && url.pathname === "/api/agent/responses/stream") {
+        const origin = url.searchParams.get("origin");
+        if (!origin) {
+          sendJson(res, 400, { error: "Missing origin query param" });
+          return;
+        }
+        const events = (url.searchParams.get("events") ?? "response").split(",");
+        const queues = [
+          { path: getOriginOutboxPath(origin, storeRoot), event: "response" },
+          { path: getOriginAcksPath(origin, storeRoot), event: "ack" },
+        ].filter((queue) => events.includes(queue.event));
+        subscribe(queues.map((queue) => queue.path), req, res);
+        for (const queue of queues) flushQueue(queue.path, queue.event);
+        return;
+      }
+
+      // Polling fallback for clients without a response stream
       if (req.method === "GET" && url.pathname === "/api/agent/responses") {
         const origin = url.searchParams.get("origin");
         if (!origin) {
           sendJson(res, 400, { error: "Missing origin query param" });
           return;
         }
-        const outboxPath = getOriginInboxPath(origin) + "-outbox";
-        if (!existsSync(outboxPath)) {
-          sendJson(res, 200, { responses: [] });
+        sendJson(res, 200, { responses: drainQueue(getOriginOutboxPath(origin, storeRoot)) });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === "/api/agent/acks") {
+        const origin = url.searchParams.get("origin");
+        if (!origin) {
+          sendJson(res, 400, { error: "Missing origin query param" });
           return;
         }
-        const files = readdirSync(outboxPath).filter((n) => n.endsWith(".json")).sort();
-        const responses = files.map((name) => {
-          const fp = join(outboxPath, name);
-          const data = JSON.parse(readFileSync(fp, "utf8"));
-          unlinkSync(fp);
-          return data;
-        });
-        sendJson(res, 200, { responses });
+        sendJson(res, 200, { acks: drainQueue(getOriginAcksPath(origin, storeRoot)) });
+        return;
+      }
+
+      // Canvas boards are saved into the project so they can be shared through git
+      if (req.method === "GET" && url.pathname === "/api/canvas") {
+        sendJson(res, 200, { canvases: listCanvasDocuments(storeRoot) });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === "/api/canvas/document") {
+        const name = url.searchParams.get("name");
+        if (!name) {
+          sendJson(res, 400, { error: "Missing name query param" });
+          return;
+        }
+        const filePath = getCanvasPath(name, storeRoot);
+        if (!existsSync(filePath)) {
+          sendJson(res, 404, { error: `No saved canvas named ${name}` });
+          return;
+        }
+        const result = validateCanvasDocument(readJsonFile(filePath));
+        if (!result.ok) {
+          sendInvalidPayload(res, "canvas", result.issues);
+          return;
+        }
+        sendJson(res, 200, result.value);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === "/api/canvas") {
+        const result = validateCanvasDocument(await readJson(req));
+        if (!result.ok) {
+          sendInvalidPayload(res, "canvas", result.issues);
+          return;
+        }
+        const document = { ...result.value, schemaVersion: result.value.schemaVersion ?? 1 };
+        const filePath = getCanvasPath(document.name, storeRoot);
+        // Names share a file when their slugs match ("My Board", "my-board");
+        // don't let one overwrite the other
+        const existing = existsSync(filePath) ? readJsonFile(filePath) : null;
+        const existingName =
+          existing && typeof existing === "object" && "name" in existing ? existing.name : null;
+        if (typeof existingName === "string" && existingName !== document.name) {
+          sendJson(res, 409, {
+            error: `"${existingName}" is already saved to ${basename(filePath)}; pick another name`,
+            name: existingName,
+          });
+          return;
+        }
+        mkdirSync(getCanvasRoot(storeRoot), { recursive: true });
+        writeFileSync(filePath, JSON.stringify(document, null, 2) + "\n");
+        process.stdout.write(`Saved canvas "${document.name}" -> ${filePath}\n`);
+        sendJson(res, 200, { ok: true, name: document.name, filePath });
         return;
       }
 
       sendJson(res, 404, { error: "Not found" });
     } catch (error) {
+      if (error instanceof InvalidJsonError) {
+        sendInvalidPayload(res, "JSON", [{ path: "$", message: error.message }]);
+        return;
+      }
       sendJson(res, 500, {
         error: error instanceof Error ? error.message : "Unknown bridge error",
       });
@@ -201,8 +511,10 @@ export function createBridgeServer(
 
   return {
     async start() {
-      rmSync(BRIDGE_TMP_ROOT, { recursive: true, force: true });
+      // Pushes, responses and history persist across restarts; only the
+      // per-session token lives in the temp folder
       mkdirSync(BRIDGE_TMP_ROOT, { recursive: true });
+      ensureStoreRoot(storeRoot);
 
       await new Promise<void>((resolve, reject) => {
         server.once("error", reject);
@@ -218,11 +530,31 @@ export function createBridgeServer(
       }
 
       const info = address as AddressInfo;
+      // Only this user can read the token; CLI commands and the Vite plugin pick it up here.
+      // `mode` only applies to a new file, so one left behind (or planted) is replaced
+      const tokenPath = getBridgeTokenPath(info.port);
+      rmSync(tokenPath, { force: true });
+      writeFileSync(tokenPath, token, { mode: 0o600, flag: "wx" });
+      // Lets watch, history and replay find the store from any folder
+      const storePath = getBridgeStorePath(info.port);
+      writeFileSync(storePath, resolve(storeRoot));
+
       return {
         host,
         port: info.port,
+        token,
+        tokenPath,
         close: () =>
           new Promise<void>((resolve, reject) => {
+            rmSync(tokenPath, { force: true });
+            rmSync(storePath, { force: true });
+            for (const watcher of inboxWatchers.values()) watcher.close();
+            inboxWatchers.clear();
+            for (const subscribers of streams.values()) {
+              for (const res of subscribers) res.end();
+            }
+            streams.clear();
+            sentFiles.clear();
             server.close((error) => {
               if (error) {
                 reject(error);
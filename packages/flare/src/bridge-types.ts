@@ -1,9 +1,25 @@
+/** Payload schema version this build of Flare writes */
+export const SCHEMA_VERSION = 1;
+/** Schema versions the bridge accepts; payloads without one count as 1 */
+export const SUPPORTED_SCHEMA_VERSIONS: readonly number[] = [1];
+/** Inbox file ids, as the bridge names pushes; nothing that could leave a folder */
+export const INBOX_FILE_ID_PATTERN = /^[\w-]+$/;
+
 export interface FlareStyleChange {
   property: string;
   before: string;
   after: string;
+  /** Tailwind utility for `after` from the project theme, e.g. `p-6` */
+  suggestedClass?: string;
+  /** Resolved `before` when it's a custom property reference like `var(--color-primary)` */
+  resolvedBefore?: string;
+  /** Resolved `after` when it's a custom property reference */
+  resolvedAfter?: string;
 }
 
+/** Pseudo-class state an element was edited in */
+export type FlareElementState = "hover" | "focus" | "active" | "disabled";
+
 export interface FlareElementChange {
   selector: string;
   path: string;
@@ -14,14 +30,151 @@ export interface FlareElementChange {
   changes: FlareStyleChange[];
   variantSource?: string;
   variantExportName?: string;
+  /** Pseudo-class the changes belong to; absent for the resting state */
+  state?: FlareElementState;
+  /** Media query the changes apply under, e.g. `(min-width: 768px)` */
+  mediaQuery?: string;
+  /** Name of the configured breakpoint behind `mediaQuery`, e.g. `md` */
+  breakpoint?: string;
+  /** Shared by the changes one multi-selection made: a single intent across elements */
+  group?: string;
+  /** `component`: meant for every instance, so edit the component definition at `source` */
+  scope?: "component";
+  /** Set when the edited colors leave the text below WCAG AA, e.g. `3.12:1 against rgb(255, 255, 255) fails WCAG AA (…)` */
+  contrast?: string;
 }
 
 export interface FlareSessionSnapshot {
+  schemaVersion?: number;
   updatedAt: string;
   changes: FlareElementChange[];
 }
 
 export interface AgentPushRequest {
+  schemaVersion?: number;
   origin: string;
   snapshot: FlareSessionSnapshot;
 }
+
+export interface AgentDomResponse {
+  schemaVersion?: number;
+  origin: string;
+  selector: string;
+  outerHTML: string;
+  variantRequestId?: string;
+  variantSource?: string;
+  variantExportName?: string;
+}
+
+export type AgentAckStatus = "applied" | "skipped" | "failed";
+
+export interface AgentChangeAck {
+  /** Selector of the `FlareElementChange` this status is for */
+  selector: string;
+  /** Limits the status to one property; omit to cover the whole element */
+  property?: string;
+  status: AgentAckStatus;
+  reason?: string;
+}
+
+export interface AgentAckRequest {
+  schemaVersion?: number;
+  origin: string;
+  /** Inbox file id: the pushed file's name without `.json` */
+  id: string;
+  changes: AgentChangeAck[];
+}
+
+// ── Canvas documents ──────────────────────────────
+
+/** Where an element sat in its frame's page when the canvas was saved */
+export interface FlareCanvasElementRef {
+  frameId: string;
+  /** Child indexes from `<html>` down to the element */
+  indexPath: number[];
+  tagName: string;
+  /** Fallback lookup when the page structure has changed since */
+  cssSelector: string;
+}
+
+export interface FlareCanvasFrame {
+  id: string;
+  /** Page path and query the frame shows, without the origin */
+  path: string;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  isVariant?: boolean;
+  variantRequestId?: string;
+  variantSelector?: string;
+  variantExportName?: string;
+  variantSourceCode?: string;
+  /** HTML the agent rendered for the variant */
+  variantHTML?: string;
+  variantIndex?: number;
+}
+
+/** Unpushed style edits to one element in one scope */
+export interface FlareCanvasEdit extends FlareCanvasElementRef {
+  state?: FlareElementState;
+  mediaQuery?: string;
+  breakpoint?: string;
+  /** Edited values by camelCase property */
+  overrides: Record<string, string>;
+  /** Values before the edits, for the same properties */
+  original: Record<string, string>;
+  comment?: string;
+}
+
+export interface FlareCanvasComment extends FlareCanvasElementRef {
+  /** Stable lookup the agent was given, e.g. `[data-flare-id="x1y2z3"]` */
+  selector: string;
+  outerHTML: string;
+  text: string;
+  x: number;
+  y: number;
+  status: "pending" | "applied" | "failed";
+}
+
+/** Column grid drawn over page frames */
+export interface FlareCanvasGuide {
+  count: number;
+  color: string;
+  /** Percent */
+  opacity: number;
+  type: "stretch" | "left" | "center" | "right";
+  /** Column width in px; only used when `type` isn't `stretch` */
+  width: number;
+  margin: number;
+  gutter: number;
+}
+
+/** HTML swapped in from an applied comment or a chosen variant */
+export interface FlareCanvasContentChange {
+  frameId: string;
+  selector: string;
+  originalHTML: string;
+  newHTML: string;
+  comment: string;
+}
+
+export interface FlareCanvasDocument {
+  schemaVersion?: number;
+  name: string;
+  savedAt: string;
+  frames: FlareCanvasFrame[];
+  edits: FlareCanvasEdit[];
+  comments: FlareCanvasComment[];
+  contentChanges: FlareCanvasContentChange[];
+  /** Column guide settings, as the canvas panel edits them */
+  guides?: FlareCanvasGuide[];
+}
+
+/** A saved canvas as listed by the bridge */
+export interface FlareCanvasSummary {
+  name: string;
+  savedAt: string;
+  frameCount: number;
+  filePath: string;
+}
@@ -1,28 +1,71 @@
 import {
   ArrowUpRight,
+  Check,
   Copy,
   Ellipsis,
   ExternalLink,
+  FolderOpen,
+  Link2,
   Maximize,
   MessageSquare,
   GitBranchPlus,
+  ListTree,
+  MonitorSmartphone,
   SquareMousePointer,
   X,
 } from "lucide-react";
 import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
 import {
+  AckNotice,
   Breadcrumb,
+  BreakpointBar,
   ElementComment,
+  LayersPanel,
   PropertySections,
   SourceReference,
+  StateBar,
 } from "../components";
-import { useElementSource, useStyleEditor, useTheme } from "../hooks";
-import { getBridgeStatus, pollAgentResponses, pushSnapshotToAgent } from "../bridge-client";
-import { buildPrompt, getCssSelector, getElementWithContext, serializeElementChange } from "../utils";
+import { useElementSource, useStyleEditor, useTheme, useUndoShortcuts } from "../hooks";
+import {
+  type AgentAckSummary,
+  type AgentDomResponse,
+  getBridgeStatus,
+  loadCanvasDocument,
+  pushSnapshotToAgent,
+  saveCanvasDocument,
+  subscribeAgentEvents,
+  summarizeAck,
+} from "../bridge-client";
+import type {
+  AgentAckRequest,
+  FlareCanvasContentChange,
+  FlareCanvasEdit,
+  FlareElementChange,
+} from "../bridge-types";
+import {
+  buildPrompt,
+  findMatchingElement,
+  getCssSelector,
+  getElementWithContext,
+  getFailedEntries,
+  serializeElementChange,
+  snapshotEntries,
+} from "../utils";
 import type { ElementEntry } from "../utils";
 import { useCanvasComments, type PendingComment, type CanvasComment } from "./useCanvasComments";
 import { useCanvasVariants, type VariantTarget } from "./useCanvasVariants";
 import { type ColumnGuide, defaultGuide, GuideOverlay, GuideSettings } from "./guides";
+import { DeviceMenu, findDevicePreset, SPREAD_PRESETS } from "./devices";
+import {
+  CanvasSessionMenu,
+  getElementRef,
+  reapplyContentChange,
+  reapplyVariant,
+  resolveBreakpoint,
+  resolveElementRef,
+  toCanvasFrame,
+  toFrameState,
+} from "./sessions";
 import { useCanvasInspector } from "./useCanvasInspector";
 import { useCanvasPanZoom, type CanvasViewport } from "./useCanvasPanZoom";
 import { IconMoon, IconSun } from "../icons";
@@ -59,6 +102,26 @@ function embedUrl(): string {
 
 const FRAME_GAP = 100;
 
+/**
+ * Replace `el` with the nodes parsed from `html`. Unlike setting `outerHTML`,
+ * the original element is kept, so the swap can be undone and redone.
+ */
+function swapElementHTML(el: Element, html: string) {
+  const template = el.ownerDocument.createElement("template");
+  template.innerHTML = html;
+  const nodes = Array.from(template.content.childNodes);
+  const parent = el.parentNode;
+  const next = el.nextSibling;
+  el.replaceWith(...nodes);
+  return {
+    undo: () => {
+      for (const node of nodes) node.parentNode?.removeChild(node);
+      parent?.insertBefore(el, next);
+    },
+    redo: () => el.replaceWith(...nodes),
+  };
+}
+
 export function Canvas({ onClose, shadowHost }: CanvasProps) {
   const shellRef = useRef<HTMLDivElement>(null);
   const spaceRef = useRef(false);
@@ -102,9 +165,9 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
   const dismissedVariantIds = useRef(new Set<string>());
 
   // Content changes from applied comments (tracked for push)
-  const [contentChanges, setContentChanges] = useState<
-    { frameId: string; selector: string; originalHTML: string; newHTML: string; comment: string }[]
-  >([]);
+  const [contentChanges, setContentChanges] = useState<FlareCanvasContentChange[]>([]);
+  const contentChangesRef = useRef(contentChanges);
+  contentChangesRef.current = contentChanges;
   const [guides, setGuides] = useState<ColumnGuide[]>(() => {
     try {
       const stored = localStorage.getItem("flare-guides");
@@ -127,6 +190,28 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     });
   }, []);
 
+  // Mirror values set in the property panel to the same element in every
+  // other page frame. Only values: comments and resets stay on their frame
+  const [mirrorEdits, setMirrorEdits] = useState(() => {
+    try {
+      return localStorage.getItem("flare-mirror-edits") === "true";
+    } catch {}
+    return false;
+  });
+
+  const toggleMirrorEdits = useCallback(() => {
+    setMirrorEdits((prev) => {
+      const next = !prev;
+      try { localStorage.setItem("flare-mirror-edits", String(next)); } catch {}
+      return next;
+    });
+  }, []);
+
+  const [deviceMenuFrameId, setDeviceMenuFrameId] = useState<string | null>(null);
+  const [sessionMenuOpen, setSessionMenuOpen] = useState(false);
+  // Name the canvas was last saved or opened under
+  const [canvasName, setCanvasName] = useState("");
+
   const setGuidesVisibleAndSave = useCallback((v: boolean | ((prev: boolean) => boolean)) => {
     setGuidesVisible((prev) => {
       const next = typeof v === "function" ? v(prev) : v;
@@ -160,6 +245,8 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     startInspecting,
     stopInspecting,
     selectElement,
+    highlightElement,
+    clearHighlight,
   } = useCanvasInspector(canvasRef, viewportRef, frames);
 
   const {
@@ -172,6 +259,7 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     cancelPending,
     removeComment,
     addComment,
+    restoreComments,
     updateCommentStatus,
   } = useCanvasComments(canvasRef, viewportRef, frames);
 
@@ -189,8 +277,11 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     if (selectedFrameId) setActiveFrameId(selectedFrameId);
   }, [selectedFrameId]);
 
-  const editor = useStyleEditor(selectedEl);
+  const editor = useStyleEditor(selectedEl, {
+    onRelocateSelected: (el) => selectElement(el, selectedFrameId),
+  });
   const sourceInfo = useElementSource(selectedEl);
+  useUndoShortcuts(editor, true);
 
   const commentKeyRef = useRef(0);
   const prevElRef = useRef(selectedEl);
@@ -204,6 +295,41 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     editor.setElementSourceInfo(selectedEl, sourceInfo);
   }, [selectedEl, editor.setElementSourceInfo, sourceInfo]);
 
+  // The selected element's copies in the other page frames
+  const getMirrorTargets = useCallback((): Element[] => {
+    const canvas = canvasRef.current;
+    if (!canvas || !selectedEl) return [];
+    const targets: Element[] = [];
+    for (const frame of framesRef.current) {
+      if (frame.isVariant || frame.id === selectedFrameId) continue;
+      const iframe = canvas.querySelector<HTMLIFrameElement>(
+        `[data-frame-id="${frame.id}"] iframe`,
+      );
+      try {
+        const doc = iframe?.contentDocument;
+        const match = doc ? findMatchingElement(selectedEl, doc) : null;
+        if (match) targets.push(match);
+      } catch {}
+    }
+    return targets;
+  }, [canvasRef, selectedEl, selectedFrameId]);
+
+  const panelEditor = mirrorEdits
+    ? {
+        ...editor,
+        setValue: (prop: Parameters<typeof editor.setValue>[0], value: string) => {
+          // One undo step covers the edit and its mirrors
+          editor.groupOperations(() => {
+            editor.setValue(prop, value);
+            for (const target of getMirrorTargets()) {
+              editor.setElementSourceInfo(target, sourceInfo);
+              editor.setElementValue(target, prop, value);
+            }
+          });
+        },
+      }
+    : editor;
+
   // ── Bridge status ─────────────────────────────────
   const [bridgeAvailable, setBridgeAvailable] = useState(false);
 
@@ -218,169 +344,212 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     return () => { active = false; clearInterval(id); };
   }, []);
 
-  // ── Poll for agent DOM responses ─────────────────
-  useEffect(() => {
-    if (!bridgeAvailable) return;
-    let active = true;
-    const poll = async () => {
-      const responses = await pollAgentResponses();
-      if (!active || responses.length === 0) return;
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-
-      const claimed = new Set<string>();
+  // ── Agent DOM responses ──────────────────────────
+  // Latest handler lives in a ref so the response stream isn't reopened
+  // every time comments change.
+  const handleAgentResponsesRef = useRef<(responses: AgentDomResponse[]) => void>(() => {});
+  handleAgentResponsesRef.current = (responses) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-      for (const resp of responses) {
-        // Skip stale responses from dismissed variant requests
-        if (resp.variantRequestId && dismissedVariantIds.current.has(resp.variantRequestId)) {
-          continue;
-        }
+    const claimed = new Set<string>();
 
-        // Variant response → find placeholder frame and inject HTML
-        if (resp.variantRequestId) {
-          const reqId = resp.variantRequestId;
-          const placeholder = framesRef.current.find(
-            (f) => f.variantRequestId === reqId && f.loading && !claimed.has(f.id),
-          );
-          if (placeholder) claimed.add(placeholder.id);
-          if (placeholder) {
-            const selector = placeholder.variantSelector ?? resp.selector;
+    for (const resp of responses) {
+      // Skip stale responses from dismissed variant requests
+      if (resp.variantRequestId && dismissedVariantIds.current.has(resp.variantRequestId)) {
+        continue;
+      }
 
-            const applyToFrame = (attempt = 0) => {
-              const frameEl = canvas.querySelector<HTMLElement>(
-                `[data-frame-id="${placeholder.id}"]`,
-              );
-              const iframe = frameEl?.querySelector("iframe") as HTMLIFrameElement | null;
-              if (!iframe) {
-                if (attempt < 10) { setTimeout(() => applyToFrame(attempt + 1), 200); }
-                return;
-              }
-              const apply = () => {
-                let success = false;
-                let error = "";
-                try {
-                  const doc = iframe.contentDocument;
-                  if (!doc) { error = "No contentDocument"; return; }
-                  let el: Element | null = null;
-                  try { el = doc.querySelector(selector); } catch {}
-                  if (!el) {
-                    try {
-                      const escaped = selector.replace(
-                        /\.([^.#\s]+)/g, (_m: string, cls: string) => `.${CSS.escape(cls)}`,
-                      );
-                      el = doc.querySelector(escaped);
-                    } catch {}
-                  }
-                  if (el) {
-                    el.outerHTML = resp.outerHTML;
-                    success = true;
-                  } else {
-                    error = `Element not found: ${selector}`;
-                  }
-                } catch (err) {
-                  error = err instanceof Error ? err.message : String(err);
+      // Variant response → find placeholder frame and inject HTML
+      if (resp.variantRequestId) {
+        const reqId = resp.variantRequestId;
+        const placeholder = framesRef.current.find(
+          (f) => f.variantRequestId === reqId && f.loading && !claimed.has(f.id),
+        );
+        if (placeholder) claimed.add(placeholder.id);
+        if (placeholder) {
+          const selector = placeholder.variantSelector ?? resp.selector;
+
+          const applyToFrame = (attempt = 0) => {
+            const frameEl = canvas.querySelector<HTMLElement>(
+              `[data-frame-id="${placeholder.id}"]`,
+            );
+            const iframe = frameEl?.querySelector("iframe") as HTMLIFrameElement | null;
+            if (!iframe) {
+              if (attempt < 10) { setTimeout(() => applyToFrame(attempt + 1), 200); }
+              return;
+            }
+            const apply = () => {
+              let success = false;
+              let error = "";
+              try {
+                const doc = iframe.contentDocument;
+                if (!doc) { error = "No contentDocument"; return; }
+                let el: Element | null = null;
+                try { el = doc.querySelector(selector); } catch {}
+                if (!el) {
+                  try {
+                    const escaped = selector.replace(
+                      /\.([^.#\s]+)/g, (_m: string, cls: string) => `.${CSS.escape(cls)}`,
+                    );
+                    el = doc.querySelector(escaped);
+                  } catch {}
                 }
-                setFrames((prev) =>
-                  prev.map((f) =>
-                    f.id === placeholder.id
-                      ? {
-                          ...f,
-                          loading: !success,
-                          variantHTML: resp.outerHTML,
-                          variantSourceCode: resp.variantSource,
-                          variantExportName: resp.variantExportName,
-                        }
-                      : f,
-                  ),
-                );
-              };
-              if (iframe.contentDocument?.readyState === "complete") {
-                apply();
-              } else {
-                iframe.addEventListener("load", apply, { once: true });
+                if (el) {
+                  el.outerHTML = resp.outerHTML;
+                  success = true;
+                } else {
+                  error = `Element not found: ${selector}`;
+                }
+              } catch (err) {
+                error = err instanceof Error ? err.message : String(err);
               }
+              setFrames((prev) =>
+                prev.map((f) =>
+                  f.id === placeholder.id
+                    ? {
+                        ...f,
+                        loading: !success,
+                        variantHTML: resp.outerHTML,
+                        variantSourceCode: resp.variantSource,
+                        variantExportName: resp.variantExportName,
+                      }
+                    : f,
+                ),
+              );
             };
-            setTimeout(applyToFrame, 100);
-          }
-          continue;
+            if (iframe.contentDocument?.readyState === "complete") {
+              apply();
+            } else {
+              iframe.addEventListener("load", apply, { once: true });
+            }
+          };
+          setTimeout(applyToFrame, 100);
         }
+        continue;
+      }
 
-        // Find the matching comment to determine which frame to target
-        const match = comments.find((c) => c.selector === resp.selector && c.status === "pending");
-        let applied = false;
-        let error = "";
-
-        // Target only the specific frame's iframe, not all iframes
-        const targetFrameId = match?.frameId;
-        const targetFrameEl = targetFrameId
-          ? canvas.querySelector<HTMLElement>(`[data-frame-id="${targetFrameId}"]`)
-          : null;
-        const targetIframe = targetFrameEl
-          ? (targetFrameEl.querySelector("iframe") as HTMLIFrameElement | null)
-          : null;
-        const iframesToCheck = targetIframe
-          ? [targetIframe]
-          : Array.from(canvas.querySelectorAll<HTMLIFrameElement>(".f-canvas-iframe"));
-
-        for (const iframe of iframesToCheck) {
-          try {
-            const doc = iframe.contentDocument;
-            if (!doc) continue;
+      // Find the matching comment to determine which frame to target
+      const match = comments.find((c) => c.selector === resp.selector && c.status === "pending");
+      let applied = false;
+      let error = "";
+
+      // Target only the specific frame's iframe, not all iframes
+      const targetFrameId = match?.frameId;
+      const targetFrameEl = targetFrameId
+        ? canvas.querySelector<HTMLElement>(`[data-frame-id="${targetFrameId}"]`)
+        : null;
+      const targetIframe = targetFrameEl
+        ? (targetFrameEl.querySelector("iframe") as HTMLIFrameElement | null)
+        : null;
+      const iframesToCheck = targetIframe
+        ? [targetIframe]
+        : Array.from(canvas.querySelectorAll<HTMLIFrameElement>(".f-canvas-iframe"));
+
+      for (const iframe of iframesToCheck) {
+        try {
+          const doc = iframe.contentDocument;
+          if (!doc) continue;
 
-            let el: Element | null = null;
+          let el: Element | null = null;
+          try {
+            el = doc.querySelector(resp.selector);
+          } catch {
             try {
-              el = doc.querySelector(resp.selector);
-            } catch {
-              try {
-                const escaped = resp.selector.replace(
-                  /\.([^.#\s]+)/g,
-                  (_m: string, cls: string) => `.${CSS.escape(cls)}`,
-                );
-                el = doc.querySelector(escaped);
-              } catch { /* selector unusable */ }
-            }
+              const escaped = resp.selector.replace(
+                /\.([^.#\s]+)/g,
+                (_m: string, cls: string) => `.${CSS.escape(cls)}`,
+              );
+              el = doc.querySelector(escaped);
+            } catch { /* selector unusable */ }
+          }
 
-            if (el) {
-              const originalHTML = el.outerHTML;
-              el.outerHTML = resp.outerHTML;
-              applied = true;
-              if (match) {
+          if (el) {
+            const originalHTML = el.outerHTML;
+            const swap = swapElementHTML(el, resp.outerHTML);
+            applied = true;
+            if (match) {
+              const change = {
+                frameId: match.frameId,
+                selector: match.selector,
+                originalHTML,
+                newHTML: resp.outerHTML,
+                comment: match.text,
+              };
+              const apply = () => {
                 updateCommentStatus(match.id, "applied");
-                setContentChanges((prev) => [
-                  ...prev,
-                  {
-                    frameId: match.frameId,
-                    selector: match.selector,
-                    originalHTML,
-                    newHTML: resp.outerHTML,
-                    comment: match.text,
-                  },
-                ]);
-              }
-              break;
+                setContentChanges((prev) => [...prev, change]);
+              };
+              apply();
+              editor.recordOperation({
+                undo: () => {
+                  swap.undo();
+                  updateCommentStatus(match.id, match.status);
+                  setContentChanges((prev) => prev.filter((c) => c !== change));
+                },
+                redo: () => {
+                  swap.redo();
+                  apply();
+                },
+              });
             }
-          } catch (err) {
-            error = err instanceof Error ? err.message : String(err);
+            break;
           }
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
         }
+      }
 
-        if (!applied) {
-          // Mark matching comment as failed
-          const match = comments.find((c) => c.selector === resp.selector);
-          if (match && match.status === "pending") {
-            updateCommentStatus(match.id, "failed");
-            // Retry: re-push with error context
-            void pushCommentRef.current({
-              ...match,
-              text: `[RETRY] Previous attempt failed${error ? `: ${error}` : ""}. Original request: ${match.text}`,
-            });
-          }
+      if (!applied) {
+        // Mark matching comment as failed
+        const match = comments.find((c) => c.selector === resp.selector);
+        if (match && match.status === "pending") {
+          updateCommentStatus(match.id, "failed");
+          // Retry: re-push with error context
+          void pushCommentRef.current({
+            ...match,
+            text: `[RETRY] Previous attempt failed${error ? `: ${error}` : ""}. Original request: ${match.text}`,
+          });
         }
       }
-    };
-    const id = setInterval(() => void poll(), 1000);
-    return () => { active = false; clearInterval(id); };
-  }, [bridgeAvailable, canvasRef, comments, removeComment, updateCommentStatus]);
+    }
+  };
+
+  // ── Agent acks ───────────────────────────────────
+  // Frame pushes still waiting for an agent ack, keyed by inbox file id
+  const awaitingAckRef = useRef(
+    new Map<string, { frameId: string; entries: ElementEntry[]; changes: FlareElementChange[] }>(),
+  );
+  const [frameAcks, setFrameAcks] = useState<Record<string, AgentAckSummary>>({});
+
+  const handleAcksRef = useRef<(acks: AgentAckRequest[]) => void>(() => {});
+  handleAcksRef.current = (acks) => {
+    for (const ack of acks) {
+      const pushed = awaitingAckRef.current.get(ack.id);
+      if (!pushed) continue;
+      awaitingAckRef.current.delete(ack.id);
+
+      const failed = getFailedEntries(pushed.entries, pushed.changes, ack.changes);
+      if (failed.length > 0) editor.reopenEntries(failed);
+      setFrameAcks((prev) => ({ ...prev, [pushed.frameId]: summarizeAck(ack) }));
+    }
+  };
+
+  const dismissFrameAck = useCallback((frameId: string) => {
+    setFrameAcks((prev) => {
+      const next = { ...prev };
+      delete next[frameId];
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!bridgeAvailable) return;
+    return subscribeAgentEvents({
+      onResponses: (responses) => handleAgentResponsesRef.current(responses),
+      onAcks: (acks) => handleAcksRef.current(acks),
+    });
+  }, [bridgeAvailable]);
 
   // ── Per-frame push ──────────────────────────────
   const getFrameChanges = useCallback(
@@ -423,6 +592,14 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
       };
       const result = await pushSnapshotToAgent(snapshot);
       if (result.ok) {
+        if (result.id) {
+          awaitingAckRef.current.set(result.id, {
+            frameId,
+            entries: snapshotEntries(entries),
+            changes: snapshot.changes,
+          });
+        }
+        dismissFrameAck(frameId);
         if (entries.length > 0) editor.acknowledgeEntries(entries);
         setContentChanges((prev) => prev.filter((c) => c.frameId !== frameId));
         // Remove all other frames — pushed frame is now the source of truth
@@ -430,7 +607,7 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
         setActiveFrameId(frameId);
       }
     },
-    [getFrameChanges, contentChanges, editor.acknowledgeEntries],
+    [getFrameChanges, contentChanges, editor.acknowledgeEntries, dismissFrameAck],
   );
 
   const copyFrame = useCallback(
@@ -610,30 +787,139 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     }
   }, [onClose]);
 
+  // ── Frame snapshots ───────────────────────────────
+  // Frames reload whenever they are (re)created, so edits and content changes
+  // are captured by where their elements sit and put back once the page is up
+  const reopenEntriesRef = useRef(editor.reopenEntries);
+  reopenEntriesRef.current = editor.reopenEntries;
+
+  // Run `apply` once a frame's page has loaded; new frames need a render first
+  const whenFrameLoaded = useCallback(
+    (frameId: string, apply: (doc: Document) => void, attempt = 0) => {
+      const iframe = canvasRef.current?.querySelector<HTMLIFrameElement>(
+        `[data-frame-id="${frameId}"] iframe`,
+      );
+      if (!iframe) {
+        if (attempt < 10) setTimeout(() => whenFrameLoaded(frameId, apply, attempt + 1), 200);
+        return;
+      }
+      const run = () => {
+        try {
+          if (iframe.contentDocument) apply(iframe.contentDocument);
+        } catch {}
+      };
+      const doc = iframe.contentDocument;
+      if (doc?.readyState === "complete" && doc.URL !== "about:blank") {
+        run();
+      } else {
+        iframe.addEventListener("load", run, { once: true });
+      }
+    },
+    [canvasRef],
+  );
+
+  const captureFrameEdits = useCallback(
+    (frameId: string) =>
+      getFrameChanges(frameId).map((entry): FlareCanvasEdit => {
+        const changed = Object.keys(entry.overrides).filter(
+          (p) => entry.overrides[p] !== entry.original[p],
+        );
+        return {
+          ...getElementRef(entry.el, frameId),
+          state: entry.state,
+          mediaQuery: entry.breakpoint?.mediaQuery,
+          breakpoint: entry.breakpoint?.name ?? undefined,
+          overrides: Object.fromEntries(changed.map((p) => [p, entry.overrides[p]])),
+          original: Object.fromEntries(changed.map((p) => [p, entry.original[p] ?? ""])),
+          comment: entry.comment?.trim() || undefined,
+        };
+      }),
+    [getFrameChanges],
+  );
+
+  // Edits whose element is gone are dropped
+  const reapplyFrameChanges = useCallback(
+    (doc: Document, edits: FlareCanvasEdit[], changes: FlareCanvasContentChange[]) => {
+      for (const change of changes) reapplyContentChange(doc, change);
+      const entries = edits.flatMap((edit): ElementEntry[] => {
+        const el = resolveElementRef(edit, doc);
+        if (!el) return [];
+        return [
+          {
+            el,
+            overrides: edit.overrides,
+            original: edit.original,
+            comment: edit.comment,
+            state: edit.state,
+            breakpoint: resolveBreakpoint(edit, doc),
+          },
+        ];
+      });
+      if (entries.length > 0) reopenEntriesRef.current(entries);
+    },
+    [],
+  );
+
   // ── Duplicate ─────────────────────────────────────
+  const removeFrame = useCallback(
+    (frameId: string) => {
+      const all = framesRef.current;
+      const mainFrames = all.filter((f) => !f.isVariant);
+      if (mainFrames.length <= 1) return null;
+      const index = all.findIndex((f) => f.id === frameId);
+      const deleted = all[index];
+      if (!deleted || deleted.isVariant) return null;
+      const edits = captureFrameEdits(frameId);
+      editor.withoutHistory(() => editor.resetEntries(getFrameChanges(frameId)));
+      // Remove the frame and its variants
+      const remaining = all.filter(
+        (f) => f.id !== frameId && f.variantRequestId !== frameId,
+      );
+      // Shift frames that were to the right of the deleted one
+      const shifted = remaining.map((f) => {
+        if (!f.isVariant && f.y === deleted.y && f.x > deleted.x) {
+          return { ...f, x: f.x - deleted.width - FRAME_GAP };
+        }
+        return f;
+      });
+      setFrames(shifted);
+      return { frame: deleted, index, edits };
+    },
+    [captureFrameEdits, getFrameChanges, editor.withoutHistory, editor.resetEntries],
+  );
+
+  const restoreFrame = useCallback(
+    ({ frame, index, edits }: { frame: FrameState; index: number; edits: FlareCanvasEdit[] }) => {
+      setFrames((prev) => {
+        const shifted = prev.map((f) =>
+          !f.isVariant && f.y === frame.y && f.x >= frame.x
+            ? { ...f, x: f.x + frame.width + FRAME_GAP }
+            : f,
+        );
+        return [...shifted.slice(0, index), frame, ...shifted.slice(index)];
+      });
+      const changes = contentChangesRef.current.filter((c) => c.frameId === frame.id);
+      whenFrameLoaded(frame.id, (doc) => reapplyFrameChanges(doc, edits, changes));
+    },
+    [whenFrameLoaded, reapplyFrameChanges],
+  );
+
   const deleteFrame = useCallback((frameId: string) => {
-    const all = framesRef.current;
-    const mainFrames = all.filter((f) => !f.isVariant);
-    if (mainFrames.length <= 1) return;
-    const deleted = all.find((f) => f.id === frameId);
-    if (!deleted || deleted.isVariant) return;
-    // Remove the frame and its variants
-    const remaining = all.filter(
-      (f) => f.id !== frameId && f.variantRequestId !== frameId,
-    );
-    // Shift frames that were to the right of the deleted one
-    const shifted = remaining.map((f) => {
-      if (!f.isVariant && f.y === deleted.y && f.x > deleted.x) {
-        return { ...f, x: f.x - deleted.width - FRAME_GAP };
-      }
-      return f;
+    let removed = removeFrame(frameId);
+    if (!removed) return;
+    editor.recordOperation({
+      undo: () => {
+        if (removed) restoreFrame(removed);
+      },
+      redo: () => {
+        removed = removeFrame(frameId) ?? removed;
+      },
     });
-    setFrames(shifted);
     if (activeFrameId === frameId) {
       setActiveFrameId(null);
       selectElement(null);
     }
-  }, [activeFrameId, selectElement]);
+  }, [activeFrameId, selectElement, removeFrame, restoreFrame, editor.recordOperation]);
 
   const chooseVariant = useCallback((variantFrameId: string) => {
     const all = framesRef.current;
@@ -670,24 +956,38 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     if (!sourceTarget) return;
 
     const originalHTML = sourceTarget.outerHTML;
-    sourceTarget.outerHTML = variantHTML;
-
-    setContentChanges((prev) => [
-      ...prev,
-      {
-        frameId: sourceFrame.id,
-        selector: selector ?? "",
-        originalHTML,
-        newHTML: variantHTML,
-        comment: variant.variantSourceCode
-          ? `[VARIANT ACCEPTED] Apply ${variant.variantExportName ?? "variant"} to source.\n\nVariant component code:\n${variant.variantSourceCode}`
-          : `Applied variant ${(variant.variantIndex ?? 0) + 1}`,
+    const swap = swapElementHTML(sourceTarget, variantHTML);
+
+    const change = {
+      frameId: sourceFrame.id,
+      selector: selector ?? "",
+      originalHTML,
+      newHTML: variantHTML,
+      comment: variant.variantSourceCode
+        ? `[VARIANT ACCEPTED] Apply ${variant.variantExportName ?? "variant"} to source.\n\nVariant component code:\n${variant.variantSourceCode}`
+        : `Applied variant ${(variant.variantIndex ?? 0) + 1}`,
+    };
+    const group = all.filter((f) => f.variantRequestId === reqId);
+    const apply = () => {
+      setContentChanges((prev) => [...prev, change]);
+      // Remove all variants in this group
+      setFrames((prev) => prev.filter((f) => f.variantRequestId !== reqId));
+    };
+    apply();
+
+    editor.recordOperation({
+      undo: () => {
+        swap.undo();
+        setContentChanges((prev) => prev.filter((c) => c !== change));
+        setFrames((prev) => [...prev, ...group]);
+        for (const f of group) whenFrameLoaded(f.id, (doc) => reapplyVariant(doc, f));
       },
-    ]);
-
-    // Remove all variants in this group
-    setFrames((prev) => prev.filter((f) => f.variantRequestId !== reqId));
-  }, [canvasRef]);
+      redo: () => {
+        swap.redo();
+        apply();
+      },
+    });
+  }, [canvasRef, editor.recordOperation, whenFrameLoaded]);
 
   const duplicateFrame = useCallback((frameId: string) => {
     const frame = framesRef.current.find((f) => f.id === frameId);
@@ -768,6 +1068,68 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     if (targetId) duplicateFrame(targetId);
   }, [selectedFrameId, duplicateFrame]);
 
+  // ── Device sizes ──────────────────────────────────
+  const resizeFrame = useCallback((frameId: string, width: number, height: number) => {
+    setFrames((prev) => {
+      const frame = prev.find((f) => f.id === frameId);
+      if (!frame) return prev;
+      const dx = width - frame.width;
+      return prev.map((f) => {
+        if (f.id === frameId) return { ...f, width, height };
+        // Keep the gap to frames further along the same row
+        if (!f.isVariant && Math.abs(f.y - frame.y) < 10 && f.x > frame.x) {
+          return { ...f, x: f.x + dx };
+        }
+        return f;
+      });
+    });
+    setDeviceMenuFrameId(null);
+  }, []);
+
+  // Lay the page out at every spread width in a new row below the others
+  const responsiveSpread = useCallback(() => {
+    const all = framesRef.current;
+    const source =
+      all.find((f) => f.id === activeFrameId && !f.isVariant) ?? all.find((f) => !f.isVariant);
+    if (!source) return;
+    const top = Math.max(...all.map((f) => f.y + f.height)) + FRAME_GAP;
+    let x = Math.min(...all.map((f) => f.x));
+    const spread = SPREAD_PRESETS.map((preset) => {
+      const frame: FrameState = {
+        id: `frame-${++_nextId}`,
+        url: source.url,
+        width: preset.width,
+        height: preset.height,
+        x,
+        y: top,
+      };
+      x += preset.width + FRAME_GAP;
+      return frame;
+    });
+    setFrames((prev) => [...prev, ...spread]);
+  }, [activeFrameId]);
+
+  // ── Layers ──────────────────────────────────────
+  const [layersOpen, setLayersOpen] = useState(false);
+  // The tree follows the selection, else the active frame
+  const layersFrameId =
+    selectedFrameId ??
+    frames.find((f) => f.id === activeFrameId && !f.isVariant)?.id ??
+    frames.find((f) => !f.isVariant)?.id ??
+    null;
+  const layersRoot = (() => {
+    if (!layersOpen || !layersFrameId) return null;
+    try {
+      return (
+        canvasRef.current?.querySelector<HTMLIFrameElement>(
+          `[data-frame-id="${layersFrameId}"] iframe`,
+        )?.contentDocument?.body ?? null
+      );
+    } catch {
+      return null;
+    }
+  })();
+
   // ── Fit all frames in viewport ───────────────────
   const handleFit = useCallback(() => {
     const all = framesRef.current;
@@ -788,13 +1150,116 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
     fitToView(minX, minY, maxX - minX, maxY - minY, vw, vh);
   }, [fitToView, canvasRef]);
 
+  // ── Save / open ──────────────────────────────────
+  const saveCanvas = useCallback(
+    async (name: string) => {
+      // Variants still waiting for the agent have nothing to keep
+      const saved = framesRef.current.filter((f) => !f.loading);
+      const result = await saveCanvasDocument({
+        name,
+        savedAt: new Date().toISOString(),
+        frames: saved.map(toCanvasFrame),
+        edits: saved.filter((f) => !f.isVariant).flatMap((f) => captureFrameEdits(f.id)),
+        comments: comments.map(({ id: _id, el, ...comment }) => ({
+          ...getElementRef(el, comment.frameId),
+          ...comment,
+        })),
+        contentChanges,
+        guides,
+      });
+      if (result.ok) setCanvasName(name);
+      return result;
+    },
+    [captureFrameEdits, comments, contentChanges, guides],
+  );
+
+  const openCanvas = useCallback(
+    async (name: string) => {
+      const saved = await loadCanvasDocument(name);
+      if (!saved) return false;
+
+      // The current frames, and everything edited in them, make way
+      editor.withoutHistory(() => editor.resetEntries(editor.getAllChanges()));
+      editor.clearHistory();
+      for (const f of framesRef.current) {
+        if (f.variantRequestId) dismissedVariantIds.current.add(f.variantRequestId);
+      }
+      selectElement(null);
+      setActiveFrameId(null);
+      setFrameAcks({});
+
+      const ids = new Map(saved.frames.map((f) => [f.id, `frame-${++_nextId}`]));
+      setFrames(saved.frames.map((f) => toFrameState(f, ids.get(f.id)!)));
+      setContentChanges(
+        saved.contentChanges
+          .filter((c) => ids.has(c.frameId))
+          .map((c) => ({ ...c, frameId: ids.get(c.frameId)! })),
+      );
+      restoreComments([]);
+      if (saved.guides?.length) setGuidesAndSave(saved.guides);
+      setCanvasName(saved.name);
+
+      // Comments whose element is gone are dropped
+      const restoredComments: Omit<CanvasComment, "id">[] = [];
+      for (const frame of saved.frames) {
+        const frameId = ids.get(frame.id)!;
+        whenFrameLoaded(frameId, (doc) => {
+          if (frame.isVariant) {
+            reapplyVariant(doc, frame);
+            return;
+          }
+          reapplyFrameChanges(
+            doc,
+            saved.edits.filter((edit) => edit.frameId === frame.id),
+            saved.contentChanges.filter((change) => change.frameId === frame.id),
+          );
+
+          for (const comment of saved.comments) {
+            if (comment.frameId !== frame.id) continue;
+            const el = resolveElementRef(comment, doc);
+            if (!el) continue;
+            // Keep the selector the agent was given pointing at the element
+            const flareId = comment.selector.match(/data-flare-id="([^"]+)"/)?.[1];
+            if (flareId) el.setAttribute("data-flare-id", flareId);
+            restoredComments.push({
+              frameId,
+              el,
+              selector: comment.selector,
+              cssSelector: comment.cssSelector,
+              outerHTML: comment.outerHTML,
+              text: comment.text,
+              x: comment.x,
+              y: comment.y,
+              status: comment.status,
+            });
+          }
+          restoreComments([...restoredComments]);
+        });
+      }
+      setTimeout(handleFit, 50);
+      return true;
+    },
+    [
+      editor.withoutHistory,
+      editor.resetEntries,
+      editor.getAllChanges,
+      editor.clearHistory,
+      selectElement,
+      restoreComments,
+      setGuidesAndSave,
+      whenFrameLoaded,
+      reapplyFrameChanges,
+      handleFit,
+    ],
+  );
+
   // ── Pointer down — frame activation + pan ─────────
   const activeIframeRef = useRef<HTMLIFrameElement | null>(null);
 
   const handlePointerDown = useCallback(
     (e: React.PointerEvent) => {
       const t = e.target as HTMLElement;
-      if (t.closest(".f-canvas-frame-dup") || t.closest(".f-canvas-frame-push") || t.closest(".f-canvas-frame-reset") || t.closest(".f-canvas-frame-choose") || t.closest(".f-variant-popover")) return;
+      if (t.closest(".f-canvas-frame-size") || t.closest(".f-device-menu") || t.closest(".f-canvas-frame-dup") || t.closest(".f-canvas-frame-push") || t.closest(".f-canvas-frame-reset") || t.closest(".f-canvas-frame-choose") || t.closest(".f-variant-popover")) return;
 
       const frameEl = t.closest<HTMLElement>("[data-frame-id]");
       if (frameEl && !spaceRef.current) {
@@ -997,8 +1462,31 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                   setActiveFrameId(frame.id);
                 }}
               >
-                {frame.isVariant ? `Variant ${(frame.variantIndex ?? 0) + 1}` : window.location.pathname} / {frame.width}&times;{frame.height}
+                {frame.isVariant ? `Variant ${(frame.variantIndex ?? 0) + 1}` : window.location.pathname} /{" "}
+                {frame.isVariant ? (
+                  <>{frame.width}&times;{frame.height}</>
+                ) : (
+                  <button
+                    className="f-canvas-frame-size"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDeviceMenuFrameId((id) => (id === frame.id ? null : frame.id));
+                    }}
+                    title="Device size"
+                  >
+                    {findDevicePreset(frame.width, frame.height)?.label ?? ""}{" "}
+                    {frame.width}&times;{frame.height}
+                  </button>
+                )}
               </div>
+              {deviceMenuFrameId === frame.id && (
+                <DeviceMenu
+                  width={frame.width}
+                  height={frame.height}
+                  onSelect={(width, height) => resizeFrame(frame.id, width, height)}
+                  onClose={() => setDeviceMenuFrameId(null)}
+                />
+              )}
               {frame.loading && <div className="f-frame-skeleton" />}
               <div className="f-canvas-frame-content">
                 <iframe
@@ -1066,6 +1554,8 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                     onCopy={copyFrame}
                     onReset={resetFrame}
                     bridgeAvailable={bridgeAvailable}
+                    ackSummary={frameAcks[frame.id] ?? null}
+                    onDismissAck={dismissFrameAck}
                   />
                 </>
               )}
@@ -1140,6 +1630,35 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                   <Maximize size={14} strokeWidth={1.5} />
                   <span>Fit to view</span>
                 </button>
+                <button
+                  className="f-settings-item"
+                  onClick={() => {
+                    responsiveSpread();
+                    setMenuOpen(false);
+                    setTimeout(handleFit, 50);
+                  }}
+                >
+                  <MonitorSmartphone size={14} strokeWidth={1.5} />
+                  <span>Responsive spread</span>
+                </button>
+                <button
+                  className="f-settings-item"
+                  onClick={toggleMirrorEdits}
+                  title="Apply property values to the same element in every frame, in the current state and breakpoint. Comments and resets stay on the frame they're made in."
+                >
+                  <Link2 size={14} strokeWidth={1.5} />
+                  <span>Mirror values</span>
+                  {mirrorEdits && <Check className="f-settings-check" size={12} strokeWidth={2} />}
+                </button>
+                <button
+                  className="f-settings-item"
+                  onClick={() => { setMenuOpen(false); setSessionMenuOpen(true); }}
+                  disabled={!bridgeAvailable}
+                  title={bridgeAvailable ? "Save or open canvases in .flare/canvas" : "Bridge required"}
+                >
+                  <FolderOpen size={14} strokeWidth={1.5} />
+                  <span>Save &amp; open…</span>
+                </button>
                 <a
                   className="f-settings-item"
                   href="https://x.com/joshuaKnauber"
@@ -1152,6 +1671,14 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                 </a>
               </div>
             )}
+            {sessionMenuOpen && (
+              <CanvasSessionMenu
+                name={canvasName}
+                onSave={saveCanvas}
+                onOpen={openCanvas}
+                onClose={() => setSessionMenuOpen(false)}
+              />
+            )}
           </div>
           <button
             className="f-canvas-close"
@@ -1219,12 +1746,34 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
           >
             <MessageSquare size={14} strokeWidth={1.5} />
           </button>
+          <button
+            className={`f-canvas-hud-icon${layersOpen ? " f-active" : ""}`}
+            onClick={() => setLayersOpen((v) => !v)}
+            title="Layers"
+          >
+            <ListTree size={14} strokeWidth={1.5} />
+          </button>
           <span ref={zoomRef} className="f-canvas-hud-zoom" />
         </div>
       </div>
 
       <div className="f-canvas-panel">
-        {selectedEl ? (
+        {layersOpen ? (
+          <div className="f-scroll">
+            <LayersPanel
+              root={layersRoot}
+              selectedEl={selectedEl}
+              onSelect={(el) => selectElement(el, layersFrameId)}
+              onHover={(el) => layersFrameId && highlightElement(el, layersFrameId)}
+              onHoverEnd={clearHighlight}
+              onOpen={(el) => {
+                selectElement(el, layersFrameId);
+                clearHighlight();
+                setLayersOpen(false);
+              }}
+            />
+          </div>
+        ) : selectedEl ? (
           <>
             <div className="f-inspect-bar">
               {sourceInfo?.source ? (
@@ -1233,8 +1782,8 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                 <Breadcrumb
                   el={selectedEl}
                   onSelect={(el) => selectElement(el, selectedFrameId)}
-                  onHover={() => {}}
-                  onHoverEnd={() => {}}
+                  onHover={(el) => selectedFrameId && highlightElement(el, selectedFrameId)}
+                  onHoverEnd={clearHighlight}
                 />
               )}
               {bridgeAvailable && (
@@ -1249,9 +1798,20 @@ export function Canvas({ onClose, shadowHost }: CanvasProps) {
                   }}
                 />
               )}
+              <BreakpointBar
+                el={selectedEl}
+                value={editor.breakpoint}
+                changed={editor.changedBreakpoints}
+                onChange={editor.setBreakpoint}
+              />
+              <StateBar
+                value={editor.state}
+                changed={editor.changedStates}
+                onChange={editor.setState}
+              />
             </div>
             <div className="f-scroll">
-              <PropertySections editor={editor} selectedEl={selectedEl} />
+              <PropertySections editor={panelEditor} selectedEl={selectedEl} />
             </div>
           </>
         ) : (
@@ -1281,6 +1841,8 @@ function FramePushButton({
   onCopy,
   onReset,
   bridgeAvailable,
+  ackSummary,
+  onDismissAck,
 }: {
   frameId: string;
   getChanges: (id: string) => ElementEntry[];
@@ -1289,50 +1851,59 @@ function FramePushButton({
   onCopy: (id: string) => void;
   onReset: (id: string) => void;
   bridgeAvailable: boolean;
+  ackSummary: AgentAckSummary | null;
+  onDismissAck: (id: string) => void;
 }) {
   const changes = getChanges(frameId);
   const styleCount = changes.reduce((n, e) => {
     return n + Object.entries(e.overrides).filter(([p, v]) => v !== e.original[p]).length;
   }, 0);
   const count = styleCount + contentChangeCount;
-  if (count === 0) return null;
+  if (count === 0 && !ackSummary) return null;
 
   return (
     <div className="f-canvas-frame-actions">
-      <button
-        className="f-canvas-frame-reset"
-        onClick={(e) => {
-          e.stopPropagation();
-          onReset(frameId);
-        }}
-        title="Reset changes"
-      >
-        Reset
-      </button>
-      {bridgeAvailable ? (
-        <button
-          className="f-canvas-frame-push"
-          onClick={(e) => {
-            e.stopPropagation();
-            void onPush(frameId);
-          }}
-          title={`Make ${count} change${count !== 1 ? "s" : ""} real`}
-        >
-          <ArrowUpRight size={13} strokeWidth={2} />
-          <span>Make {count} change{count !== 1 ? "s" : ""} real</span>
-        </button>
-      ) : (
-        <button
-          className="f-canvas-frame-push"
-          onClick={(e) => {
-            e.stopPropagation();
-            onCopy(frameId);
-          }}
-          title={`Copy ${count} change${count !== 1 ? "s" : ""} as prompt`}
-        >
-          <Copy size={13} strokeWidth={2} />
-          <span>Copy Prompt</span>
-        </button>
+      {ackSummary && (
+        <AckNotice summary={ackSummary} onDismiss={() => onDismissAck(frameId)} />
+      )}
+      {count > 0 && (
+        <>
+          <button
+            className="f-canvas-frame-reset"
+            onClick={(e) => {
+              e.stopPropagation();
+              onReset(frameId);
+            }}
+            title="Reset changes"
+          >
+            Reset
+          </button>
+          {bridgeAvailable ? (
+            <button
+              className="f-canvas-frame-push"
+              onClick={(e) => {
+                e.stopPropagation();
+                void onPush(frameId);
+              }}
+              title={`Make ${count} change${count !== 1 ? "s" : ""} real`}
+            >
+              <ArrowUpRight size={13} strokeWidth={2} />
+              <span>Make {count} change{count !== 1 ? "s" : ""} real</span>
+            </button>
+          ) : (
+            <button
+              className="f-canvas-frame-push"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCopy(frameId);
+              }}
+              title={`Copy ${count} change${count !== 1 ? "s" : ""} as prompt`}
+            >
+              <Copy size={13} strokeWidth={2} />
+              <span>Copy Prompt</span>
+            </button>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,114 @@
+import { Check } from "lucide-react";
+import { useRef, useState } from "react";
+import { useClickOutside } from "../hooks";
+
+// ── Presets ───────────────────────────────────────
+
+export interface DevicePreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: "iphone", label: "iPhone", width: 393, height: 852 },
+  { id: "ipad", label: "iPad", width: 820, height: 1180 },
+  { id: "laptop", label: "Laptop", width: 1280, height: 800 },
+  { id: "desktop", label: "Desktop", width: 1440, height: 900 },
+];
+
+// Widths the responsive spread lays the page out at, narrowest first
+export const SPREAD_PRESETS = ["iphone", "ipad", "laptop", "desktop"].map(
+  (id) => DEVICE_PRESETS.find((preset) => preset.id === id)!,
+);
+
+const MIN_SIZE = 200;
+const MAX_SIZE = 3840;
+
+function clampSize(value: number) {
+  return Math.round(Math.min(MAX_SIZE, Math.max(MIN_SIZE, value)));
+}
+
+/** The preset a frame size matches, if any. */
+export function findDevicePreset(width: number, height: number) {
+  return DEVICE_PRESETS.find((preset) => preset.width === width && preset.height === height);
+}
+
+// ── Menu (anchored to a frame's label) ──────────────
+
+export function DeviceMenu({
+  width,
+  height,
+  onSelect,
+  onClose,
+}: {
+  width: number;
+  height: number;
+  onSelect: (width: number, height: number) => void;
+  onClose: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [customWidth, setCustomWidth] = useState(String(width));
+  const [customHeight, setCustomHeight] = useState(String(height));
+  useClickOutside(ref, true, onClose);
+
+  const current = findDevicePreset(width, height);
+
+  const applyCustom = () => {
+    const w = parseFloat(customWidth);
+    const h = parseFloat(customHeight);
+    if (!Number.isFinite(w) || !Number.isFinite(h)) return;
+    onSelect(clampSize(w), clampSize(h));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") applyCustom();
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="f-device-menu" ref={ref} onPointerDown={(e) => e.stopPropagation()}>
+      {DEVICE_PRESETS.map((preset) => (
+        <button
+          key={preset.id}
+          className="f-settings-item"
+          onClick={() => onSelect(preset.width, preset.height)}
+        >
+          <span className="f-device-check">
+            {current?.id === preset.id && <Check size={12} strokeWidth={2} />}
+          </span>
+          <span>{preset.label}</span>
+          <span className="f-device-size">
+            {preset.width}&times;{preset.height}
+          </span>
+        </button>
+      ))}
+      <div className="f-device-custom">
+        <span className="f-device-custom-label">Custom</span>
+        <input
+          className="f-device-input"
+          value={customWidth}
+          onChange={(e) => setCustomWidth(e.target.value)}
+          onKeyDown={onKeyDown}
+          onBlur={applyCustom}
+          aria-label="Width"
+          inputMode="numeric"
+        />
+        <span className="f-device-times">&times;</span>
+        <input
+          className="f-device-input"
+          value={customHeight}
+          onChange={(e) => setCustomHeight(e.target.value)}
+          onKeyDown={onKeyDown}
+          onBlur={applyCustom}
+          aria-label="Height"
+          inputMode="numeric"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Eye, EyeOff } from "lucide-react";
 import { useCallback, useState } from "react";
+import type { FlareCanvasGuide } from "../bridge-types";
 import {
   ColorSwatch,
   SelectDropdown,
@@ -10,15 +11,8 @@ import {
 
 // ── Types ─────────────────────────────────────────
 
-export interface ColumnGuide {
-  count: number;
-  color: string;
-  opacity: number;
-  type: "stretch" | "left" | "center" | "right";
-  width: number; // only used when type !== "stretch"
-  margin: number;
-  gutter: number;
-}
+// Saved with the canvas, so the shape lives with the other document types
+export type ColumnGuide = FlareCanvasGuide;
 
 export function defaultGuide(): ColumnGuide {
   return {
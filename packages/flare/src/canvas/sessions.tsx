@@ -0,0 +1,215 @@
+import { FolderOpen, Save } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { type FlareCanvasSummary, listCanvasDocuments } from "../bridge-client";
+import type {
+  FlareCanvasContentChange,
+  FlareCanvasEdit,
+  FlareCanvasElementRef,
+  FlareCanvasFrame,
+} from "../bridge-types";
+import { type Breakpoint, getBreakpoints } from "../breakpoints";
+import { useClickOutside } from "../hooks";
+import { findElementByPath, getChildIndexPath, getCssSelector } from "../utils";
+import type { FrameState } from "./Canvas";
+
+// ── Frames ────────────────────────────────────────
+
+const EMBED_PARAM = "__flare_embed";
+
+/** A frame as saved: its page path rather than the embed URL of this origin. */
+export function toCanvasFrame(frame: FrameState): FlareCanvasFrame {
+  const url = new URL(frame.url);
+  url.searchParams.delete(EMBED_PARAM);
+  return {
+    id: frame.id,
+    path: url.pathname + url.search + url.hash,
+    width: frame.width,
+    height: frame.height,
+    x: frame.x,
+    y: frame.y,
+    isVariant: frame.isVariant,
+    variantRequestId: frame.variantRequestId,
+    variantSelector: frame.variantSelector,
+    variantExportName: frame.variantExportName,
+    variantSourceCode: frame.variantSourceCode,
+    variantHTML: frame.variantHTML,
+    variantIndex: frame.variantIndex,
+  };
+}
+
+export function toFrameState(frame: FlareCanvasFrame, id: string): FrameState {
+  const url = new URL(frame.path, window.location.origin);
+  url.searchParams.set(EMBED_PARAM, "1");
+  const { path: _path, ...rest } = frame;
+  return { ...rest, id, url: url.toString() };
+}
+
+// ── Elements ──────────────────────────────────────
+
+export function getElementRef(el: Element, frameId: string): FlareCanvasElementRef {
+  return {
+    frameId,
+    // Elements swapped out by an agent response only have their selector left
+    indexPath: el.isConnected ? getChildIndexPath(el) : [],
+    tagName: el.tagName,
+    cssSelector: getCssSelector(el),
+  };
+}
+
+export function resolveElementRef(ref: FlareCanvasElementRef, doc: Document) {
+  return findElementByPath(doc, ref.indexPath, ref.tagName, ref.cssSelector);
+}
+
+/** The breakpoint an edit was saved under, as the reloaded page defines it. */
+export function resolveBreakpoint(edit: FlareCanvasEdit, doc: Document): Breakpoint | undefined {
+  const { mediaQuery } = edit;
+  if (!mediaQuery) return undefined;
+  return (
+    getBreakpoints(doc).find((breakpoint) => breakpoint.mediaQuery === mediaQuery) ?? {
+      name: edit.breakpoint ?? null,
+      minWidth: parseFloat(mediaQuery.match(/([\d.]+)px/)?.[1] ?? "0"),
+      mediaQuery,
+    }
+  );
+}
+
+function querySelectorSafe(doc: Document, selector: string) {
+  try {
+    return doc.querySelector(selector);
+  } catch {
+    return null;
+  }
+}
+
+// Comment targets carry a data-flare-id stamp the freshly loaded page lacks
+function findByOuterHTML(doc: Document, html: string) {
+  const unstamped = html.replace(/ data-flare-id="[^"]*"/g, "");
+  const tagName = unstamped.match(/^<([\w-]+)/)?.[1];
+  if (!tagName) return null;
+  return (
+    Array.from(doc.getElementsByTagName(tagName)).find((el) => el.outerHTML === unstamped) ??
+    null
+  );
+}
+
+/** Swap a saved content change back into a reloaded page. */
+export function reapplyContentChange(doc: Document, change: FlareCanvasContentChange) {
+  // Copied style edits are described in the comment only
+  if (!change.newHTML) return false;
+  const target =
+    querySelectorSafe(doc, change.selector) ?? findByOuterHTML(doc, change.originalHTML);
+  if (!target) return false;
+  target.outerHTML = change.newHTML;
+  return true;
+}
+
+/** Put a saved variant's rendered HTML back into its reloaded frame. */
+export function reapplyVariant(
+  doc: Document,
+  frame: Pick<FlareCanvasFrame, "variantHTML" | "variantSelector">,
+) {
+  if (!frame.variantHTML || !frame.variantSelector) return false;
+  const target = querySelectorSafe(doc, frame.variantSelector);
+  if (!target) return false;
+  target.outerHTML = frame.variantHTML;
+  return true;
+}
+
+// ── Menu (anchored to the canvas menu) ──────────────
+
+export function CanvasSessionMenu({
+  name,
+  onSave,
+  onOpen,
+  onClose,
+}: {
+  /** Name of the canvas last saved or opened, so saving again overwrites it */
+  name: string;
+  /** `conflictsWith` names a different canvas already saved to the same file */
+  onSave: (name: string) => Promise<{ ok: boolean; conflictsWith: string | null }>;
+  onOpen: (name: string) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState(name);
+  const [saved, setSaved] = useState<FlareCanvasSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  useClickOutside(ref, true, onClose);
+
+  useEffect(() => {
+    let active = true;
+    void listCanvasDocuments().then((canvases) => {
+      if (active) setSaved(canvases);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const save = async () => {
+    const nextName = draft.trim();
+    if (!nextName) return;
+    const result = await onSave(nextName);
+    if (result.ok) onClose();
+    else if (result.conflictsWith) setError(`Too close to "${result.conflictsWith}" — pick another name`);
+    else setError("Couldn't save the canvas");
+  };
+
+  const open = async (canvasName: string) => {
+    if (await onOpen(canvasName)) onClose();
+    else setError(`Couldn't open ${canvasName}`);
+  };
+
+  return (
+    <div className="f-session-menu" ref={ref} onPointerDown={(e) => e.stopPropagation()}>
+      <div className="f-session-save">
+        <input
+          className="f-session-input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void save();
+            if (e.key === "Escape") {
+              e.stopPropagation();
+              onClose();
+            }
+          }}
+          placeholder="Canvas name"
+          aria-label="Canvas name"
+          autoFocus
+        />
+        <button
+          className="f-session-save-btn"
+          onClick={() => void save()}
+          disabled={!draft.trim()}
+          title="Save to .flare/canvas"
+        >
+          <Save size={13} strokeWidth={1.5} />
+          <span>Save</span>
+        </button>
+      </div>
+      {error && <div className="f-session-error">{error}</div>}
+      <div className="f-session-label">Saved canvases</div>
+      {saved === null ? (
+        <div className="f-session-empty">Loading…</div>
+      ) : saved.length === 0 ? (
+        <div className="f-session-empty">Nothing saved yet</div>
+      ) : (
+        saved.map((canvas) => (
+          <button
+            key={canvas.filePath}
+            className="f-settings-item"
+            onClick={() => void open(canvas.name)}
+            title={canvas.filePath}
+          >
+            <FolderOpen size={14} strokeWidth={1.5} />
+            <span>{canvas.name}</span>
+            <span className="f-device-size">
+              {canvas.frameCount} frame{canvas.frameCount === 1 ? "" : "s"}
+            </span>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
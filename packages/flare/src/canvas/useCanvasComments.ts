@@ -102,6 +102,12 @@ export function useCanvasComments(
     });
   }, []);
 
+  // Replace every comment, e.g. with the ones of a reopened canvas
+  const restoreComments = useCallback((restored: Omit<CanvasComment, "id">[]) => {
+    setComments(restored.map((c) => ({ ...c, id: `comment-${++_commentId}` })));
+    setPending(null);
+  }, []);
+
   const updateCommentStatus = useCallback(
     (id: string, status: CommentStatus) => {
       setComments((prev) =>
@@ -229,6 +235,7 @@ export function useCanvasComments(
     cancelPending,
     removeComment,
     addComment,
+    restoreComments,
     updateCommentStatus,
   };
 }
@@ -127,6 +127,28 @@ export function useCanvasInspector(
     };
   }, [canvasRef, viewportRef, frames, inspecting]);
 
+  // Outline an element from outside the frame, e.g. hovering it in the layers tree
+  const highlightRef = useRef<OverlaySet | null>(null);
+  const highlightElement = useCallback(
+    (el: Element, frameId: string) => {
+      const canvas = canvasRef.current;
+      const frame = frames.find((f) => f.id === frameId);
+      if (!canvas || !frame) return;
+      highlightRef.current ??= createOverlaySet(document.body);
+      const cr = canvas.getBoundingClientRect();
+      highlightRef.current.show(
+        el,
+        canvasTransform(frame.x, frame.y, viewportRef.current, { x: cr.left, y: cr.top }),
+      );
+    },
+    [canvasRef, viewportRef, frames],
+  );
+  const clearHighlight = useCallback(() => {
+    highlightRef.current?.destroy();
+    highlightRef.current = null;
+  }, []);
+  useEffect(() => clearHighlight, [clearHighlight]);
+
   return {
     inspecting,
     selectedEl,
@@ -134,5 +156,7 @@ export function useCanvasInspector(
     startInspecting,
     stopInspecting,
     selectElement,
+    highlightElement,
+    clearHighlight,
   };
 }
@@ -0,0 +1,148 @@
+// ── Stylesheet walking ─────────────────────────────
+//
+// Shared by design-token lookup, state forcing and breakpoint detection: they
+// need the rules that currently apply to a document, with nested rules
+// flattened to full selectors.
+
+/** Marks stylesheets Flare injects, which rule walking skips */
+export const FLARE_STYLESHEET_ATTR = "data-flare-states";
+
+export interface StyleRuleVisit {
+  /** Full selector, with `&` and nesting resolved against parent rules */
+  selector: string;
+  style: CSSStyleDeclaration;
+  /** Rules inside `@layer` lose to unlayered rules regardless of specificity */
+  layered: boolean;
+}
+
+/** `&:hover` inside `.btn` → `.btn:hover`; bare nested selectors are descendants. */
+function resolveNestedSelector(parent: string | null, selector: string) {
+  if (!parent) return selector;
+  const scope = parent.includes(",") ? `:is(${parent})` : parent;
+  return selector
+    .split(",")
+    .map((part) =>
+      part.includes("&") ? part.replace(/&/g, scope).trim() : `${scope} ${part.trim()}`,
+    )
+    .join(", ");
+}
+
+/**
+ * Every style rule that currently applies to the document, in source order.
+ * Rules are matched by constructor name rather than `instanceof` so rules
+ * from canvas iframes (another realm) are recognized too.
+ */
+export function collectStyleRules(doc: Document): StyleRuleVisit[] {
+  const win = doc.defaultView;
+  const rules: StyleRuleVisit[] = [];
+
+  const visit = (list: CSSRuleList, layered: boolean, parent: string | null) => {
+    for (const rule of Array.from(list)) {
+      switch (rule.constructor.name) {
+        case "CSSStyleRule": {
+          const styleRule = rule as CSSStyleRule;
+          const selector = resolveNestedSelector(parent, styleRule.selectorText);
+          rules.push({ selector, style: styleRule.style, layered });
+          if (styleRule.cssRules?.length) visit(styleRule.cssRules, layered, selector);
+          break;
+        }
+        // Declarations after nested rules, e.g. inside `@media` within a rule
+        case "CSSNestedDeclarations":
+          if (parent) {
+            rules.push({ selector: parent, style: (rule as CSSStyleRule).style, layered });
+          }
+          break;
+        case "CSSMediaRule": {
+          const media = (rule as CSSMediaRule).media.mediaText;
+          if (!media || win?.matchMedia(media).matches) {
+            visit((rule as CSSMediaRule).cssRules, layered, parent);
+          }
+          break;
+        }
+        case "CSSSupportsRule":
+          if (CSS.supports((rule as CSSSupportsRule).conditionText)) {
+            visit((rule as CSSSupportsRule).cssRules, layered, parent);
+          }
+          break;
+        case "CSSLayerBlockRule":
+          visit((rule as CSSGroupingRule).cssRules, true, parent);
+          break;
+        case "CSSContainerRule":
+          visit((rule as CSSGroupingRule).cssRules, layered, parent);
+          break;
+      }
+    }
+  };
+
+  for (const sheet of Array.from(doc.styleSheets)) {
+    // Flare's own state stylesheet mirrors page rules; don't read it back
+    if ((sheet.ownerNode as Element | null)?.hasAttribute?.(FLARE_STYLESHEET_ATTR)) continue;
+    try {
+      visit(sheet.cssRules, false, null);
+    } catch {
+      // Cross-origin stylesheets can't be read
+    }
+  }
+  return rules;
+}
+
+/** The condition of every `@media` rule in the document, matching or not. */
+export function collectMediaQueries(doc: Document): string[] {
+  const queries: string[] = [];
+
+  const visit = (list: CSSRuleList) => {
+    for (const rule of Array.from(list)) {
+      if (rule.constructor.name === "CSSMediaRule") {
+        queries.push((rule as CSSMediaRule).media.mediaText);
+      }
+      const children = (rule as CSSGroupingRule).cssRules;
+      if (children?.length) visit(children);
+    }
+  };
+
+  for (const sheet of Array.from(doc.styleSheets)) {
+    if ((sheet.ownerNode as Element | null)?.hasAttribute?.(FLARE_STYLESHEET_ATTR)) continue;
+    try {
+      visit(sheet.cssRules);
+    } catch {}
+  }
+  return queries;
+}
+
+/** Approximate selector specificity as a single comparable number. */
+export function getSpecificity(selector: string) {
+  const s = selector.replace(/:where\([^)]*\)/g, "").replace(/::[\w-]+/g, "");
+  const ids = s.match(/#[\w-]+/g)?.length ?? 0;
+  const classes = s.match(/\.(?:\\.|[\w-])+|\[[^\]]*\]|:[\w-]+/g)?.length ?? 0;
+  const types = s.match(/(?:^|[\s>+~(])[a-zA-Z][\w-]*/g)?.length ?? 0;
+  return ids * 10000 + classes * 100 + types;
+}
+
+/** Highest specificity among the selectors in the list that match `el`, or -1. */
+export function matchSpecificity(el: Element, selectorText: string) {
+  let best = -1;
+  for (const selector of splitSelectorList(selectorText)) {
+    try {
+      if (el.matches(selector)) best = Math.max(best, getSpecificity(selector));
+    } catch {}
+  }
+  return best;
+}
+
+/** Split on top-level commas only, so `:is(a, b)` stays whole. */
+export function splitSelectorList(selectorText: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selectorText.length; i++) {
+    const ch = selectorText[i];
+    if (ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    else if (ch === "," && depth === 0) {
+      parts.push(selectorText.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(selectorText.slice(start).trim());
+  return parts.filter(Boolean);
+}
@@ -1,9 +1,12 @@
 #!/usr/bin/env node
 
 import { readFileSync } from "node:fs";
-import { join, dirname } from "node:path";
+import { join, dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { applyBatch } from "./apply.js";
 import { createBridgeServer } from "./bridge-server.js";
+import { listHistory, replayPush } from "./history.js";
+import { readBridgeStoreRoot, readBridgeToken } from "./inbox-path.js";
 import { render } from "./render.js";
 import { createWatcher } from "./watcher.js";
 
@@ -57,21 +60,42 @@ interface CliOptions {
   selector: string | null;
   requestId: string | null;
   noSend: boolean;
+  dryRun: boolean;
+  follow: boolean;
+  token: string | null;
+  allowedOrigins: string[];
+  store: string | undefined;
 }
 
 function printHelp() {
   process.stdout.write(
     [
       "Usage:",
-      "  flare-dev bridge [--host 127.0.0.1] [--port 4318]",
-      "  flare-dev watch --origin http://localhost:3000",
+      "  flare-dev bridge [--host 127.0.0.1] [--port 4318] [--allow-origin http://localhost:3000]",
+      "  flare-dev watch --origin http://localhost:3000 [--follow] [--host 127.0.0.1] [--port 4318]",
       "  flare-dev render <file> --origin <url> --selector <sel> --request-id <id>",
       "  flare-dev render <file> --no-send",
+      "  flare-dev apply [batch.json] [--dry-run]",
+      "  flare-dev token [--port 4318]",
+      "  flare-dev history [--origin http://localhost:3000]",
+      "  flare-dev replay <id>",
       "",
       "Commands:",
       "  bridge   Start the local Flare bridge server",
       "  watch    Wait for pending inbox files for one app origin, print one JSON batch, and exit",
+      "           With --follow, keep running and print one NDJSON event per inbox file",
       "  render   Render variants and send to bridge (or --no-send to just output HTML)",
+      "  apply    Apply simple style changes from a watch.batch (file or stdin) to source,",
+      "           and print the batch of changes left for the agent",
+      "  token    Print the running bridge's session token",
+      "  history  List past pushes and whether the agent has processed them",
+      "  replay   Send a past push to the agent's inbox again",
+      "",
+      "The bridge writes a session token on startup; watch and render read it for",
+      "the same --port. Pass --token to override. --allow-origin may be repeated.",
+      "Inboxes and history live in ./.flare; pass --store <dir> (or set FLARE_STORE)",
+      "to use another folder. watch, history and replay default to the store of the",
+      "bridge running on --port, so they work from any folder.",
     ].join("\n") + "\n",
   );
 }
@@ -86,6 +110,11 @@ function parseArgs(argv: string[]): CliOptions {
   let selector: string | null = null;
   let requestId: string | null = null;
   let noSend = false;
+  let dryRun = false;
+  let follow = false;
+  let token: string | null = null;
+  const allowedOrigins: string[] = [];
+  let store: string | undefined;
 
   while (args.length > 0) {
     const current = args.shift();
@@ -95,10 +124,32 @@ function parseArgs(argv: string[]): CliOptions {
     if (current === "--selector") { selector = args.shift() ?? selector; continue; }
     if (current === "--request-id") { requestId = args.shift() ?? requestId; continue; }
     if (current === "--no-send") { noSend = true; continue; }
+    if (current === "--dry-run") { dryRun = true; continue; }
+    if (current === "--follow") { follow = true; continue; }
+    if (current === "--store") { const raw = args.shift(); if (raw) store = resolve(raw); continue; }
+    if (current === "--token") { token = args.shift() ?? token; continue; }
+    if (current === "--allow-origin") { const raw = args.shift(); if (raw) allowedOrigins.push(...raw.split(",")); continue; }
     if (current && !current.startsWith("--")) { file = current; continue; }
   }
 
-  return { command, host, port, origin, file, selector, requestId, noSend };
+  return {
+    command, host, port, origin, file, selector, requestId, noSend, dryRun, follow, token, allowedOrigins, store,
+  };
+}
+
+/** --store, then FLARE_STORE, then the store of the bridge on --port; undefined means ./.flare */
+function resolveStoreRoot(options: CliOptions) {
+  if (options.store) return options.store;
+  if (process.env.FLARE_STORE) return undefined;
+  return readBridgeStoreRoot(options.port) ?? undefined;
+}
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
 }
 
 async function main() {
@@ -110,13 +161,88 @@ async function main() {
     return;
   }
 
-  if (!["bridge", "watch", "render"].includes(options.command)) {
+  if (!["bridge", "watch", "render", "apply", "token", "history", "replay"].includes(options.command)) {
     process.stderr.write(`Unknown command: ${options.command}\n`);
     printHelp();
     process.exitCode = 1;
     return;
   }
 
+  if (options.command === "apply") {
+    if (!options.file && process.stdin.isTTY) {
+      process.stderr.write("Usage: flare-dev apply <batch.json>, or pipe a watch.batch into stdin\n");
+      process.exitCode = 1;
+      return;
+    }
+    const raw = options.file ? readFileSync(options.file, "utf8") : await readStdin();
+    const result = applyBatch(JSON.parse(raw), { dryRun: options.dryRun });
+    process.stdout.write(`${JSON.stringify(result)}\n`);
+    return;
+  }
+
+  if (options.command === "token") {
+    const token = readBridgeToken(options.port);
+    if (!token) {
+      process.stderr.write(`No bridge running on port ${options.port}\n`);
+      process.exitCode = 1;
+      return;
+    }
+    process.stdout.write(`${token}\n`);
+    return;
+  }
+
+  if (options.command === "history") {
+    const entries = listHistory({
+      storeRoot: resolveStoreRoot(options),
+      origin: options.origin ?? undefined,
+    });
+    if (entries.length === 0) {
+      process.stdout.write("No pushes recorded yet\n");
+      return;
+    }
+    for (const entry of entries) {
+      const count = entry.payload.snapshot.changes.length;
+      const ack = entry.ack
+        ? entry.ack.changes.reduce<Record<string, number>>((acc, change) => {
+            acc[change.status] = (acc[change.status] ?? 0) + 1;
+            return acc;
+          }, {})
+        : null;
+      process.stdout.write(
+        [
+          entry.id,
+          entry.status.padEnd(9),
+          `${count} change${count === 1 ? "" : "s"}`,
+          ack
+            ? Object.entries(ack).map(([status, n]) => `${n} ${status}`).join(", ")
+            : "no ack",
+          entry.payload.origin,
+          entry.replayOf ? `(replay of ${entry.replayOf})` : "",
+        ].filter(Boolean).join("  ") + "\n",
+      );
+    }
+    return;
+  }
+
+  if (options.command === "replay") {
+    if (!options.file) {
+      process.stderr.write("Usage: flare-dev replay <id>\nRun `flare-dev history` to list ids.\n");
+      process.exitCode = 1;
+      return;
+    }
+    const replayed = replayPush(options.file, {
+      storeRoot: resolveStoreRoot(options),
+      origin: options.origin ?? undefined,
+    });
+    if (!replayed) {
+      process.stderr.write(`No push with id ${options.file} in history\n`);
+      process.exitCode = 1;
+      return;
+    }
+    process.stdout.write(`Replayed ${replayed.replayOf} as ${replayed.id} -> ${replayed.filePath}\n`);
+    return;
+  }
+
   if (options.command === "render") {
     if (!options.file) {
       process.stderr.write("Usage: flare-dev render <file> --origin <url> --selector <sel> --request-id <id>\n");
@@ -137,6 +263,7 @@ async function main() {
         requestId: options.requestId,
         bridgeHost: options.host,
         bridgePort: options.port,
+        bridgeToken: options.token ?? readBridgeToken(options.port),
       });
     }
     return;
@@ -149,7 +276,13 @@ async function main() {
       process.exitCode = 1;
       return;
     }
-    const watcher = createWatcher({ origin: options.origin });
+    const watcher = createWatcher({
+      origin: options.origin,
+      bridgeUrl: `http://${options.host}:${options.port}`,
+      token: options.token ?? readBridgeToken(options.port),
+      storeRoot: resolveStoreRoot(options),
+      follow: options.follow,
+    });
     await watcher.start();
     return;
   }
@@ -159,12 +292,16 @@ async function main() {
   const bridge = createBridgeServer({
     host: options.host,
     port: options.port,
+    token: options.token ?? undefined,
+    allowedOrigins: options.allowedOrigins,
+    storeRoot: options.store,
   });
   const instance = await bridge.start();
 
   process.stdout.write(
     `Flare bridge v${localVersion} listening on http://${instance.host}:${instance.port}\n`,
   );
+  process.stdout.write(`Session token written to ${instance.tokenPath}\n`);
 
   void checkForUpdate(localVersion);
 
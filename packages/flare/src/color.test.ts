@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { COLOR_FORMATS, formatColor, getProjectColorFormat, toRgba } from "./color";
+import { toHex } from "./utils";
+
+describe("toRgba", () => {
+  it("reads hex, rgb, hsl and oklch", () => {
+    expect(toRgba("#ff000080")).toEqual([255, 0, 0, 0.5]);
+    expect(toRgba("rgb(255 0 0 / 50%)")).toEqual([255, 0, 0, 0.5]);
+    expect(toRgba("hsl(120, 100%, 25%)")).toEqual([0, 128, 0, 1]);
+    expect(toRgba("oklch(62.8% 0.2577 29.23)")).toEqual([255, 0, 0, 1]);
+  });
+});
+
+describe("formatColor", () => {
+  it("round-trips each format", () => {
+    const rgba = toRgba("rgba(59, 130, 246, 0.5)")!;
+    for (const format of COLOR_FORMATS) {
+      expect(toRgba(formatColor(rgba, format))).toEqual(rgba);
+    }
+    expect(formatColor(rgba, "oklch")).toBe("oklch(62.3% 0.188 259.8 / 0.5)");
+  });
+
+  it("keeps alpha in hex", () => {
+    expect(toHex("rgba(0, 0, 0, 0.25)")).toBe("#00000040");
+    expect(toHex("hsl(0 0% 100%)")).toBe("#ffffff");
+  });
+});
+
+describe("getProjectColorFormat", () => {
+  it("picks the notation most colors use", () => {
+    expect(getProjectColorFormat(["oklch(70% 0.1 200)", "oklch(40% 0.2 30)", "#fff"])).toBe("oklch");
+    expect(getProjectColorFormat(["var(--brand)"])).toBe("hex");
+  });
+});
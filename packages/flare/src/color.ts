@@ -0,0 +1,236 @@
+// ── Colors ─────────────────────────────────────────
+//
+// Parsing and formatting for the color picker and theme lookups. Hex, rgb,
+// hsl and oklch are read here; anything else the browser understands (named
+// colors, `color-mix()`, …) is resolved by painting it on a 1×1 canvas.
+// Colors outside sRGB are clipped to it.
+
+/** sRGB channels 0–255 and alpha 0–1 */
+export type Rgba = [number, number, number, number];
+
+export type ColorFormat = "hex" | "rgb" | "hsl" | "oklch";
+
+export const COLOR_FORMATS: ColorFormat[] = ["hex", "rgb", "hsl", "oklch"];
+
+// Elements whose colors are read for the page palette, at most
+const MAX_PALETTE_ELEMENTS = 1500;
+
+const rgbaCache = new Map<string, Rgba | null>();
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+const round = (n: number, digits = 0) => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+// ── Conversions ──
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+const fromLinear = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+/** Lightness 0–1, chroma and hue in degrees */
+export function rgbToOklch([r, g, b]: Rgba): [number, number, number] {
+  const [lr, lg, lb] = [r, g, b].map((c) => toLinear(c / 255));
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const C = Math.hypot(A, B);
+  const H = C < 1e-4 ? 0 : ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360;
+  return [L, C, H];
+}
+
+export function oklchToRgb(L: number, C: number, H: number, alpha = 1): Rgba {
+  const A = C * Math.cos((H * Math.PI) / 180);
+  const B = C * Math.sin((H * Math.PI) / 180);
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+  const rgb = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map((c) => round(clamp(fromLinear(c), 0, 1) * 255));
+  return [rgb[0], rgb[1], rgb[2], alpha];
+}
+
+/** Hue in degrees, saturation and lightness 0–1 */
+export function rgbToHsl([r, g, b]: Rgba): [number, number, number] {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h =
+    max === rn ? ((gn - bn) / d) % 6 : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [(h * 60 + 360) % 360, s, l];
+}
+
+export function hslToRgb(h: number, s: number, l: number, alpha = 1): Rgba {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const sectors = [[c, x, 0], [x, c, 0], [0, c, x], [0, x, c], [x, 0, c], [c, 0, x]];
+  const [r, g, b] = sectors[Math.floor(h / 60) % 6];
+  return [round((r + m) * 255), round((g + m) * 255), round((b + m) * 255), alpha];
+}
+
+/** Hue in degrees, saturation and value 0–1, as the picker's square shows them */
+export function rgbToHsv([r, g, b]: Rgba): [number, number, number] {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const [h] = rgbToHsl([r, g, b, 1]);
+  return [h, max === 0 ? 0 : (max - min) / max, max];
+}
+
+export function hsvToRgb(h: number, s: number, v: number, alpha = 1): Rgba {
+  const l = v * (1 - s / 2);
+  const sl = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+  return hslToRgb(h % 360, sl, l, alpha);
+}
+
+// ── Parsing ──
+
+function parseHex(hex: string): Rgba | null {
+  const h = hex.slice(1);
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(h)) return null;
+  const full = h.length <= 4 ? [...h].map((c) => c + c).join("") : h;
+  const [r, g, b, a = 255] = (full.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+  return [r, g, b, round(a / 255, 2)];
+}
+
+function parseChannel(value: string, scale: number) {
+  if (value === "none") return 0;
+  const n = parseFloat(value);
+  return value.endsWith("%") ? (n / 100) * scale : n;
+}
+
+function parseFunction(color: string): Rgba | null {
+  const m = color.match(/^(rgba?|hsla?|oklch)\(\s*([^)]*)\)$/i);
+  if (!m) return null;
+  const args = m[2].split(/[\s,/]+/).filter(Boolean);
+  if (args.length < 3 || args.some((arg) => arg !== "none" && isNaN(parseFloat(arg)))) {
+    return null;
+  }
+  const alpha = args[3] ? clamp(parseChannel(args[3], 1), 0, 1) : 1;
+  const fn = m[1].toLowerCase();
+  if (fn.startsWith("rgb")) {
+    const [r, g, b] = args.slice(0, 3).map((arg) => clamp(round(parseChannel(arg, 255)), 0, 255));
+    return [r, g, b, alpha];
+  }
+  const hue = (((parseFloat(args[fn.startsWith("hsl") ? 0 : 2]) || 0) % 360) + 360) % 360;
+  if (fn.startsWith("hsl")) {
+    const [sat, light] = [args[1], args[2]].map((arg) => clamp(parseChannel(arg, 100) / 100, 0, 1));
+    return hslToRgb(hue, sat, light, alpha);
+  }
+  return oklchToRgb(parseChannel(args[0], 1), parseChannel(args[1], 0.4), hue, alpha);
+}
+
+/**
+ * Resolve any CSS color (hex, oklch, named, …) to sRGB. Computed styles can
+ * come back as `oklch()` too, so both sides of a comparison go through here.
+ */
+export function toRgba(color: string): Rgba | null {
+  const value = color.trim();
+  if (value === "transparent") return [0, 0, 0, 0];
+  const parsed = value.startsWith("#") ? parseHex(value) : parseFunction(value);
+  if (parsed) return parsed;
+
+  const cached = rgbaCache.get(value);
+  if (cached !== undefined) return cached;
+
+  if (colorContext === undefined) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    colorContext = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  let result: Rgba | null = null;
+  if (colorContext && CSS.supports("color", value)) {
+    colorContext.clearRect(0, 0, 1, 1);
+    colorContext.fillStyle = value;
+    colorContext.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data;
+    result = [r, g, b, Math.round((a / 255) * 100) / 100];
+  }
+  rgbaCache.set(value, result);
+  return result;
+}
+
+// ── Formatting ──
+
+/** The notation `color` is written in, or null for keywords and other functions. */
+export function getColorFormat(color: string): ColorFormat | null {
+  const value = color.trim().toLowerCase();
+  if (value.startsWith("#")) return "hex";
+  if (/^rgba?\(/.test(value)) return "rgb";
+  if (/^hsla?\(/.test(value)) return "hsl";
+  if (value.startsWith("oklch(")) return "oklch";
+  return null;
+}
+
+export function formatColor(rgba: Rgba, format: ColorFormat): string {
+  const [r, g, b] = rgba.slice(0, 3).map((c) => round(c));
+  const a = round(rgba[3], 3);
+  switch (format) {
+    case "hex": {
+      const channels = a < 1 ? [r, g, b, round(a * 255)] : [r, g, b];
+      return "#" + channels.map((c) => c.toString(16).padStart(2, "0")).join("");
+    }
+    case "rgb":
+      return a < 1 ? `rgba(${r}, ${g}, ${b}, ${a})` : `rgb(${r}, ${g}, ${b})`;
+    case "hsl": {
+      const [h, s, l] = rgbToHsl(rgba);
+      const body = `${round(h, 1)} ${round(s * 100, 1)}% ${round(l * 100, 1)}%`;
+      return a < 1 ? `hsl(${body} / ${a})` : `hsl(${body})`;
+    }
+    case "oklch": {
+      const [L, C, H] = rgbToOklch(rgba);
+      const body = `${round(L * 100, 1)}% ${round(C, 3)} ${round(H, 1)}`;
+      return a < 1 ? `oklch(${body} / ${a})` : `oklch(${body})`;
+    }
+  }
+}
+
+/** The notation most of `colors` are written in, e.g. the theme's color tokens. */
+export function getProjectColorFormat(colors: string[]): ColorFormat {
+  const counts = new Map<ColorFormat, number>();
+  for (const color of colors) {
+    const format = getColorFormat(color);
+    if (format) counts.set(format, (counts.get(format) ?? 0) + 1);
+  }
+  let best: ColorFormat = "hex";
+  for (const [format, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = format;
+  }
+  return best;
+}
+
+/** Colors used on `doc`'s page, most used first. */
+export function getPagePalette(doc: Document, limit = 16): string[] {
+  const view = doc.defaultView;
+  if (!view || !doc.body) return [];
+  const counts = new Map<string, number>();
+  const add = (color: string) => {
+    const rgba = toRgba(color);
+    if (!rgba || rgba[3] === 0) return;
+    const key = formatColor(rgba, "rgb");
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+  const elements = Array.from(doc.body.querySelectorAll("*")).slice(0, MAX_PALETTE_ELEMENTS);
+  for (const el of elements) {
+    if (el.closest("#flare-host, [data-flare-overlay], script, style")) continue;
+    const style = view.getComputedStyle(el);
+    add(style.color);
+    add(style.backgroundColor);
+    if (parseFloat(style.borderTopWidth) > 0) add(style.borderTopColor);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([color]) => color);
+}
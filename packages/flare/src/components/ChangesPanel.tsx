@@ -0,0 +1,228 @@
+import { Crosshair, Undo2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { getBreakpointLabel } from "../breakpoints";
+import {
+  type ElementEntry,
+  formatSourceLocation,
+  getElementLabel,
+  serializeElementChange,
+} from "../utils";
+
+// Stable list keys for elements, without stamping them
+const elementKeys = new WeakMap<Element, number>();
+let nextElementKey = 0;
+
+function getEntryKey(entry: ElementEntry) {
+  let key = elementKeys.get(entry.el);
+  if (key === undefined) {
+    key = ++nextElementKey;
+    elementKeys.set(entry.el, key);
+  }
+  return `${key}:${entry.state ?? ""}@${entry.breakpoint?.mediaQuery ?? ""}`;
+}
+
+function getScopeLabel(entry: ElementEntry) {
+  return [
+    entry.breakpoint && getBreakpointLabel(entry.breakpoint),
+    entry.state && `:${entry.state}`,
+    entry.component && "component",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Comment field that commits on blur or Enter, so typing isn't an edit per key. */
+function ChangeComment({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft.trim() !== value.trim()) onChange(draft);
+  };
+
+  return (
+    <input
+      className="f-change-comment"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(value);
+      }}
+      placeholder="Add a comment…"
+      aria-label="Comment"
+    />
+  );
+}
+
+function ChangeCard({
+  entry,
+  groupSize,
+  showComment,
+  included,
+  onIncludedChange,
+  onJump,
+  onHover,
+  onHoverEnd,
+  onRevert,
+  onCommentChange,
+}: {
+  entry: ElementEntry;
+  /** Elements edited together with this one, itself included */
+  groupSize: number;
+  showComment: boolean;
+  included: boolean;
+  onIncludedChange: (included: boolean) => void;
+  onJump: () => void;
+  onHover?: () => void;
+  onHoverEnd?: () => void;
+  onRevert: (prop: string) => void;
+  onCommentChange: (value: string) => void;
+}) {
+  const { tag, id, cls } = getElementLabel(entry.el);
+  const scope = getScopeLabel(entry);
+  const source = entry.sourceInfo?.source;
+  const { changes, path } = serializeElementChange(entry);
+  // Changes come back in override order, so props pair up by position
+  const props = Object.entries(entry.overrides)
+    .filter(([prop, value]) => value !== entry.original[prop])
+    .map(([prop]) => prop);
+
+  return (
+    <div
+      className={`f-change-card${included ? "" : " f-change-excluded"}`}
+      onMouseEnter={entry.orphaned ? undefined : onHover}
+      onMouseLeave={onHoverEnd}
+    >
+      <div className="f-change-header">
+        <input
+          type="checkbox"
+          className="f-change-include"
+          checked={included}
+          onChange={(e) => onIncludedChange(e.target.checked)}
+          title={included ? "Leave out of the next push" : "Include in the next push"}
+          aria-label="Include in the next push"
+        />
+        <span className="f-change-label">
+          {tag}
+          {id}
+          {cls}
+        </span>
+        {scope && <span className="f-change-scope">{scope}</span>}
+        {groupSize > 1 && (
+          <span
+            className="f-change-scope"
+            title={`Edited together with ${groupSize - 1} other element${groupSize > 2 ? "s" : ""}`}
+          >
+            ×{groupSize}
+          </span>
+        )}
+        {entry.orphaned ? (
+          <span
+            className="f-change-scope f-change-orphaned"
+            title="The element left the page and couldn't be found again"
+          >
+            Not found
+          </span>
+        ) : (
+          <button className="f-change-icon-btn" onClick={onJump} title="Select element">
+            <Crosshair size={12} strokeWidth={1.5} />
+          </button>
+        )}
+      </div>
+      <div className="f-change-source" title={source ? formatSourceLocation(source) : path}>
+        {source
+          ? `${formatSourceLocation(source)}${source.componentName ? ` (${source.componentName})` : ""}`
+          : path}
+      </div>
+      {changes.map((change, i) => (
+        <div key={change.property} className="f-change-row">
+          <span className="f-change-prop">{change.property}</span>
+          <span className="f-change-diff">
+            <span className="f-change-before">{change.before}</span>
+            <span className="f-change-arrow">→</span>
+            <span className="f-change-after">{change.after}</span>
+          </span>
+          <button
+            className="f-change-icon-btn"
+            onClick={() => onRevert(props[i])}
+            title={`Revert ${change.property}`}
+            aria-label={`Revert ${change.property}`}
+          >
+            <Undo2 size={12} strokeWidth={1.5} />
+          </button>
+        </div>
+      ))}
+      {showComment && (
+        <ChangeComment value={entry.comment ?? ""} onChange={onCommentChange} />
+      )}
+    </div>
+  );
+}
+
+/** Every pending change on the page, for review before pushing. */
+export function ChangesPanel({
+  entries,
+  isIncluded,
+  onIncludedChange,
+  onJump,
+  onHover,
+  onHoverEnd,
+  onRevert,
+  onCommentChange,
+}: {
+  entries: ElementEntry[];
+  isIncluded: (entry: ElementEntry) => boolean;
+  onIncludedChange: (entry: ElementEntry, included: boolean) => void;
+  onJump: (entry: ElementEntry) => void;
+  onHover?: (el: Element) => void;
+  onHoverEnd?: () => void;
+  onRevert: (entry: ElementEntry, prop: string) => void;
+  onCommentChange: (el: Element, value: string) => void;
+}) {
+  if (entries.length === 0) {
+    return <div className="f-empty-state">No pending changes</div>;
+  }
+
+  // Comments live on the element's resting entry; show the field once per element
+  const commentOwners = new Map<Element, ElementEntry>();
+  for (const entry of entries) {
+    const owner = commentOwners.get(entry.el);
+    const resting = !entry.state && !entry.breakpoint;
+    if (!owner || (resting && (owner.state || owner.breakpoint))) {
+      commentOwners.set(entry.el, entry);
+    }
+  }
+
+  const groupSizes = new Map<string, number>();
+  for (const { group } of entries) {
+    if (group) groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1);
+  }
+
+  return (
+    <div className="f-changes">
+      {entries.map((entry) => (
+        <ChangeCard
+          key={getEntryKey(entry)}
+          entry={entry}
+          groupSize={entry.group ? (groupSizes.get(entry.group) ?? 1) : 1}
+          showComment={commentOwners.get(entry.el) === entry}
+          included={isIncluded(entry)}
+          onIncludedChange={(included) => onIncludedChange(entry, included)}
+          onJump={() => onJump(entry)}
+          onHover={onHover && (() => onHover(entry.el))}
+          onHoverEnd={onHoverEnd}
+          onRevert={(prop) => onRevert(entry, prop)}
+          onCommentChange={(value) => onCommentChange(entry.el, value)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { Pipette } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  COLOR_FORMATS,
+  type ColorFormat,
+  formatColor,
+  getColorFormat,
+  getProjectColorFormat,
+  hsvToRgb,
+  rgbToHsv,
+  toRgba,
+} from "../color";
+import { useClickOutside } from "../hooks";
+import type { DesignToken } from "../tokens";
+
+/** Hue in degrees; saturation, value and alpha 0–1 */
+type Hsva = [number, number, number, number];
+
+interface EyeDropperResult {
+  sRGBHex: string;
+}
+
+// Chromium only, so far
+const EyeDropper = (
+  window as Window & { EyeDropper?: new () => { open: () => Promise<EyeDropperResult> } }
+).EyeDropper;
+
+function toHsva(color: string): Hsva {
+  const rgba = toRgba(color) ?? [0, 0, 0, 1];
+  return [...rgbToHsv(rgba), rgba[3]];
+}
+
+/**
+ * The notation to write picked colors in: the value's own, unless that's the
+ * `rgb()` every computed style comes back as; then whatever the project's
+ * color tokens use.
+ */
+function getInitialFormat(color: string, tokens: DesignToken[]): ColorFormat {
+  const own = getColorFormat(color);
+  if (own && own !== "rgb") return own;
+  const colors = tokens.filter((t) => t.kind === "color").map((t) => t.value);
+  return colors.length > 0 ? getProjectColorFormat(colors) : (own ?? "hex");
+}
+
+/** Pointer position over the target as fractions of its size, while pressed. */
+function dragArea(onPick: (x: number, y: number) => void) {
+  const pick = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onPick(x, y);
+  };
+  return {
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+      pick(e);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.currentTarget.hasPointerCapture?.(e.pointerId)) pick(e);
+    },
+  };
+}
+
+/**
+ * Saturation/value square, hue and alpha sliders, a text field in the
+ * chosen notation, the eyedropper and the colors already on the page.
+ */
+export function ColorPicker({
+  color,
+  tokens = [],
+  getPalette,
+  onChange,
+  onClose,
+}: {
+  color: string;
+  tokens?: DesignToken[];
+  /** Colors used on the page, read when the picker opens */
+  getPalette?: () => string[];
+  onChange: (value: string) => void;
+  onClose: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [hsva, setHsva] = useState(() => toHsva(color));
+  const [format, setFormat] = useState(() => getInitialFormat(color, tokens));
+  const [draft, setDraft] = useState<string | null>(null);
+  const [palette] = useState(() => getPalette?.() ?? []);
+  // What we last sent, to tell our own edits from outside changes
+  const emittedRef = useRef(color);
+
+  useClickOutside(ref, true, onClose);
+
+  useEffect(() => {
+    if (color === emittedRef.current) return;
+    emittedRef.current = color;
+    setHsva(toHsva(color));
+  }, [color]);
+
+  const [h, s, v, a] = hsva;
+  const rgba = hsvToRgb(h, s, v, a);
+  const opaque = formatColor([rgba[0], rgba[1], rgba[2], 1], "rgb");
+
+  const send = (value: string) => {
+    emittedRef.current = value;
+    onChange(value);
+  };
+
+  const emit = (next: Hsva) => {
+    setHsva(next);
+    setDraft(null);
+    send(formatColor(hsvToRgb(...next), format));
+  };
+
+  const commitDraft = () => {
+    if (draft === null) return;
+    const parsed = toRgba(draft);
+    if (parsed) {
+      setHsva([...rgbToHsv(parsed), parsed[3]]);
+      setFormat(getColorFormat(draft) ?? format);
+      send(draft.trim());
+    }
+    setDraft(null);
+  };
+
+  const pickFromScreen = async () => {
+    if (!EyeDropper) return;
+    try {
+      const { sRGBHex } = await new EyeDropper().open();
+      const picked = toRgba(sRGBHex);
+      if (picked) emit([...rgbToHsv(picked), a]);
+    } catch {
+      // Cancelled with Escape
+    }
+  };
+
+  return (
+    <div
+      className="f-picker"
+      ref={ref}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div
+        className="f-picker-sv"
+        style={{ background: `hsl(${h} 100% 50%)` }}
+        {...dragArea((x, y) => emit([h, x, 1 - y, a]))}
+      >
+        <div className="f-picker-knob" style={{ left: `${s * 100}%`, top: `${(1 - v) * 100}%`, background: opaque }} />
+      </div>
+      <div className="f-picker-slider f-picker-hue" {...dragArea((x) => emit([x * 360, s, v, a]))}>
+        <div className="f-picker-thumb" style={{ left: `${(h / 360) * 100}%` }} />
+      </div>
+      <div className="f-picker-slider f-picker-alpha" {...dragArea((x) => emit([h, s, v, Math.round(x * 100) / 100]))}>
+        <div className="f-picker-alpha-fill" style={{ background: `linear-gradient(to right, transparent, ${opaque})` }} />
+        <div className="f-picker-thumb" style={{ left: `${a * 100}%` }} />
+      </div>
+
+      <div className="f-picker-formats">
+        {COLOR_FORMATS.map((f) => (
+          <button
+            key={f}
+            className={`f-picker-format${f === format ? " active" : ""}`}
+            onClick={() => {
+              // Applies to what's picked next; the current value stays as written
+              setFormat(f);
+              setDraft(null);
+            }}
+            type="button"
+          >
+            {f}
+          </button>
+        ))}
+      </div>
+      <div className="f-picker-value">
+        <input
+          className="f-picker-input"
+          value={draft ?? formatColor(rgba, format)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitDraft();
+            if (e.key === "Escape") onClose();
+          }}
+          aria-label="Color value"
+        />
+        {EyeDropper && (
+          <button className="f-picker-eyedropper" onClick={pickFromScreen} type="button" title="Pick a color from the screen">
+            <Pipette size={12} strokeWidth={1.5} />
+          </button>
+        )}
+      </div>
+
+      {palette.length > 0 && (
+        <div className="f-picker-palette">
+          {palette.map((c) => (
+            <button
+              key={c}
+              className="f-picker-swatch"
+              style={{ background: c }}
+              onClick={() => emit(toHsva(c))}
+              type="button"
+              title={c}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
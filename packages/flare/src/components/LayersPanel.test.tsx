@@ -0,0 +1,70 @@
+import { act, fireEvent, render } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, describe, expect, it } from "vitest";
+import { LayersPanel } from "./LayersPanel";
+
+function setupPage() {
+  const page = document.createElement("main");
+  page.innerHTML = `
+    <nav><a class="logo">Home</a><a>Pricing</a></nav>
+    <section><h1>Welcome</h1><script>void 0</script></section>
+  `;
+  document.body.appendChild(page);
+  return page;
+}
+
+function Harness({ root, onSelect }: { root: Element; onSelect: (el: Element) => void }) {
+  const [selected, setSelected] = useState<Element | null>(null);
+  return (
+    <LayersPanel
+      root={root}
+      selectedEl={selected}
+      onSelect={(el) => {
+        setSelected(el);
+        onSelect(el);
+      }}
+    />
+  );
+}
+
+describe("LayersPanel", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("walks the tree with arrow keys", () => {
+    const page = setupPage();
+    const selected: Element[] = [];
+    const { container } = render(<Harness root={page} onSelect={(el) => selected.push(el)} />);
+    const tree = container.querySelector('[role="tree"]')!;
+
+    fireEvent.keyDown(tree, { key: "ArrowDown" });
+    expect(selected[selected.length - 1].tagName).toBe("NAV");
+    fireEvent.keyDown(tree, { key: "ArrowRight" });
+    fireEvent.keyDown(tree, { key: "ArrowRight" });
+    expect(selected[selected.length - 1].className).toBe("logo");
+    fireEvent.keyDown(tree, { key: "ArrowDown" });
+    expect(selected[selected.length - 1].textContent).toBe("Pricing");
+    fireEvent.keyDown(tree, { key: "ArrowLeft" });
+    expect(selected[selected.length - 1].tagName).toBe("NAV");
+  });
+
+  it("searches by class and text, leaving out scripts", async () => {
+    const page = setupPage();
+    const { container, getByLabelText } = render(
+      <LayersPanel root={page} selectedEl={null} onSelect={() => {}} />,
+    );
+
+    await act(async () => {
+      fireEvent.change(getByLabelText("Search layers"), { target: { value: "welcome" } });
+    });
+    expect(container.querySelectorAll('[role="treeitem"]')).toHaveLength(1);
+
+    await act(async () => {
+      fireEvent.change(getByLabelText("Search layers"), { target: { value: "logo" } });
+    });
+    const rows = container.querySelectorAll('[role="treeitem"]');
+    expect(rows).toHaveLength(1);
+    expect(rows[0].textContent).toContain("a.logo");
+  });
+});
@@ -0,0 +1,291 @@
+import { resolveComponentName } from "element-source";
+import { Search } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { IconChevron } from "../icons";
+import { getElementLabel, isFlareElement } from "../utils";
+
+// Tags that never render anything worth selecting
+const HIDDEN_TAGS = new Set(["SCRIPT", "STYLE", "LINK", "META", "NOSCRIPT", "TEMPLATE", "BASE"]);
+// Elements searched, and component names resolved up front for search, at most
+const MAX_SEARCHED = 3000;
+const MAX_RESULTS = 200;
+
+const componentNames = new WeakMap<Element, string | null>();
+
+function isListed(el: Element) {
+  return !HIDDEN_TAGS.has(el.tagName) && !isFlareElement(el);
+}
+
+function listedChildren(el: Element) {
+  return Array.from(el.children).filter(isListed);
+}
+
+function getDirectText(el: Element) {
+  return Array.from(el.childNodes)
+    .filter((n) => n.nodeType === Node.TEXT_NODE)
+    .map((n) => n.textContent?.trim() ?? "")
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** The component `el` is the outermost element of, if any. */
+function getOwnComponent(el: Element) {
+  const name = componentNames.get(el);
+  if (!name) return null;
+  return el.parentElement && componentNames.get(el.parentElement) === name ? null : name;
+}
+
+interface LayerRow {
+  el: Element;
+  depth: number;
+  hasChildren: boolean;
+}
+
+function collectRows(root: Element, expanded: Set<Element>) {
+  const rows: LayerRow[] = [];
+  const walk = (el: Element, depth: number) => {
+    const children = listedChildren(el);
+    rows.push({ el, depth, hasChildren: children.length > 0 });
+    if (expanded.has(el)) for (const child of children) walk(child, depth + 1);
+  };
+  for (const child of listedChildren(root)) walk(child, 0);
+  return rows;
+}
+
+function searchRows(root: Element, query: string) {
+  const needle = query.toLowerCase();
+  const rows: LayerRow[] = [];
+  const all = Array.from(root.querySelectorAll("*")).slice(0, MAX_SEARCHED);
+  for (const el of all) {
+    if (!isListed(el) || el.closest("script, style, template")) continue;
+    const className = typeof el.className === "string" ? el.className : "";
+    const matches =
+      className.toLowerCase().includes(needle) ||
+      el.id.toLowerCase().includes(needle) ||
+      getDirectText(el).toLowerCase().includes(needle) ||
+      (componentNames.get(el) ?? "").toLowerCase().includes(needle);
+    if (matches) rows.push({ el, depth: 0, hasChildren: false });
+    if (rows.length >= MAX_RESULTS) break;
+  }
+  return rows;
+}
+
+/**
+ * Collapsible tree of the page under `root`. Arrow keys move the selection:
+ * up/down through the visible rows, left to the parent (collapsing first),
+ * right to the first child (expanding first).
+ */
+export function LayersPanel({
+  root,
+  selectedEl,
+  onSelect,
+  onHover,
+  onHoverEnd,
+  onOpen,
+}: {
+  root: Element | null;
+  selectedEl: Element | null;
+  onSelect: (el: Element) => void;
+  onHover?: (el: Element) => void;
+  onHoverEnd?: () => void;
+  /** Enter or double-click, e.g. to start editing the element */
+  onOpen?: (el: Element) => void;
+}) {
+  const [expanded, setExpanded] = useState(() => new Set<Element>());
+  const [query, setQuery] = useState("");
+  const [revision, setRevision] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Rebuild when the page changes underneath
+  useEffect(() => {
+    if (!root) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const observer = new MutationObserver((records) => {
+      // Flare's own overlays come and go on hover
+      const ownNodes = records.every((record) =>
+        [...record.addedNodes, ...record.removedNodes].every(
+          (node) => node.nodeType === Node.ELEMENT_NODE && !!isFlareElement(node as Element),
+        ),
+      );
+      if (timer || ownNodes) return;
+      timer = setTimeout(() => {
+        timer = null;
+        setRevision((r) => r + 1);
+      }, 150);
+    });
+    observer.observe(root, { childList: true, subtree: true });
+    return () => {
+      observer.disconnect();
+      if (timer) clearTimeout(timer);
+    };
+  }, [root]);
+
+  // Reveal the selection
+  useEffect(() => {
+    if (!root || !selectedEl || !root.contains(selectedEl)) return;
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      for (let el = selectedEl.parentElement; el && el !== root; el = el.parentElement) {
+        next.add(el);
+      }
+      return next.size === prev.size ? prev : next;
+    });
+  }, [root, selectedEl]);
+
+  const searching = query.trim().length > 0;
+  const rows = useMemo(() => {
+    void revision;
+    if (!root) return [];
+    return searching ? searchRows(root, query.trim()) : collectRows(root, expanded);
+  }, [expanded, query, revision, root, searching]);
+
+  // Component names for what's on screen, or for everything while searching
+  useEffect(() => {
+    if (!root) return;
+    const shown = searching
+      ? Array.from(root.querySelectorAll("*")).slice(0, MAX_SEARCHED)
+      : rows.map((row) => row.el);
+    // Parents too, to tell where a component starts
+    const pending = [...new Set(shown.flatMap((el) => [el, el.parentElement]))].filter(
+      (el): el is Element => !!el && !componentNames.has(el),
+    );
+    if (pending.length === 0) return;
+    let active = true;
+    void Promise.all(
+      pending.map(async (el) => {
+        try {
+          componentNames.set(el, await resolveComponentName(el));
+        } catch {
+          componentNames.set(el, null);
+        }
+      }),
+    ).then(() => {
+      if (active) setRevision((r) => r + 1);
+    });
+    return () => {
+      active = false;
+    };
+  }, [root, rows, searching]);
+
+  useEffect(() => {
+    if (!selectedEl) return;
+    const index = rows.findIndex((row) => row.el === selectedEl);
+    const node = listRef.current?.children[index] as HTMLElement | undefined;
+    node?.scrollIntoView?.({ block: "nearest" });
+  }, [rows, selectedEl]);
+
+  const toggle = (el: Element, open = !expanded.has(el)) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (open) next.add(el);
+      else next.delete(el);
+      return next;
+    });
+  };
+
+  const move = (el: Element | null | undefined) => {
+    if (!el) return;
+    onSelect(el);
+    onHover?.(el);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const index = rows.findIndex((row) => row.el === selectedEl);
+    const row = rows[index];
+    switch (e.key) {
+      case "ArrowDown":
+        move(rows[index + 1]?.el ?? (index < 0 ? rows[0]?.el : null));
+        break;
+      case "ArrowUp":
+        move(rows[index - 1]?.el);
+        break;
+      case "ArrowRight":
+        if (!row?.hasChildren) break;
+        if (!expanded.has(row.el)) toggle(row.el, true);
+        else move(listedChildren(row.el)[0]);
+        break;
+      case "ArrowLeft":
+        if (!row) break;
+        if (row.hasChildren && expanded.has(row.el)) toggle(row.el, false);
+        else if (row.el.parentElement && row.el.parentElement !== root) move(row.el.parentElement);
+        break;
+      case "Enter":
+        if (selectedEl) onOpen?.(selectedEl);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div className="f-layers">
+      <div className="f-layers-search">
+        <Search size={12} strokeWidth={1.5} />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape" && query) {
+              e.stopPropagation();
+              setQuery("");
+            }
+          }}
+          placeholder="Search class, text or component"
+          aria-label="Search layers"
+        />
+      </div>
+      <div
+        className="f-layers-list"
+        ref={listRef}
+        role="tree"
+        tabIndex={0}
+        onKeyDown={onKeyDown}
+        onMouseLeave={onHoverEnd}
+      >
+        {rows.map(({ el, depth, hasChildren }, i) => {
+          const { tag, id, cls } = getElementLabel(el);
+          const component = getOwnComponent(el);
+          const text = getDirectText(el);
+          return (
+            <div
+              key={i}
+              role="treeitem"
+              aria-selected={el === selectedEl}
+              aria-expanded={hasChildren ? expanded.has(el) : undefined}
+              className={`f-layer-row${el === selectedEl ? " active" : ""}`}
+              style={{ paddingLeft: 6 + depth * 12 }}
+              onClick={() => onSelect(el)}
+              onDoubleClick={() => onOpen?.(el)}
+              onMouseEnter={() => onHover?.(el)}
+            >
+              <button
+                className="f-layer-toggle"
+                tabIndex={-1}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggle(el);
+                }}
+                style={{ visibility: hasChildren ? "visible" : "hidden" }}
+                aria-label={expanded.has(el) ? "Collapse" : "Expand"}
+              >
+                <IconChevron open={expanded.has(el)} />
+              </button>
+              {component && <span className="f-layer-component">{component}</span>}
+              <span className="f-layer-label">
+                {tag}
+                {id}
+                {cls}
+              </span>
+              {text && <span className="f-layer-text">{text}</span>}
+            </div>
+          );
+        })}
+        {rows.length === 0 && (
+          <div className="f-empty-state">{searching ? "No matches" : "Nothing to show"}</div>
+        )}
+      </div>
+    </div>
+  );
+}
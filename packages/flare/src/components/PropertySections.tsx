@@ -21,23 +21,29 @@ import {
   Underline,
   WrapText,
 } from "lucide-react";
+import { useState } from "react";
 import {
   AlignmentMatrix,
   BoxShadowEditor,
   ColorSwatch,
+  ContrastBadge,
   DisplayModePicker,
   ExpandableInput,
+  FilterEditor,
   FontDropdown,
+  GradientEditor,
   GridTrackEditor,
   IconButton,
   PropRow,
   Section,
   SelectDropdown,
   SubPanel,
+  TextShadowEditor,
+  TransformEditor,
   ValueInput,
 } from "./index";
 import { FONT_SIZE_UNITS, TYPO_UNITS } from "../constants";
-import { useAvailableFonts } from "../hooks";
+import { useAvailableFonts, usePagePalette, useRootTokens, useTransformHandles } from "../hooks";
 import {
   IconCorners,
   IconDashedRect,
@@ -61,17 +67,55 @@ const BORDER_WIDTH_DETAILS = [
   { prefix: "L", prop: "borderLeftWidth" },
 ];
 
+// Elements whose content object-fit applies to
+const REPLACED_TAGS = new Set(["IMG", "VIDEO", "CANVAS", "IFRAME", "OBJECT", "EMBED"]);
+
+const BLEND_MODES = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
 interface PropertySectionsProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   editor: {
     getValue: (prop: string) => string;
     setValue: (prop: any, value: string) => void;
+    getToken?: (prop: string) => string | undefined;
+    isMixed?: (prop: string) => boolean;
   };
   selectedEl: Element;
 }
 
 export function PropertySections({ editor, selectedEl }: PropertySectionsProps) {
   const availableFonts = useAvailableFonts();
+  const rootTokens = useRootTokens(selectedEl);
+  const getPalette = usePagePalette(selectedEl);
+  const [transformHandles, setTransformHandles] = useState(false);
+  useTransformHandles(selectedEl, transformHandles, editor.getValue("transform"), (v) =>
+    editor.setValue("transform", v),
+  );
+
+  // Theme and design-token lookups shared by every value and color input
+  const tokenProps = (property: string) => ({
+    property,
+    tokenName: editor.getToken?.(property),
+    tokens: rootTokens,
+    mixed: editor.isMixed?.(property),
+  });
 
   return (
     <>
@@ -128,6 +172,7 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
             </div>
             <ValueInput
               prefix="Gap"
+              {...tokenProps("gap")}
               value={editor.getValue("gap")}
               onChange={(v) => editor.setValue("gap", v)}
             />
@@ -142,9 +187,9 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
           })() && (
             <SubPanel label="Flex Child">
               <div className="f-prop-grid f-prop-grid-3">
-                <ValueInput prefix="Grow" value={editor.getValue("flexGrow")} onChange={(v) => editor.setValue("flexGrow", v)} />
-                <ValueInput prefix="Shrink" value={editor.getValue("flexShrink")} onChange={(v) => editor.setValue("flexShrink", v)} />
-                <ValueInput prefix="Basis" value={editor.getValue("flexBasis")} onChange={(v) => editor.setValue("flexBasis", v)} />
+                <ValueInput prefix="Grow" {...tokenProps("flexGrow")} value={editor.getValue("flexGrow")} onChange={(v) => editor.setValue("flexGrow", v)} />
+                <ValueInput prefix="Shrink" {...tokenProps("flexShrink")} value={editor.getValue("flexShrink")} onChange={(v) => editor.setValue("flexShrink", v)} />
+                <ValueInput prefix="Basis" {...tokenProps("flexBasis")} value={editor.getValue("flexBasis")} onChange={(v) => editor.setValue("flexBasis", v)} />
               </div>
               <PropRow label="Self">
                 <SelectDropdown
@@ -167,8 +212,8 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
               onChangeRows={(v) => editor.setValue("gridTemplateRows", v)}
             />
             <div className="f-prop-grid">
-              <ValueInput prefix="Col Gap" value={editor.getValue("columnGap")} onChange={(v) => editor.setValue("columnGap", v)} />
-              <ValueInput prefix="Row Gap" value={editor.getValue("rowGap")} onChange={(v) => editor.setValue("rowGap", v)} />
+              <ValueInput prefix="Col Gap" {...tokenProps("columnGap")} value={editor.getValue("columnGap")} onChange={(v) => editor.setValue("columnGap", v)} />
+              <ValueInput prefix="Row Gap" {...tokenProps("rowGap")} value={editor.getValue("rowGap")} onChange={(v) => editor.setValue("rowGap", v)} />
             </div>
             <div className="f-flex-align-row">
               <AlignmentMatrix
@@ -206,13 +251,27 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
 
         <SubPanel label="Size">
           <div className="f-prop-grid">
-            <ValueInput prefix="W" value={editor.getValue("width")} onChange={(v) => editor.setValue("width", v)} />
-            <ValueInput prefix="H" value={editor.getValue("height")} onChange={(v) => editor.setValue("height", v)} />
+            <ValueInput prefix="W" {...tokenProps("width")} value={editor.getValue("width")} onChange={(v) => editor.setValue("width", v)} />
+            <ValueInput prefix="H" {...tokenProps("height")} value={editor.getValue("height")} onChange={(v) => editor.setValue("height", v)} />
           </div>
           <div className="f-prop-grid">
-            <ValueInput prefix="Min W" value={editor.getValue("minWidth")} onChange={(v) => editor.setValue("minWidth", v)} />
-            <ValueInput prefix="Max W" value={editor.getValue("maxWidth")} onChange={(v) => editor.setValue("maxWidth", v)} />
+            <ValueInput prefix="Min W" {...tokenProps("minWidth")} value={editor.getValue("minWidth")} onChange={(v) => editor.setValue("minWidth", v)} />
+            <ValueInput prefix="Max W" {...tokenProps("maxWidth")} value={editor.getValue("maxWidth")} onChange={(v) => editor.setValue("maxWidth", v)} />
           </div>
+          <div className="f-prop-grid">
+            <ValueInput prefix="Min H" {...tokenProps("minHeight")} value={editor.getValue("minHeight")} onChange={(v) => editor.setValue("minHeight", v)} />
+            <ValueInput prefix="Max H" {...tokenProps("maxHeight")} value={editor.getValue("maxHeight")} onChange={(v) => editor.setValue("maxHeight", v)} />
+          </div>
+          <ValueInput prefix="Ratio" {...tokenProps("aspectRatio")} value={editor.getValue("aspectRatio")} onChange={(v) => editor.setValue("aspectRatio", v)} units={["auto"]} />
+          {REPLACED_TAGS.has(selectedEl.tagName) && (
+            <PropRow label="Fit">
+              <SelectDropdown
+                options={["fill", "contain", "cover", "none", "scale-down"]}
+                value={editor.getValue("objectFit")}
+                onChange={(v) => editor.setValue("objectFit", v)}
+              />
+            </PropRow>
+          )}
           <PropRow label="Overflow">
             <SelectDropdown
               options={["visible", "hidden", "scroll", "auto"]}
@@ -231,14 +290,17 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
           {editor.getValue("position") !== "static" && (
             <>
               <div className="f-prop-grid">
-                <ValueInput prefix="Top" value={editor.getValue("top")} onChange={(v) => editor.setValue("top", v)} />
-                <ValueInput prefix="Right" value={editor.getValue("right")} onChange={(v) => editor.setValue("right", v)} />
+                <ValueInput prefix="Top" {...tokenProps("top")} value={editor.getValue("top")} onChange={(v) => editor.setValue("top", v)} />
+                <ValueInput prefix="Right" {...tokenProps("right")} value={editor.getValue("right")} onChange={(v) => editor.setValue("right", v)} />
               </div>
               <div className="f-prop-grid">
-                <ValueInput prefix="Bottom" value={editor.getValue("bottom")} onChange={(v) => editor.setValue("bottom", v)} />
-                <ValueInput prefix="Left" value={editor.getValue("left")} onChange={(v) => editor.setValue("left", v)} />
+                <ValueInput prefix="Bottom" {...tokenProps("bottom")} value={editor.getValue("bottom")} onChange={(v) => editor.setValue("bottom", v)} />
+                <ValueInput prefix="Left" {...tokenProps("left")} value={editor.getValue("left")} onChange={(v) => editor.setValue("left", v)} />
+              </div>
+              <div className="f-prop-grid">
+                <ValueInput prefix="Inset" {...tokenProps("inset")} value={editor.getValue("inset")} onChange={(v) => editor.setValue("inset", v)} />
+                <ValueInput prefix="Z-Index" {...tokenProps("zIndex")} value={editor.getValue("zIndex")} onChange={(v) => editor.setValue("zIndex", v)} />
               </div>
-              <ValueInput prefix="Z-Index" value={editor.getValue("zIndex")} onChange={(v) => editor.setValue("zIndex", v)} />
             </>
           )}
         </SubPanel>
@@ -247,22 +309,22 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
       <Section title="Spacing" defaultOpen={false}>
         <SubPanel label="Padding">
           <div className="f-prop-grid">
-            <ValueInput prefix="T" value={editor.getValue("paddingTop")} onChange={(v) => editor.setValue("paddingTop", v)} />
-            <ValueInput prefix="R" value={editor.getValue("paddingRight")} onChange={(v) => editor.setValue("paddingRight", v)} />
+            <ValueInput prefix="T" {...tokenProps("paddingTop")} value={editor.getValue("paddingTop")} onChange={(v) => editor.setValue("paddingTop", v)} />
+            <ValueInput prefix="R" {...tokenProps("paddingRight")} value={editor.getValue("paddingRight")} onChange={(v) => editor.setValue("paddingRight", v)} />
           </div>
           <div className="f-prop-grid">
-            <ValueInput prefix="B" value={editor.getValue("paddingBottom")} onChange={(v) => editor.setValue("paddingBottom", v)} />
-            <ValueInput prefix="L" value={editor.getValue("paddingLeft")} onChange={(v) => editor.setValue("paddingLeft", v)} />
+            <ValueInput prefix="B" {...tokenProps("paddingBottom")} value={editor.getValue("paddingBottom")} onChange={(v) => editor.setValue("paddingBottom", v)} />
+            <ValueInput prefix="L" {...tokenProps("paddingLeft")} value={editor.getValue("paddingLeft")} onChange={(v) => editor.setValue("paddingLeft", v)} />
           </div>
         </SubPanel>
         <SubPanel label="Margin">
           <div className="f-prop-grid">
-            <ValueInput prefix="T" value={editor.getValue("marginTop")} onChange={(v) => editor.setValue("marginTop", v)} />
-            <ValueInput prefix="R" value={editor.getValue("marginRight")} onChange={(v) => editor.setValue("marginRight", v)} />
+            <ValueInput prefix="T" {...tokenProps("marginTop")} value={editor.getValue("marginTop")} onChange={(v) => editor.setValue("marginTop", v)} />
+            <ValueInput prefix="R" {...tokenProps("marginRight")} value={editor.getValue("marginRight")} onChange={(v) => editor.setValue("marginRight", v)} />
           </div>
           <div className="f-prop-grid">
-            <ValueInput prefix="B" value={editor.getValue("marginBottom")} onChange={(v) => editor.setValue("marginBottom", v)} />
-            <ValueInput prefix="L" value={editor.getValue("marginLeft")} onChange={(v) => editor.setValue("marginLeft", v)} />
+            <ValueInput prefix="B" {...tokenProps("marginBottom")} value={editor.getValue("marginBottom")} onChange={(v) => editor.setValue("marginBottom", v)} />
+            <ValueInput prefix="L" {...tokenProps("marginLeft")} value={editor.getValue("marginLeft")} onChange={(v) => editor.setValue("marginLeft", v)} />
           </div>
         </SubPanel>
       </Section>
@@ -289,12 +351,12 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
           />
         </div>
         <div className="f-prop-grid">
-          <ValueInput prefix="Size" value={editor.getValue("fontSize")} onChange={(v) => editor.setValue("fontSize", v)} units={FONT_SIZE_UNITS} />
-          <ValueInput prefix="Line H" value={editor.getValue("lineHeight")} onChange={(v) => editor.setValue("lineHeight", v)} units={TYPO_UNITS} />
+          <ValueInput prefix="Size" {...tokenProps("fontSize")} value={editor.getValue("fontSize")} onChange={(v) => editor.setValue("fontSize", v)} units={FONT_SIZE_UNITS} />
+          <ValueInput prefix="Line H" {...tokenProps("lineHeight")} value={editor.getValue("lineHeight")} onChange={(v) => editor.setValue("lineHeight", v)} units={TYPO_UNITS} />
         </div>
         <div className="f-prop-grid">
-          <ValueInput prefix="Letter" value={editor.getValue("letterSpacing")} onChange={(v) => editor.setValue("letterSpacing", v)} units={TYPO_UNITS} />
-          <ValueInput prefix="Word" value={editor.getValue("wordSpacing")} onChange={(v) => editor.setValue("wordSpacing", v)} units={TYPO_UNITS} />
+          <ValueInput prefix="Letter" {...tokenProps("letterSpacing")} value={editor.getValue("letterSpacing")} onChange={(v) => editor.setValue("letterSpacing", v)} units={TYPO_UNITS} />
+          <ValueInput prefix="Word" {...tokenProps("wordSpacing")} value={editor.getValue("wordSpacing")} onChange={(v) => editor.setValue("wordSpacing", v)} units={TYPO_UNITS} />
         </div>
         <IconButton
           options={[
@@ -329,15 +391,33 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
         </div>
         <PropRow label="Color">
           <ColorSwatch
+            getPalette={getPalette}
+            {...tokenProps("color")}
             color={editor.getValue("color")}
             onChange={(v) => editor.setValue("color", v)}
           />
         </PropRow>
+        {!editor.isMixed?.("color") && (
+          <ContrastBadge
+            el={selectedEl}
+            color={editor.getValue("color")}
+            backgroundColor={editor.getValue("backgroundColor")}
+            adjust="color"
+            onChange={(v) => editor.setValue("color", v)}
+          />
+        )}
+        <SubPanel label="Text Shadow">
+          <TextShadowEditor
+            value={editor.getValue("textShadow")}
+            onChange={(v) => editor.setValue("textShadow", v)}
+            getPalette={getPalette}
+          />
+        </SubPanel>
       </Section>
 
       <Section title="Appearance" defaultOpen={false}>
         <div className="f-prop-grid">
-          <ValueInput prefix="Opacity" value={editor.getValue("opacity")} onChange={(v) => editor.setValue("opacity", v)} units={["", "%"]} />
+          <ValueInput prefix="Opacity" {...tokenProps("opacity")} value={editor.getValue("opacity")} onChange={(v) => editor.setValue("opacity", v)} units={["", "%"]} />
           <SelectDropdown
             options={["auto", "default", "pointer", "text", "move", "grab", "grabbing", "not-allowed", "crosshair", "wait", "help", "col-resize", "row-resize", "none"]}
             value={editor.getValue("cursor")}
@@ -353,20 +433,66 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
           expandedIcon={<IconRoundedRect />}
           getValue={editor.getValue}
           setValue={editor.setValue as (p: string, v: string) => void}
+          getToken={editor.getToken}
+          isMixed={editor.isMixed}
+          tokens={rootTokens}
         />
       </Section>
 
+      <Section title="Effects" defaultOpen={false}>
+        <PropRow label="Blend">
+          <SelectDropdown
+            options={BLEND_MODES}
+            value={editor.getValue("mixBlendMode")}
+            onChange={(v) => editor.setValue("mixBlendMode", v)}
+          />
+        </PropRow>
+        <FilterEditor
+          label="Filter"
+          value={editor.getValue("filter")}
+          onChange={(v) => editor.setValue("filter", v)}
+        />
+        <FilterEditor
+          label="Backdrop"
+          value={editor.getValue("backdropFilter")}
+          onChange={(v) => editor.setValue("backdropFilter", v)}
+        />
+      </Section>
+
+      <Section title="Transform" defaultOpen={false}>
+        <TransformEditor
+          value={editor.getValue("transform")}
+          onChange={(v) => editor.setValue("transform", v)}
+          handles={transformHandles}
+          onToggleHandles={() => setTransformHandles((on) => !on)}
+        />
+        <ValueInput prefix="Transition" {...tokenProps("transition")} value={editor.getValue("transition")} onChange={(v) => editor.setValue("transition", v)} units={["none"]} />
+      </Section>
+
       <Section title="Fill & Borders" defaultOpen={false}>
         <PropRow label="Background">
           <ColorSwatch
+            getPalette={getPalette}
+            {...tokenProps("backgroundColor")}
             color={editor.getValue("backgroundColor")}
             onChange={(v) => editor.setValue("backgroundColor", v)}
           />
         </PropRow>
+        {!editor.isMixed?.("backgroundColor") && (
+          <ContrastBadge
+            el={selectedEl}
+            color={editor.getValue("color")}
+            backgroundColor={editor.getValue("backgroundColor")}
+            adjust="backgroundColor"
+            onChange={(v) => editor.setValue("backgroundColor", v)}
+          />
+        )}
 
         <SubPanel label="Border">
           <PropRow label="Color">
             <ColorSwatch
+              getPalette={getPalette}
+              {...tokenProps("borderColor")}
               color={editor.getValue("borderColor")}
               onChange={(v) => editor.setValue("borderColor", v)}
             />
@@ -389,12 +515,17 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
             expandedIcon={<IconSolidRect />}
             getValue={editor.getValue}
             setValue={editor.setValue as (p: string, v: string) => void}
+            getToken={editor.getToken}
+            isMixed={editor.isMixed}
+            tokens={rootTokens}
           />
         </SubPanel>
 
         <SubPanel label="Outline">
           <PropRow label="Color">
             <ColorSwatch
+              getPalette={getPalette}
+              {...tokenProps("outlineColor")}
               color={editor.getValue("outlineColor")}
               onChange={(v) => editor.setValue("outlineColor", v)}
             />
@@ -410,18 +541,42 @@ export function PropertySections({ editor, selectedEl }: PropertySectionsProps)
               value={editor.getValue("outlineStyle")}
               onChange={(v) => editor.setValue("outlineStyle", v)}
             />
-            <ValueInput prefix="W" value={editor.getValue("outlineWidth")} onChange={(v) => editor.setValue("outlineWidth", v)} />
+            <ValueInput prefix="W" {...tokenProps("outlineWidth")} value={editor.getValue("outlineWidth")} onChange={(v) => editor.setValue("outlineWidth", v)} />
           </div>
-          <ValueInput prefix="Offset" value={editor.getValue("outlineOffset")} onChange={(v) => editor.setValue("outlineOffset", v)} />
+          <ValueInput prefix="Offset" {...tokenProps("outlineOffset")} value={editor.getValue("outlineOffset")} onChange={(v) => editor.setValue("outlineOffset", v)} />
         </SubPanel>
 
         <SubPanel label="Shadow">
           <BoxShadowEditor
             value={editor.getValue("boxShadow")}
             onChange={(v) => editor.setValue("boxShadow", v)}
+            getPalette={getPalette}
           />
         </SubPanel>
       </Section>
+
+      <Section title="Background" defaultOpen={false}>
+        <GradientEditor
+          value={editor.getValue("backgroundImage")}
+          onChange={(v) => editor.setValue("backgroundImage", v)}
+          getPalette={getPalette}
+        />
+        <div className="f-prop-grid">
+          <SelectDropdown
+            options={["auto", "cover", "contain"]}
+            value={editor.getValue("backgroundSize")}
+            onChange={(v) => editor.setValue("backgroundSize", v)}
+            placeholder="Size"
+          />
+          <SelectDropdown
+            options={["repeat", "no-repeat", "repeat-x", "repeat-y", "space", "round"]}
+            value={editor.getValue("backgroundRepeat")}
+            onChange={(v) => editor.setValue("backgroundRepeat", v)}
+            placeholder="Repeat"
+          />
+        </div>
+        <ValueInput prefix="Position" {...tokenProps("backgroundPosition")} value={editor.getValue("backgroundPosition")} onChange={(v) => editor.setValue("backgroundPosition", v)} />
+      </Section>
     </>
   );
 }
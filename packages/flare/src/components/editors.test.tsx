@@ -0,0 +1,41 @@
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { BoxShadowEditor, TextShadowEditor } from "./editors";
+
+const COMPUTED = "rgba(0, 0, 0, 0.1) 0px 1px 2px 0px, rgba(0, 0, 0, 0.2) 0px 4px 8px 0px";
+
+describe("BoxShadowEditor", () => {
+  it("keeps every layer when one is edited", () => {
+    const onChange = vi.fn();
+    const { getAllByTitle, getByText } = render(
+      <BoxShadowEditor value={COMPUTED} onChange={onChange} />,
+    );
+
+    fireEvent.click(getAllByTitle("Move down")[0]);
+    expect(onChange).toHaveBeenLastCalledWith(
+      "0px 4px 8px 0px rgba(0, 0, 0, 0.2), 0px 1px 2px 0px rgba(0, 0, 0, 0.1)",
+    );
+
+    fireEvent.click(getAllByTitle("Remove shadow")[1]);
+    expect(onChange).toHaveBeenLastCalledWith("0px 1px 2px 0px rgba(0, 0, 0, 0.1)");
+
+    // The selection followed the layer moved down; `value` itself is unchanged
+    fireEvent.click(getByText("Inset"));
+    expect(onChange).toHaveBeenLastCalledWith(
+      "0px 1px 2px 0px rgba(0, 0, 0, 0.1), inset 0px 4px 8px 0px rgba(0, 0, 0, 0.2)",
+    );
+  });
+});
+
+describe("TextShadowEditor", () => {
+  it("adds layers without spread or inset", () => {
+    const onChange = vi.fn();
+    const { getByTitle, queryByText } = render(
+      <TextShadowEditor value="none" onChange={onChange} />,
+    );
+    expect(queryByText("Inset")).toBeNull();
+
+    fireEvent.click(getByTitle("Add shadow"));
+    expect(onChange).toHaveBeenLastCalledWith("0px 1px 2px rgba(0, 0, 0, 0.25)");
+  });
+});
@@ -1,6 +1,16 @@
-import { useCallback, useMemo, useRef } from "react";
-import { toHex } from "../utils";
-import { SelectDropdown } from "./inputs";
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  type BackgroundLayer,
+  type Gradient,
+  type GradientKind,
+  type GradientStop,
+  parseBackgroundLayers,
+  serializeBackgroundLayers,
+  serializeGradient,
+} from "../gradient";
+import { parseTransform, serializeTransform, type TransformParts } from "../transform";
+import { splitTopLevel } from "../utils";
+import { ColorSwatch, SelectDropdown } from "./inputs";
 
 // ── Display Mode Picker ────────────────────────────
 
@@ -411,6 +421,8 @@ interface ShadowParts {
   inset: boolean;
 }
 
+const COLOR_FN = /(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^)]*\)/i;
+
 function parseShadow(raw: string): ShadowParts {
   const s = raw.trim();
   if (!s || s === "none") {
@@ -432,10 +444,10 @@ function parseShadow(raw: string): ShadowParts {
   }
 
   let color = "#00000040";
-  const rgbMatch = working.match(/rgba?\([^)]+\)/i);
-  if (rgbMatch) {
-    color = rgbMatch[0];
-    working = working.replace(rgbMatch[0], "").trim();
+  const fnMatch = working.match(COLOR_FN);
+  if (fnMatch) {
+    color = fnMatch[0];
+    working = working.replace(fnMatch[0], "").trim();
   } else {
     const hexMatch = working.match(/#[0-9a-fA-F]{3,8}/);
     if (hexMatch) {
@@ -470,19 +482,33 @@ function parseShadow(raw: string): ShadowParts {
   };
 }
 
-function serializeShadow(p: ShadowParts): string {
+/** `text-shadow` has neither spread nor inset. */
+function serializeShadow(p: ShadowParts, text = false): string {
   const parts: string[] = [];
-  if (p.inset) parts.push("inset");
+  if (p.inset && !text) parts.push("inset");
   parts.push(p.x.includes("px") || p.x === "0" ? p.x : `${p.x}px`);
   parts.push(p.y.includes("px") || p.y === "0" ? p.y : `${p.y}px`);
   parts.push(p.blur.includes("px") || p.blur === "0" ? p.blur : `${p.blur}px`);
-  parts.push(
-    p.spread.includes("px") || p.spread === "0" ? p.spread : `${p.spread}px`,
-  );
+  if (!text) {
+    parts.push(
+      p.spread.includes("px") || p.spread === "0" ? p.spread : `${p.spread}px`,
+    );
+  }
   parts.push(p.color);
   return parts.join(" ");
 }
 
+function parseShadows(raw: string): ShadowParts[] {
+  const s = raw.trim();
+  if (!s || s === "none") return [];
+  return splitTopLevel(s).map(parseShadow);
+}
+
+function serializeShadows(layers: ShadowParts[], text = false): string {
+  if (layers.length === 0) return "none";
+  return layers.map((layer) => serializeShadow(layer, text)).join(", ");
+}
+
 function ensurePx(v: string): string {
   if (!v || v === "0") return "0";
   if (/px|em|rem|%|vw|vh/.test(v)) return v;
@@ -491,41 +517,29 @@ function ensurePx(v: string): string {
   return v;
 }
 
-export function BoxShadowEditor({
-  value,
+const stripPx = (v: string) => {
+  const n = parseFloat(v);
+  return isNaN(n) ? v : String(n);
+};
+
+function ShadowFields({
+  parts,
+  text,
   onChange,
+  getPalette,
 }: {
-  value: string;
-  onChange?: (val: string) => void;
+  parts: ShadowParts;
+  text?: boolean;
+  onChange: (patch: Partial<ShadowParts>) => void;
+  getPalette?: () => string[];
 }) {
-  const parts = useMemo(() => parseShadow(value), [value]);
-  const pickerRef = useRef<HTMLInputElement>(null);
-
-  const update = useCallback(
-    (patch: Partial<ShadowParts>) => {
-      const next = { ...parts, ...patch };
-      onChange?.(serializeShadow(next));
-    },
-    [parts, onChange],
-  );
-
-  const stripPx = (v: string) => {
-    const n = parseFloat(v);
-    return isNaN(n) ? v : String(n);
-  };
-
   const handleNumChange =
     (key: "x" | "y" | "blur" | "spread") => (v: string) => {
-      update({ [key]: ensurePx(v) });
+      onChange({ [key]: ensurePx(v) });
     };
 
-  const openPicker = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    pickerRef.current?.click();
-  };
-
   return (
-    <div className="f-shadow-editor">
+    <>
       <div className="f-prop-grid">
         <div className="f-shadow-field">
           <span className="f-shadow-field-label">X</span>
@@ -557,41 +571,672 @@ export function BoxShadowEditor({
             min="0"
           />
         </div>
-        <div className="f-shadow-field">
-          <span className="f-shadow-field-label">Spread</span>
-          <input
-            className="f-shadow-input"
-            value={stripPx(parts.spread)}
-            onChange={(e) => handleNumChange("spread")(e.target.value)}
-            type="number"
-          />
-        </div>
+        {!text && (
+          <div className="f-shadow-field">
+            <span className="f-shadow-field-label">Spread</span>
+            <input
+              className="f-shadow-input"
+              value={stripPx(parts.spread)}
+              onChange={(e) => handleNumChange("spread")(e.target.value)}
+              type="number"
+            />
+          </div>
+        )}
       </div>
       <div className="f-shadow-bottom-row">
-        <div className="f-shadow-color-row">
+        <ColorSwatch
+          color={parts.color}
+          onChange={(color) => onChange({ color })}
+          getPalette={getPalette}
+        />
+        {!text && (
+          <button
+            className={`f-shadow-inset-btn${parts.inset ? " active" : ""}`}
+            onClick={() => onChange({ inset: !parts.inset })}
+            type="button"
+            title={parts.inset ? "Remove inset" : "Add inset"}
+          >
+            Inset
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
+// What a newly added layer starts as
+const NEW_BOX_SHADOW = "0px 4px 8px 0px rgba(0, 0, 0, 0.15)";
+const NEW_TEXT_SHADOW = "0px 1px 2px rgba(0, 0, 0, 0.25)";
+
+const IconPlus = () => (
+  <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+    <path
+      d="M5 1v8M1 5h8"
+      stroke="currentColor"
+      strokeWidth="1.3"
+      strokeLinecap="round"
+    />
+  </svg>
+);
+
+const IconMinus = () => (
+  <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+    <path
+      d="M2 5h6"
+      stroke="currentColor"
+      strokeWidth="1.3"
+      strokeLinecap="round"
+    />
+  </svg>
+);
+
+const IconMove = ({ up }: { up: boolean }) => (
+  <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+    <path
+      d={up ? "M2 6.5l3-3 3 3" : "M2 3.5l3 3 3-3"}
+      stroke="currentColor"
+      strokeWidth="1.3"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+/**
+ * Shadow layers, listed top to bottom as CSS paints them; the selected one's
+ * offsets, blur and color are edited below the list.
+ */
+function ShadowLayersEditor({
+  value,
+  onChange,
+  text = false,
+  getPalette,
+}: {
+  value: string;
+  onChange?: (val: string) => void;
+  text?: boolean;
+  getPalette?: () => string[];
+}) {
+  const layers = useMemo(() => parseShadows(value), [value]);
+  const [active, setActive] = useState(0);
+  const index = Math.min(active, layers.length - 1);
+
+  const set = useCallback(
+    (next: ShadowParts[]) => onChange?.(serializeShadows(next, text)),
+    [onChange, text],
+  );
+
+  const move = (idx: number, by: number) => {
+    const next = [...layers];
+    [next[idx], next[idx + by]] = [next[idx + by], next[idx]];
+    set(next);
+    if (idx === index) setActive(idx + by);
+  };
+
+  return (
+    <div className="f-shadow-editor">
+      <div className="f-grid-track-list">
+        <div className="f-grid-track-header">
+          <span className="f-grid-track-label">Layers</span>
+          <button
+            className="f-grid-track-add"
+            onClick={() => {
+              set([...layers, parseShadow(text ? NEW_TEXT_SHADOW : NEW_BOX_SHADOW)]);
+              setActive(layers.length);
+            }}
+            title="Add shadow"
+          >
+            <IconPlus />
+          </button>
+        </div>
+        {layers.map((layer, idx) => (
           <div
-            className="f-swatch"
-            style={{ background: parts.color }}
-            onClick={openPicker}
+            key={idx}
+            className={`f-grid-track-row f-stack-layer${idx === index ? " active" : ""}`}
+            onClick={() => setActive(idx)}
+          >
+            <span className="f-swatch" style={{ background: layer.color }} />
+            <span className="f-stack-layer-label">
+              {serializeShadow({ ...layer, color: "" }, text).trim()}
+            </span>
+            <button
+              className="f-grid-track-add"
+              onClick={(e) => {
+                e.stopPropagation();
+                move(idx, -1);
+              }}
+              disabled={idx === 0}
+              title="Move up"
+            >
+              <IconMove up />
+            </button>
+            <button
+              className="f-grid-track-add"
+              onClick={(e) => {
+                e.stopPropagation();
+                move(idx, 1);
+              }}
+              disabled={idx === layers.length - 1}
+              title="Move down"
+            >
+              <IconMove up={false} />
+            </button>
+            <button
+              className="f-grid-track-remove"
+              onClick={(e) => {
+                e.stopPropagation();
+                set(layers.filter((_, i) => i !== idx));
+              }}
+              title="Remove shadow"
+            >
+              <IconMinus />
+            </button>
+          </div>
+        ))}
+        {layers.length === 0 && <div className="f-grid-track-empty">No shadow</div>}
+      </div>
+      {layers[index] && (
+        <ShadowFields
+          parts={layers[index]}
+          text={text}
+          getPalette={getPalette}
+          onChange={(patch) =>
+            set(layers.map((layer, i) => (i === index ? { ...layer, ...patch } : layer)))
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+export function BoxShadowEditor({
+  value,
+  onChange,
+  getPalette,
+}: {
+  value: string;
+  onChange?: (val: string) => void;
+  getPalette?: () => string[];
+}) {
+  return <ShadowLayersEditor value={value} onChange={onChange} getPalette={getPalette} />;
+}
+
+export function TextShadowEditor({
+  value,
+  onChange,
+  getPalette,
+}: {
+  value: string;
+  onChange?: (val: string) => void;
+  getPalette?: () => string[];
+}) {
+  return <ShadowLayersEditor value={value} onChange={onChange} getPalette={getPalette} text />;
+}
+
+// ── Transform Editor ───────────────────────────────
+
+/** Keep the unit `previous` was typed in, e.g. `%` for a translate. */
+function withUnit(next: string, previous: string) {
+  const unit = previous.match(/[a-z%]+$/i)?.[0] ?? "px";
+  return next === "" ? `0${unit}` : `${next}${unit}`;
+}
+
+export function TransformEditor({
+  value,
+  onChange,
+  handles,
+  onToggleHandles,
+}: {
+  value: string;
+  onChange?: (val: string) => void;
+  /** Whether the on-page handles are showing */
+  handles?: boolean;
+  onToggleHandles?: () => void;
+}) {
+  const parts = useMemo(() => parseTransform(value), [value]);
+
+  const update = (patch: Partial<TransformParts>) => {
+    onChange?.(serializeTransform({ ...parts, ...patch }));
+  };
+
+  const num = (v: string, fallback: number) => {
+    const n = parseFloat(v);
+    return isNaN(n) ? fallback : n;
+  };
+
+  const field = (label: string, current: string | number, set: (v: string) => void) => (
+    <div className="f-shadow-field">
+      <span className="f-shadow-field-label">{label}</span>
+      <input
+        className="f-shadow-input"
+        value={typeof current === "number" ? current : String(parseFloat(current) || 0)}
+        onChange={(e) => set(e.target.value)}
+        type="number"
+      />
+    </div>
+  );
+
+  return (
+    <div className="f-shadow-editor">
+      <div className="f-prop-grid">
+        {field("X", parts.translateX, (v) => update({ translateX: withUnit(v, parts.translateX) }))}
+        {field("Y", parts.translateY, (v) => update({ translateY: withUnit(v, parts.translateY) }))}
+      </div>
+      <div className="f-prop-grid">
+        {field("Scale X", parts.scaleX, (v) => update({ scaleX: num(v, 1) }))}
+        {field("Scale Y", parts.scaleY, (v) => update({ scaleY: num(v, 1) }))}
+      </div>
+      <div className="f-shadow-bottom-row">
+        {field("Rotate°", parts.rotate, (v) => update({ rotate: num(v, 0) }))}
+        {onToggleHandles && (
+          <button
+            className={`f-shadow-inset-btn${handles ? " active" : ""}`}
+            onClick={onToggleHandles}
+            type="button"
+            title={handles ? "Hide handles on the page" : "Drag, rotate and scale on the page"}
+          >
+            Handles
+          </button>
+        )}
+      </div>
+      {parts.rest && <div className="f-grid-track-empty">Also {parts.rest}</div>}
+    </div>
+  );
+}
+
+// ── Filter Editor ──────────────────────────────────
+
+interface FilterFn {
+  name: string;
+  value: string;
+}
+
+// What a newly added function starts at
+const FILTER_DEFAULTS: Record<string, string> = {
+  blur: "4px",
+  brightness: "1.2",
+  contrast: "1.2",
+  grayscale: "1",
+  "hue-rotate": "90deg",
+  invert: "1",
+  opacity: "0.5",
+  saturate: "1.5",
+  sepia: "1",
+  "drop-shadow": "0 2px 4px rgba(0, 0, 0, 0.25)",
+};
+
+const FILTER_FNS = Object.keys(FILTER_DEFAULTS);
+
+function parseFilters(raw: string): FilterFn[] {
+  const s = raw.trim();
+  if (!s || s === "none") return [];
+  const fns: FilterFn[] = [];
+  let depth = 0;
+  let start = 0;
+  let open = -1;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "(" && depth++ === 0) open = i;
+    if (s[i] === ")" && --depth === 0) {
+      fns.push({ name: s.slice(start, open).trim(), value: s.slice(open + 1, i).trim() });
+      start = i + 1;
+    }
+  }
+  return fns;
+}
+
+function serializeFilters(fns: FilterFn[]): string {
+  if (fns.length === 0) return "none";
+  return fns.map((fn) => `${fn.name}(${fn.value})`).join(" ");
+}
+
+/** List of `filter` / `backdrop-filter` functions, applied in order. */
+export function FilterEditor({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange?: (val: string) => void;
+}) {
+  const fns = parseFilters(value);
+  const set = (next: FilterFn[]) => onChange?.(serializeFilters(next));
+  const unused = FILTER_FNS.find((name) => !fns.some((fn) => fn.name === name)) ?? "blur";
+
+  return (
+    <div className="f-grid-track-list">
+      <div className="f-grid-track-header">
+        <span className="f-grid-track-label">{label}</span>
+        <button
+          className="f-grid-track-add"
+          onClick={() => set([...fns, { name: unused, value: FILTER_DEFAULTS[unused] }])}
+          title="Add filter"
+        >
+          <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+            <path
+              d="M5 1v8M1 5h8"
+              stroke="currentColor"
+              strokeWidth="1.3"
+              strokeLinecap="round"
+            />
+          </svg>
+        </button>
+      </div>
+      {fns.map((fn, idx) => (
+        <div key={idx} className="f-grid-track-row">
+          <SelectDropdown
+            options={FILTER_FNS}
+            value={fn.name}
+            onChange={(name) =>
+              set(fns.map((f, i) => (i === idx ? { name, value: FILTER_DEFAULTS[name] } : f)))
+            }
           />
           <input
-            ref={pickerRef}
-            type="color"
-            className="f-color-picker"
-            value={toHex(parts.color)}
-            onChange={(e) => update({ color: e.target.value })}
+            className="f-grid-track-input f-grid-track-input-wide"
+            type="text"
+            value={fn.value}
+            onChange={(e) =>
+              set(fns.map((f, i) => (i === idx ? { ...f, value: e.target.value } : f)))
+            }
           />
-          <span className="f-shadow-color-label">{parts.color}</span>
+          <button
+            className="f-grid-track-remove"
+            onClick={() => set(fns.filter((_, i) => i !== idx))}
+            title="Remove filter"
+          >
+            <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+              <path
+                d="M2 5h6"
+                stroke="currentColor"
+                strokeWidth="1.3"
+                strokeLinecap="round"
+              />
+            </svg>
+          </button>
         </div>
+      ))}
+      {fns.length === 0 && <div className="f-grid-track-empty">No filters</div>}
+    </div>
+  );
+}
+
+// ── Gradient Editor ────────────────────────────────
+
+const NEW_GRADIENT: Gradient = {
+  kind: "linear",
+  repeating: false,
+  angle: 180,
+  shape: "",
+  position: "",
+  stops: [
+    { color: "#ffffff", position: 0 },
+    { color: "#000000", position: 100 },
+  ],
+};
+
+/** Follow the pointer until it's released; `onMove` gets the press and every move. */
+function trackPointer(
+  e: React.PointerEvent,
+  onMove: (ev: PointerEvent | React.PointerEvent) => void,
+) {
+  e.preventDefault();
+  e.stopPropagation();
+  onMove(e);
+  const move = (ev: PointerEvent) => onMove(ev);
+  const up = () => {
+    document.removeEventListener("pointermove", move);
+    document.removeEventListener("pointerup", up);
+  };
+  document.addEventListener("pointermove", move);
+  document.addEventListener("pointerup", up);
+}
+
+function AngleDial({ angle, onChange }: { angle: number; onChange: (angle: number) => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    const rect = ref.current!.getBoundingClientRect();
+    const cx = rect.left + rect.width / 2;
+    const cy = rect.top + rect.height / 2;
+    trackPointer(e, (ev) => {
+      // 0deg points up, like CSS
+      const deg = (Math.atan2(ev.clientX - cx, cy - ev.clientY) * 180) / Math.PI;
+      const snapped = ev.shiftKey ? Math.round(deg / 15) * 15 : Math.round(deg);
+      onChange((snapped + 360) % 360);
+    });
+  };
+
+  return (
+    <div className="f-angle-dial" ref={ref} onPointerDown={onPointerDown} title="Drag to set the angle (Shift snaps)">
+      <div className="f-angle-dial-hand" style={{ transform: `rotate(${angle}deg)` }} />
+    </div>
+  );
+}
+
+function StopBar({
+  gradient,
+  onChange,
+}: {
+  gradient: Gradient;
+  onChange: (stops: GradientStop[]) => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const preview = serializeGradient({ ...gradient, kind: "linear", repeating: false, angle: 90 });
+
+  const positionAt = (clientX: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    const pct = ((clientX - rect.left) / rect.width) * 100;
+    return Math.round(Math.min(100, Math.max(0, pct)));
+  };
+
+  // Positions come from the stops as they were when the drag started, so the
+  // dragged stop keeps its index while it passes others
+  const dragStop = (idx: number) => (e: React.PointerEvent) => {
+    const start = gradient.stops;
+    trackPointer(e, (ev) => {
+      const position = positionAt(ev.clientX);
+      onChange(start.map((s, i) => (i === idx ? { ...s, position } : s)));
+    });
+  };
+
+  const addStop = (e: React.MouseEvent) => {
+    const position = positionAt(e.clientX);
+    const nearest = gradient.stops.reduce((a, b) =>
+      Math.abs(b.position - position) < Math.abs(a.position - position) ? b : a,
+    );
+    onChange([...gradient.stops, { color: nearest.color, position }]);
+  };
+
+  return (
+    <div className="f-stop-bar" ref={ref} style={{ background: preview }} onClick={addStop} title="Click to add a stop">
+      {gradient.stops.map((stop, idx) => (
+        <div
+          key={idx}
+          className="f-stop-marker"
+          style={{ left: `${stop.position}%`, background: stop.color }}
+          onPointerDown={dragStop(idx)}
+          onClick={(e) => e.stopPropagation()}
+          title={`${stop.color} ${stop.position}%`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/** `background-image` layers; gradients get a stop bar, the rest a text field. */
+export function GradientEditor({
+  value,
+  onChange,
+  getPalette,
+}: {
+  value: string;
+  onChange?: (val: string) => void;
+  /** Colors used on the page, offered by the stops' pickers */
+  getPalette?: () => string[];
+}) {
+  const layers = useMemo(() => parseBackgroundLayers(value), [value]);
+  const [active, setActive] = useState(0);
+  const index = Math.min(active, layers.length - 1);
+  const layer = layers[index];
+
+  const set = (next: BackgroundLayer[]) => onChange?.(serializeBackgroundLayers(next));
+  const setLayer = (next: BackgroundLayer) => set(layers.map((l, i) => (i === index ? next : l)));
+  const update = (patch: Partial<Gradient>) => {
+    if (layer?.type === "gradient") {
+      setLayer({ type: "gradient", gradient: { ...layer.gradient, ...patch } });
+    }
+  };
+
+  return (
+    <div className="f-grid-track-list">
+      <div className="f-grid-track-header">
+        <span className="f-grid-track-label">Layers</span>
         <button
-          className={`f-shadow-inset-btn${parts.inset ? " active" : ""}`}
-          onClick={() => update({ inset: !parts.inset })}
-          type="button"
-          title={parts.inset ? "Remove inset" : "Add inset"}
+          className="f-grid-track-add"
+          onClick={() => {
+            // New layers go on top, as the first in the list
+            set([{ type: "gradient", gradient: NEW_GRADIENT }, ...layers]);
+            setActive(0);
+          }}
+          title="Add gradient"
         >
-          Inset
+          <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+            <path
+              d="M5 1v8M1 5h8"
+              stroke="currentColor"
+              strokeWidth="1.3"
+              strokeLinecap="round"
+            />
+          </svg>
         </button>
       </div>
+      {layers.map((l, idx) => (
+        <div
+          key={idx}
+          className={`f-grid-track-row f-stack-layer${idx === index ? " active" : ""}`}
+          onClick={() => setActive(idx)}
+        >
+          <span
+            className="f-swatch"
+            style={{ background: l.type === "gradient" ? serializeGradient(l.gradient) : undefined }}
+          />
+          <span className="f-stack-layer-label">
+            {l.type === "gradient"
+              ? `${l.gradient.repeating ? "Repeating " : ""}${l.gradient.kind}`
+              : l.value}
+          </span>
+          <button
+            className="f-grid-track-remove"
+            onClick={(e) => {
+              e.stopPropagation();
+              set(layers.filter((_, i) => i !== idx));
+            }}
+            title="Remove layer"
+          >
+            <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+              <path
+                d="M2 5h6"
+                stroke="currentColor"
+                strokeWidth="1.3"
+                strokeLinecap="round"
+              />
+            </svg>
+          </button>
+        </div>
+      ))}
+      {layers.length === 0 && <div className="f-grid-track-empty">No background image</div>}
+
+      {layer?.type === "other" && (
+        <input
+          className="f-grid-track-input"
+          type="text"
+          value={layer.value}
+          onChange={(e) => setLayer({ type: "other", value: e.target.value })}
+        />
+      )}
+
+      {layer?.type === "gradient" && (
+        <div className="f-gradient-editor">
+          <div className="f-gradient-config">
+            <SelectDropdown
+              options={["linear", "radial", "conic"]}
+              value={layer.gradient.kind}
+              onChange={(kind) => update({ kind: kind as GradientKind })}
+            />
+            {layer.gradient.kind === "radial" ? (
+              <SelectDropdown
+                options={["ellipse", "circle"]}
+                value={layer.gradient.shape.split(" ")[0] || "ellipse"}
+                onChange={(shape) => update({ shape: shape === "ellipse" ? "" : shape })}
+              />
+            ) : (
+              <>
+                <AngleDial angle={layer.gradient.angle} onChange={(angle) => update({ angle })} />
+                <div className="f-shadow-field">
+                  <span className="f-shadow-field-label">°</span>
+                  <input
+                    className="f-shadow-input"
+                    type="number"
+                    value={layer.gradient.angle}
+                    onChange={(e) => update({ angle: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </>
+            )}
+            <button
+              className={`f-shadow-inset-btn${layer.gradient.repeating ? " active" : ""}`}
+              onClick={() => update({ repeating: !layer.gradient.repeating })}
+              type="button"
+              title="Repeat the gradient"
+            >
+              Repeat
+            </button>
+          </div>
+          <StopBar gradient={layer.gradient} onChange={(stops) => update({ stops })} />
+          {layer.gradient.stops.map((stop, idx) => (
+            <div key={idx} className="f-grid-track-row">
+              <ColorSwatch
+                color={stop.color}
+                getPalette={getPalette}
+                onChange={(color) =>
+                  update({ stops: layer.gradient.stops.map((s, i) => (i === idx ? { ...s, color } : s)) })
+                }
+              />
+              <div className="f-shadow-field f-gradient-stop-position">
+                <input
+                  className="f-shadow-input"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={stop.position}
+                  onChange={(e) => {
+                    const position = parseFloat(e.target.value) || 0;
+                    update({
+                      stops: layer.gradient.stops.map((s, i) => (i === idx ? { ...s, position } : s)),
+                    });
+                  }}
+                />
+                <span className="f-shadow-field-label">%</span>
+              </div>
+              <button
+                className="f-grid-track-remove"
+                onClick={() => update({ stops: layer.gradient.stops.filter((_, i) => i !== idx) })}
+                disabled={layer.gradient.stops.length <= 2}
+                title="Remove stop"
+              >
+                <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+                  <path
+                    d="M2 5h6"
+                    stroke="currentColor"
+                    strokeWidth="1.3"
+                    strokeLinecap="round"
+                  />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,24 +1,38 @@
+export { ChangesPanel } from "./ChangesPanel";
 export {
   AlignmentMatrix,
   BoxShadowEditor,
   DisplayModePicker,
+  FilterEditor,
+  GradientEditor,
   GridTrackEditor,
+  TextShadowEditor,
+  TransformEditor,
 } from "./editors";
 export {
   ColorSwatch,
+  ContrastBadge,
   ExpandableInput,
   FontDropdown,
   SelectDropdown,
   ValueInput,
 } from "./inputs";
 export {
+  AckNotice,
   Breadcrumb,
+  BreakpointBar,
+  BridgeTokenNotice,
+  ComponentScopeBar,
   CopyPromptBar,
   ElementComment,
   IconButton,
   PropRow,
   Section,
+  SelectionBar,
   SourceReference,
+  StateBar,
   SubPanel,
+  VerifyNotice,
 } from "./layout";
+export { LayersPanel } from "./LayersPanel";
 export { PropertySections } from "./PropertySections";
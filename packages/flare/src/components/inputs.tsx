@@ -1,7 +1,12 @@
+import { Braces } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { formatColor, getColorFormat } from "../color";
 import { CSS_UNITS, KEYWORD_UNITS } from "../constants";
+import { checkContrast, formatRatio, suggestPassingColor } from "../contrast";
 import { useClickOutside } from "../hooks";
-import { toHex } from "../utils";
+import { findThemeToken, stepThemeToken, type ThemeToken } from "../tailwind";
+import type { DesignToken } from "../tokens";
+import { ColorPicker } from "./ColorPicker";
 
 // ── Value Parsing ──────────────────────────────────
 
@@ -22,6 +27,132 @@ function stripUnit(val: string): string {
   return !isNaN(p.num) && p.unit ? String(p.num) : val;
 }
 
+// ── TokenChip ──────────────────────────────────────
+
+/** Tailwind token for the current value; click a near match to snap to it. */
+function TokenChip({
+  token,
+  onSnap,
+}: {
+  token: ThemeToken;
+  onSnap: (value: string) => void;
+}) {
+  if (token.exact) {
+    return (
+      <span className="f-token-chip exact" title={`Matches ${token.name}`}>
+        {token.name}
+      </span>
+    );
+  }
+  return (
+    <button
+      className="f-token-chip"
+      onMouseDown={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onSnap(token.value);
+      }}
+      onClick={(e) => e.stopPropagation()}
+      tabIndex={-1}
+      type="button"
+      title={`Snap to ${token.name} (${token.value})`}
+    >
+      ≈ {token.name}
+    </button>
+  );
+}
+
+// ── TokenMenu ──────────────────────────────────────
+
+/** Picker for the custom properties defined on `:root`. */
+function TokenMenu({
+  tokens,
+  kinds,
+  current,
+  onSelect,
+  onDetach,
+  onClose,
+}: {
+  tokens: DesignToken[];
+  kinds: DesignToken["kind"][];
+  current?: string;
+  onSelect: (value: string) => void;
+  onDetach?: () => void;
+  onClose: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+
+  useClickOutside(ref, true, onClose);
+
+  const q = query.trim().toLowerCase();
+  const visible = tokens.filter(
+    (t) => kinds.includes(t.kind) && (!q || t.name.toLowerCase().includes(q)),
+  );
+
+  return (
+    <div
+      className="f-token-menu"
+      ref={ref}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <input
+        className="f-token-search"
+        autoFocus
+        placeholder="Search tokens…"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+          if (e.key === "Enter" && visible[0]) onSelect(`var(${visible[0].name})`);
+        }}
+      />
+      <div className="f-token-list">
+        {visible.map((t) => (
+          <button
+            key={t.name}
+            className={`f-token-option${t.name === current ? " active" : ""}`}
+            onClick={() => onSelect(`var(${t.name})`)}
+            title={`${t.name}: ${t.value}`}
+            type="button"
+          >
+            {t.kind === "color" && (
+              <span className="f-token-swatch" style={{ background: t.value }} />
+            )}
+            <span className="f-token-name">{t.name}</span>
+          </button>
+        ))}
+        {visible.length === 0 && <div className="f-token-empty">No matching tokens</div>}
+      </div>
+      {current && onDetach && (
+        <button className="f-token-detach" onClick={onDetach} type="button">
+          Detach {current}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function TokenButton({ onOpen }: { onOpen: () => void }) {
+  return (
+    <button
+      className="f-token-btn"
+      onMouseDown={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onOpen();
+      }}
+      onClick={(e) => e.stopPropagation()}
+      tabIndex={-1}
+      type="button"
+      title="Use a design token"
+    >
+      <Braces size={10} strokeWidth={2} />
+    </button>
+  );
+}
+
 // ── ValueInput ─────────────────────────────────────
 
 export function ValueInput({
@@ -30,17 +161,30 @@ export function ValueInput({
   prefix,
   onChange,
   units,
+  property,
+  tokenName,
+  tokens,
+  mixed,
 }: {
   value: string;
   suffix?: string;
   prefix?: string;
   onChange?: (val: string) => void;
   units?: string[];
+  /** CSS property being edited (camelCase), used to look up theme tokens */
+  property?: string;
+  /** Custom property the value comes from, e.g. `--space-4` */
+  tokenName?: string;
+  /** Custom properties offered by the token picker */
+  tokens?: DesignToken[];
+  /** Selected elements differ; `value` is the first one's */
+  mixed?: boolean;
 }) {
   const [draft, setDraft] = useState(value);
   const [inputStr, setInputStr] = useState(() => stripUnit(value));
   const [focused, setFocused] = useState(false);
   const [unitOpen, setUnitOpen] = useState(false);
+  const [tokenMenuOpen, setTokenMenuOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const scrubRef = useRef<{
     startX: number;
@@ -49,6 +193,10 @@ export function ValueInput({
   } | null>(null);
 
   const draftParsed = parseValue(draft);
+  const themeToken = useMemo(
+    () => (property && !tokenName ? findThemeToken(property, draft) : null),
+    [property, tokenName, draft],
+  );
   const lastUnitRef = useRef(draftParsed.unit);
   if (draftParsed.unit) lastUnitRef.current = draftParsed.unit;
   const currentUnit = draftParsed.unit || lastUnitRef.current;
@@ -102,6 +250,17 @@ export function ValueInput({
       onChange?.(value);
       inputRef.current?.blur();
     }
+    if ((e.key === "ArrowUp" || e.key === "ArrowDown") && e.altKey && property) {
+      // Alt+arrows step through the theme scale instead of by pixels
+      const next = stepThemeToken(property, draft, e.key === "ArrowUp" ? 1 : -1);
+      if (next) {
+        e.preventDefault();
+        setDraft(next);
+        setInputStr(stripUnit(next));
+        onChange?.(next);
+      }
+      return;
+    }
     if (e.key === "ArrowUp" || e.key === "ArrowDown") {
       if (!isNaN(draftParsed.num)) {
         e.preventDefault();
@@ -164,16 +323,39 @@ export function ValueInput({
     setUnitOpen(false);
   };
 
+  const showMixed = !!mixed && !focused;
   const isKeywordVal =
-    unitList.includes(draft.trim()) && parseValue(draft.trim()).unit === "";
+    !showMixed && unitList.includes(draft.trim()) && parseValue(draft.trim()).unit === "";
+  const showTokenLabel = !!tokenName && !focused && !mixed;
   const showUnit =
-    onChange && (currentUnit || !isNaN(draftParsed.num) || isKeywordVal);
+    onChange &&
+    !showTokenLabel &&
+    !showMixed &&
+    (currentUnit || !isNaN(draftParsed.num) || isKeywordVal);
+  const lengthTokens = tokens?.filter((t) => t.kind !== "color") ?? [];
+
+  const selectToken = (next: string) => {
+    setTokenMenuOpen(false);
+    setDraft(next);
+    setInputStr(next);
+    onChange?.(next);
+  };
+
+  // Swap the token for the value it resolves to
+  const detachToken = () => {
+    const resolved = tokens?.find((t) => t.name === tokenName)?.value;
+    const next = draft.trim().startsWith("var(") ? (resolved ?? draft) : draft;
+    setTokenMenuOpen(false);
+    setDraft(next);
+    setInputStr(stripUnit(next));
+    onChange?.(next);
+  };
 
   if (!onChange) {
     return (
       <div className="f-value-input">
         {prefix && <span className="f-value-prefix">{prefix}</span>}
-        <span>{stripUnit(value)}</span>
+        <span>{mixed ? "Mixed" : stripUnit(value)}</span>
         {suffix && <span className="f-value-suffix">{suffix}</span>}
       </div>
     );
@@ -181,7 +363,7 @@ export function ValueInput({
 
   return (
     <div
-      className={`f-value-input editable${focused ? " focused" : ""}${isKeywordVal && !focused ? " keyword" : ""}`}
+      className={`f-value-input editable${focused ? " focused" : ""}${isKeywordVal && !focused ? " keyword" : ""}${showTokenLabel ? " tokenized" : ""}${showMixed ? " mixed" : ""}`}
     >
       {prefix && (
         <span
@@ -192,18 +374,51 @@ export function ValueInput({
           {prefix}
         </span>
       )}
-      {isKeywordVal && !focused ? (
+      {showTokenLabel ? (
+        <button
+          className="f-token-label"
+          onClick={() => setTokenMenuOpen(true)}
+          type="button"
+          title={`${tokenName} (${value})`}
+        >
+          {tokenName}
+        </button>
+      ) : isKeywordVal && !focused ? (
         <span className="f-keyword-label">{draft}</span>
       ) : (
         <input
           ref={inputRef}
-          value={inputStr}
+          value={showMixed ? "" : inputStr}
+          placeholder={mixed ? "Mixed" : undefined}
           onChange={handleChange}
           onFocus={handleFocus}
           onBlur={handleBlur}
           onKeyDown={handleKeyDown}
         />
       )}
+      {lengthTokens.length > 0 && !showTokenLabel && (
+        <TokenButton onOpen={() => setTokenMenuOpen(true)} />
+      )}
+      {tokenMenuOpen && (
+        <TokenMenu
+          tokens={lengthTokens}
+          kinds={["length", "other"]}
+          current={tokenName}
+          onSelect={selectToken}
+          onDetach={detachToken}
+          onClose={() => setTokenMenuOpen(false)}
+        />
+      )}
+      {themeToken && (
+        <TokenChip
+          token={themeToken}
+          onSnap={(next) => {
+            setDraft(next);
+            setInputStr(stripUnit(next));
+            onChange(next);
+          }}
+        />
+      )}
       {showUnit && (
         <div className="f-unit-dropdown-wrap">
           <button
@@ -244,14 +459,35 @@ export function ValueInput({
 export function ColorSwatch({
   color,
   onChange,
+  property,
+  tokenName,
+  tokens,
+  mixed,
+  getPalette,
 }: {
   color: string;
   onChange?: (val: string) => void;
+  /** CSS property being edited (camelCase), used to look up theme tokens */
+  property?: string;
+  /** Custom property the color comes from, e.g. `--color-primary` */
+  tokenName?: string;
+  /** Custom properties offered by the token picker */
+  tokens?: DesignToken[];
+  /** Selected elements differ; `color` is the first one's */
+  mixed?: boolean;
+  /** Colors used on the page, offered by the picker */
+  getPalette?: () => string[];
 }) {
   const [editing, setEditing] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [tokenMenuOpen, setTokenMenuOpen] = useState(false);
+  const themeToken = useMemo(
+    () => (property && !tokenName ? findThemeToken(property, color) : null),
+    [property, tokenName, color],
+  );
+  const colorTokens = tokens?.filter((t) => t.kind === "color") ?? [];
   const [draft, setDraft] = useState(color);
   const inputRef = useRef<HTMLInputElement>(null);
-  const pickerRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     setDraft(color);
@@ -267,7 +503,7 @@ export function ColorSwatch({
 
   const openPicker = (e: React.MouseEvent) => {
     e.stopPropagation();
-    pickerRef.current?.click();
+    setPickerOpen(true);
   };
 
   return (
@@ -276,19 +512,17 @@ export function ColorSwatch({
       onClick={() => onChange && setEditing(true)}
     >
       <div
-        className="f-swatch"
-        style={{ background: color }}
+        className={`f-swatch${mixed ? " mixed" : ""}`}
+        style={mixed ? undefined : { background: color }}
         onClick={onChange ? openPicker : undefined}
       />
-      {onChange && (
-        <input
-          ref={pickerRef}
-          type="color"
-          className="f-color-picker"
-          value={toHex(color)}
-          onChange={(e) => {
-            onChange(e.target.value);
-          }}
+      {pickerOpen && onChange && (
+        <ColorPicker
+          color={color}
+          tokens={tokens}
+          getPalette={getPalette}
+          onChange={onChange}
+          onClose={() => setPickerOpen(false)}
         />
       )}
       {editing ? (
@@ -307,7 +541,100 @@ export function ColorSwatch({
           }}
         />
       ) : (
-        <span className="f-color-hex">{color}</span>
+        <span
+          className={`f-color-hex${tokenName && !mixed ? " f-color-token" : ""}${mixed ? " mixed" : ""}`}
+          title={tokenName && !mixed ? `${tokenName} (${color})` : undefined}
+        >
+          {mixed ? "Mixed" : (tokenName ?? color)}
+        </span>
+      )}
+      {themeToken && !editing && onChange && (
+        <TokenChip token={themeToken} onSnap={onChange} />
+      )}
+      {colorTokens.length > 0 && !editing && onChange && (
+        <TokenButton onOpen={() => setTokenMenuOpen(true)} />
+      )}
+      {tokenMenuOpen && onChange && (
+        <TokenMenu
+          tokens={colorTokens}
+          kinds={["color"]}
+          current={tokenName}
+          onSelect={(next) => {
+            setTokenMenuOpen(false);
+            onChange(next);
+          }}
+          onDetach={() => {
+            setTokenMenuOpen(false);
+            const resolved = colorTokens.find((t) => t.name === tokenName)?.value;
+            onChange(color.startsWith("var(") ? (resolved ?? color) : color);
+          }}
+          onClose={() => setTokenMenuOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ── ContrastBadge ──────────────────────────────────
+
+/**
+ * WCAG level of the text in `el` with `color` over `backgroundColor`, and
+ * when it fails AA, the nearest passing value for whichever of the two
+ * `adjust` names, in the notation that value is written in.
+ */
+export function ContrastBadge({
+  el,
+  color,
+  backgroundColor,
+  adjust,
+  onChange,
+}: {
+  el: Element;
+  color: string;
+  backgroundColor: string;
+  adjust: "color" | "backgroundColor";
+  onChange: (val: string) => void;
+}) {
+  const check = useMemo(
+    () => checkContrast(el, { color, backgroundColor }),
+    [el, color, backgroundColor],
+  );
+  const suggestion = useMemo(() => {
+    if (!check || check.level !== "fail") return null;
+    const current = adjust === "color" ? color : backgroundColor;
+    const rgba =
+      adjust === "color"
+        ? suggestPassingColor(check.foreground, check.background, check.required)
+        : suggestPassingColor(check.background, check.foreground, check.required, "background");
+    return rgba && formatColor(rgba, getColorFormat(current) ?? "hex");
+  }, [check, adjust, color, backgroundColor]);
+
+  if (!check) return null;
+  const [r, g, b] = check.background.map(Math.round);
+  const title = [
+    `Against rgb(${r}, ${g}, ${b})${check.uncertain ? ", not counting a background image" : ""}`,
+    `AA needs ${check.required}:1 for ${check.large ? "large" : "normal"} text`,
+  ].join("\n");
+
+  return (
+    <div className="f-contrast" title={title}>
+      <span className={`f-contrast-badge f-contrast-${check.level.toLowerCase()}`}>
+        {check.level === "fail" ? "Fail" : check.level}
+      </span>
+      <span className="f-contrast-ratio">
+        {check.uncertain && "≈ "}
+        {formatRatio(check.ratio)}
+      </span>
+      {suggestion && (
+        <button
+          className="f-contrast-fix"
+          onClick={() => onChange(suggestion)}
+          title={`Nearest ${adjust === "color" ? "text color" : "background"} that passes AA`}
+          type="button"
+        >
+          <span className="f-contrast-fix-swatch" style={{ background: suggestion }} />
+          Use {suggestion}
+        </button>
       )}
     </div>
   );
@@ -513,6 +840,9 @@ export function ExpandableInput({
   expandedIcon,
   getValue,
   setValue,
+  getToken,
+  isMixed,
+  tokens,
   units,
 }: {
   label: string;
@@ -522,6 +852,9 @@ export function ExpandableInput({
   expandedIcon: React.ReactNode;
   getValue: (prop: string) => string;
   setValue: (prop: string, value: string) => void;
+  getToken?: (prop: string) => string | undefined;
+  isMixed?: (prop: string) => boolean;
+  tokens?: DesignToken[];
   units?: string[];
 }) {
   const [expanded, setExpanded] = useState(false);
@@ -534,6 +867,10 @@ export function ExpandableInput({
           value={getValue(shorthandProp)}
           onChange={(v) => setValue(shorthandProp, v)}
           units={units}
+          property={shorthandProp}
+          tokenName={getToken?.(shorthandProp)}
+          tokens={tokens}
+          mixed={isMixed?.(shorthandProp)}
         />
         <button
           className="f-radius-toggle"
@@ -574,6 +911,10 @@ export function ExpandableInput({
               value={getValue(detail.prop)}
               onChange={(v) => setValue(detail.prop, v)}
               units={units}
+              property={detail.prop}
+              tokenName={getToken?.(detail.prop)}
+              mixed={isMixed?.(detail.prop)}
+              tokens={tokens}
             />
           ))}
         </div>
@@ -1,6 +1,12 @@
 import { ArrowUp, X } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
-import { useClickOutside } from "../hooks";
+import type { AgentAckSummary } from "../bridge-client";
+import type { VerificationReport } from "../verify";
+import type { FlareElementState } from "../bridge-types";
+import { type Breakpoint, getBreakpointLabel } from "../breakpoints";
+import { useBreakpoints, useClickOutside } from "../hooks";
+import { getClassList, type MatchKind } from "../matching";
+import { ELEMENT_STATES } from "../states";
 import { IconChevron } from "../icons";
 import {
   formatSourceLocation,
@@ -158,6 +164,211 @@ export function Breadcrumb({
   );
 }
 
+/** Switch which breakpoint edits are recorded under. */
+export function BreakpointBar({
+  el,
+  value,
+  changed,
+  onChange,
+}: {
+  el: Element;
+  value: Breakpoint | null;
+  changed: readonly string[];
+  onChange: (breakpoint: Breakpoint | null) => void;
+}) {
+  const { breakpoints, viewportWidth } = useBreakpoints(el);
+  if (breakpoints.length === 0) return null;
+
+  return (
+    <div className="f-state-bar">
+      <button
+        className={`f-state-btn${value === null ? " active" : ""}`}
+        onClick={() => onChange(null)}
+        title="Edit at every width"
+      >
+        All widths
+      </button>
+      {breakpoints.map((breakpoint) => {
+        const label = getBreakpointLabel(breakpoint);
+        const tooWide = breakpoint.minWidth > viewportWidth;
+        return (
+          <button
+            key={breakpoint.mediaQuery}
+            className={`f-state-btn${value?.mediaQuery === breakpoint.mediaQuery ? " active" : ""}${tooWide ? " inactive" : ""}`}
+            onClick={() => onChange(breakpoint)}
+            title={
+              tooWide
+                ? `Edits show once the viewport is ${breakpoint.minWidth}px or wider`
+                : `Edit from ${breakpoint.minWidth}px up`
+            }
+          >
+            {label}
+            {changed.includes(breakpoint.mediaQuery) && <span className="f-state-dot" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Switch which state of the element edits apply to. */
+export function StateBar({
+  value,
+  changed,
+  onChange,
+}: {
+  value: FlareElementState | null;
+  changed: readonly FlareElementState[];
+  onChange: (state: FlareElementState | null) => void;
+}) {
+  const options: { state: FlareElementState | null; label: string }[] = [
+    { state: null, label: "Default" },
+    ...ELEMENT_STATES.map((state) => ({
+      state,
+      label: state === "disabled" ? "disabled" : `:${state}`,
+    })),
+  ];
+
+  return (
+    <div className="f-state-bar">
+      {options.map(({ state, label }) => (
+        <button
+          key={label}
+          className={`f-state-btn${state === value ? " active" : ""}`}
+          onClick={() => onChange(state)}
+          title={state ? `Edit the ${label} state` : "Edit the resting state"}
+        >
+          {label}
+          {state && changed.includes(state) && <span className="f-state-dot" />}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Edit just the selected element, or every instance of its component. */
+export function ComponentScopeBar({
+  name,
+  count,
+  partial = false,
+  onChange,
+}: {
+  name: string | null;
+  /** Instances edited together, while in component scope */
+  count: number | null;
+  /** Not every element on the page was checked, so there may be more instances */
+  partial?: boolean;
+  onChange: (component: boolean) => Promise<void>;
+}) {
+  const [finding, setFinding] = useState(false);
+
+  const edit = async (component: boolean) => {
+    setFinding(true);
+    try {
+      await onChange(component);
+    } finally {
+      setFinding(false);
+    }
+  };
+
+  return (
+    <div className="f-state-bar">
+      <button
+        className={`f-state-btn${count === null ? " active" : ""}`}
+        onClick={() => void edit(false)}
+        title="Edits apply to this element only"
+      >
+        This element
+      </button>
+      <button
+        className={`f-state-btn${count !== null ? " active" : ""}`}
+        disabled={finding}
+        onClick={() => void edit(true)}
+        title="Edits apply to every instance, and the agent changes the component definition"
+      >
+        {finding ? "Finding instances…" : `Component${name ? ` ${name}` : ""}`}
+        {count !== null && !finding && (
+          <span
+            className="f-state-count"
+            title={partial ? "The page is too large to check every element; more instances may exist" : undefined}
+          >
+            ×{count}
+            {partial && "+"}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+}
+
+/** Widen the selection to matching elements, or narrow it back to one. */
+export function SelectionBar({
+  el,
+  count,
+  hasSource,
+  onSelectMatching,
+  onClear,
+}: {
+  el: Element;
+  count: number;
+  /** The element's source is known, so instances of it can be found */
+  hasSource: boolean;
+  /** Resolves to whether more may match than were checked */
+  onSelectMatching: (kind: MatchKind) => Promise<boolean>;
+  onClear: () => void;
+}) {
+  const [matching, setMatching] = useState<MatchKind | null>(null);
+  const [partial, setPartial] = useState(false);
+
+  useEffect(() => {
+    setPartial(false);
+  }, [el]);
+
+  const select = async (kind: MatchKind) => {
+    setMatching(kind);
+    try {
+      setPartial(await onSelectMatching(kind));
+    } finally {
+      setMatching(null);
+    }
+  };
+
+  return (
+    <div className="f-state-bar">
+      {count > 1 && (
+        <span
+          className="f-selection-count"
+          title={partial ? "The page is too large to check every element; more may match" : undefined}
+        >
+          {count}
+          {partial && "+"} selected
+        </span>
+      )}
+      <button
+        className="f-state-btn"
+        disabled={getClassList(el).length === 0 || matching !== null}
+        onClick={() => void select("selector")}
+        title="Also select every element with these classes"
+      >
+        {matching === "selector" ? "Selecting…" : "Same class"}
+      </button>
+      <button
+        className="f-state-btn"
+        disabled={!hasSource || matching !== null}
+        onClick={() => void select("component")}
+        title="Also select every instance rendered from the same source"
+      >
+        {matching === "component" ? "Selecting…" : "Same component"}
+      </button>
+      {count > 1 && (
+        <button className="f-state-btn" onClick={onClear} title="Keep only the first element">
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
 export function SourceReference({
   info,
 }: {
@@ -296,6 +507,9 @@ export function ElementComment({
 
 export function CopyPromptBar({
   changeCount,
+  includedCount = changeCount,
+  reviewing = false,
+  onReview,
   onPush,
   onCopy,
   onReset,
@@ -304,6 +518,11 @@ export function CopyPromptBar({
   externalProgressMs = 800,
 }: {
   changeCount: number;
+  /** Changes that go out with the next push, when some are left out */
+  includedCount?: number;
+  reviewing?: boolean;
+  /** Toggle the list of every pending change */
+  onReview?: () => void;
   onPush?: () => Promise<boolean>;
   onCopy?: () => void;
   onReset: () => void;
@@ -347,6 +566,10 @@ export function CopyPromptBar({
 
   if (changeCount === 0 && !externalState && state === "idle") return null;
 
+  const countLabel = `${includedCount < changeCount ? `${includedCount} of ` : ""}${changeCount} ${
+    changeCount === 1 ? "update" : "updates"
+  }`;
+
   return (
     <div
       className={`f-copy-bar${
@@ -370,17 +593,26 @@ export function CopyPromptBar({
       <div className="f-copy-bar-inner">
         {effectiveState === "idle" ? (
           <>
-            <span className="f-changes-count">
-              {changeCount} {changeCount === 1 ? "update" : "updates"}
-            </span>
+            {onReview ? (
+              <button
+                className={`f-changes-count f-changes-toggle${reviewing ? " active" : ""}`}
+                onClick={onReview}
+                title={reviewing ? "Back to the element" : "Review changes"}
+              >
+                {countLabel}
+                <IconChevron open={reviewing} />
+              </button>
+            ) : (
+              <span className="f-changes-count">{countLabel}</span>
+            )}
             <div className="f-copy-bar-actions">
               <button className="f-reset-btn" onClick={onReset}>Reset</button>
               {bridgeConnected ? (
-                <button className="f-copy-btn" onClick={handlePush}>
+                <button className="f-copy-btn" onClick={handlePush} disabled={includedCount === 0}>
                   Push to Agent
                 </button>
               ) : (
-                <button className="f-copy-btn" onClick={() => {
+                <button className="f-copy-btn" disabled={includedCount === 0} onClick={() => {
                   onCopy?.();
                   startAppliedState();
                 }}>
@@ -398,3 +630,112 @@ export function CopyPromptBar({
     </div>
   );
 }
+
+/** How the agent says the last push went, from its ack */
+export function AckNotice({
+  summary,
+  onDismiss,
+}: {
+  summary: AgentAckSummary;
+  onDismiss: () => void;
+}) {
+  const parts = [
+    summary.applied > 0 && `${summary.applied} applied`,
+    summary.skipped > 0 && `${summary.skipped} skipped`,
+    summary.failed > 0 && `${summary.failed} failed`,
+  ].filter(Boolean);
+  const tone = summary.failed > 0 ? "failed" : summary.skipped > 0 ? "skipped" : "applied";
+
+  return (
+    <div
+      className={`f-ack-notice f-ack-${tone}`}
+      title={summary.reasons.join("\n") || undefined}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <span className="f-ack-dot" />
+      <span className="f-ack-text">
+        Agent: {parts.join(" · ") || "nothing reported"}
+        {summary.failed > 0 && " — failed changes are back in your list"}
+      </span>
+      <button
+        className="f-ack-dismiss"
+        onClick={(e) => {
+          e.stopPropagation();
+          onDismiss();
+        }}
+        title="Dismiss"
+      >
+        <X size={12} strokeWidth={1.5} />
+      </button>
+    </div>
+  );
+}
+
+/** The bridge is up but won't take this page's token, so pushes would be refused */
+export function BridgeTokenNotice({ issue }: { issue: "missing" | "rejected" }) {
+  return (
+    <div className="f-ack-notice f-ack-skipped" onPointerDown={(e) => e.stopPropagation()}>
+      <span className="f-ack-dot" />
+      <span className="f-ack-text">
+        {issue === "rejected"
+          ? "Bridge token rejected — the bridge restarted, reload to pick up its new token"
+          : "Bridge token missing — set window.__FLARE_BRIDGE__ from `npx flare-dev token`"}
+      </span>
+      {issue === "rejected" && (
+        <button className="f-reset-btn" onClick={() => window.location.reload()}>
+          Reload
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Whether pushed changes show on the page once the agent applied them */
+export function VerifyNotice({
+  report,
+  onRepush,
+  onDismiss,
+}: {
+  report: VerificationReport;
+  onRepush?: () => void;
+  onDismiss: () => void;
+}) {
+  const parts = [
+    report.matched > 0 && `${report.matched} match`,
+    report.differs > 0 && `${report.differs} differ${report.differs === 1 ? "s" : ""}`,
+    report.unchecked > 0 && `${report.unchecked} unchecked`,
+  ].filter(Boolean);
+  const tone = report.differs > 0 ? "failed" : report.unchecked > 0 ? "skipped" : "applied";
+  const differing = report.elements.flatMap(({ target, checks }) =>
+    checks
+      .filter((check) => check.status === "differs")
+      .map((check) => ({ selector: target.change.selector, ...check })),
+  );
+
+  return (
+    <div className={`f-verify-notice f-ack-${tone}`} onPointerDown={(e) => e.stopPropagation()}>
+      <div className="f-ack-notice">
+        <span className="f-ack-dot" />
+        <span className="f-ack-text">Verified: {parts.join(" · ")}</span>
+        {onRepush && differing.length > 0 && (
+          <button className="f-reset-btn" onClick={onRepush} title="Push what differs again">
+            Re-push
+          </button>
+        )}
+        <button className="f-ack-dismiss" onClick={onDismiss} title="Dismiss">
+          <X size={12} strokeWidth={1.5} />
+        </button>
+      </div>
+      {differing.map(({ selector, property, expected, actual }) => (
+        <div key={`${selector}:${property}`} className="f-verify-row" title={selector}>
+          <span className="f-change-prop">{property}</span>
+          <span className="f-change-diff">
+            <span className="f-change-before">{actual}</span>
+            <span className="f-change-arrow">→</span>
+            <span className="f-change-after">{expected}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
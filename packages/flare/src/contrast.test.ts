@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Rgba } from "./color";
+import { checkContrast, contrastRatio, describeContrastFailure, suggestPassingColor } from "./contrast";
+
+const BLACK: Rgba = [0, 0, 0, 1];
+const WHITE: Rgba = [255, 255, 255, 1];
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("contrastRatio", () => {
+  it("follows WCAG, translucent text included", () => {
+    expect(contrastRatio(BLACK, WHITE)).toBeCloseTo(21);
+    expect(contrastRatio(WHITE, WHITE)).toBeCloseTo(1);
+    expect(contrastRatio([0, 0, 0, 0.5], WHITE)).toBeCloseTo(contrastRatio([128, 128, 128, 1], WHITE), 0);
+  });
+});
+
+describe("checkContrast", () => {
+  it("finds the background through translucent ancestors", () => {
+    document.body.innerHTML = `
+      <div style="background-color: rgb(0, 0, 0)">
+        <div style="background-color: rgba(255, 255, 255, 0.5)">
+          <p style="color: rgb(119, 119, 119)">Hello</p>
+        </div>
+      </div>`;
+    const check = checkContrast(document.querySelector("p")!)!;
+    expect(check.background).toEqual([127.5, 127.5, 127.5, 1]);
+    expect(check.level).toBe("fail");
+    expect(describeContrastFailure(check)).toMatch(/^1\.\d\d:1 against rgb\(128, 128, 128\) fails WCAG AA \(4\.5:1/);
+  });
+
+  it("checks edited values in place of the page's", () => {
+    document.body.innerHTML = `<p style="color: rgb(0, 0, 0)">Hello</p>`;
+    const p = document.querySelector("p")!;
+    expect(checkContrast(p)!.level).toBe("AAA");
+    expect(checkContrast(p, { color: "#bbb" })!.level).toBe("fail");
+    expect(checkContrast(p, { backgroundColor: "#222" })!.level).toBe("fail");
+  });
+});
+
+describe("suggestPassingColor", () => {
+  it("moves lightness only as far as AA needs", () => {
+    const grey: Rgba = [170, 170, 170, 1];
+    const text = suggestPassingColor(grey, WHITE, 4.5)!;
+    expect(contrastRatio(text, WHITE)).toBeGreaterThanOrEqual(4.5);
+    expect(contrastRatio(text, WHITE)).toBeLessThan(4.7);
+
+    const background = suggestPassingColor(grey, WHITE, 4.5, "background")!;
+    expect(contrastRatio(WHITE, background)).toBeGreaterThanOrEqual(4.5);
+    expect(suggestPassingColor(grey, grey, 30)).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+// ── Contrast ───────────────────────────────────────
+//
+// WCAG 2 contrast for the text color and background controls. The
+// background behind an element is found by walking up from it and layering
+// each ancestor's background color until one is opaque; the page itself
+// counts as white. Background images can't be read, so a check that passed
+// one on the way up is only a guess and says so.
+
+import { oklchToRgb, type Rgba, rgbToOklch, toRgba } from "./color";
+
+export type ContrastLevel = "AAA" | "AA" | "fail";
+
+export interface ContrastCheck {
+  /** 1–21 */
+  ratio: number;
+  level: ContrastLevel;
+  /** Ratio AA asks of this text: 3 when large, 4.5 otherwise */
+  required: number;
+  /** Text color, over `background` when translucent */
+  foreground: Rgba;
+  /** Opaque color behind the text */
+  background: Rgba;
+  /** 24px and up, or 18.66px and up when bold */
+  large: boolean;
+  /** A background image sits between the element and `background` */
+  uncertain: boolean;
+}
+
+const WHITE: Rgba = [255, 255, 255, 1];
+
+const THRESHOLDS = {
+  normal: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+};
+
+// Steps of the lightness search; 0.5^20 is well below a visible difference
+const SEARCH_STEPS = 20;
+
+/** `top` painted over `bottom` */
+function composite(top: Rgba, bottom: Rgba): Rgba {
+  const a = top[3] + bottom[3] * (1 - top[3]);
+  if (a === 0) return [0, 0, 0, 0];
+  const mix = (i: number) => (top[i] * top[3] + bottom[i] * bottom[3] * (1 - top[3])) / a;
+  return [mix(0), mix(1), mix(2), a];
+}
+
+function relativeLuminance([r, g, b]: Rgba): number {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const n = c / 255;
+    return n <= 0.03928 ? n / 12.92 : ((n + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/** WCAG ratio of `fg` over the opaque `bg`, translucent text included. */
+export function contrastRatio(fg: Rgba, bg: Rgba): number {
+  const [l1, l2] = [relativeLuminance(composite(fg, bg)), relativeLuminance(bg)];
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/** `4.49:1`; rounded down so a ratio just short of a threshold doesn't read as meeting it */
+export function formatRatio(ratio: number): string {
+  return `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+}
+
+export function getContrastLevel(ratio: number, large: boolean): ContrastLevel {
+  const { AA, AAA } = THRESHOLDS[large ? "large" : "normal"];
+  return ratio >= AAA ? "AAA" : ratio >= AA ? "AA" : "fail";
+}
+
+/**
+ * The opaque color behind `el`. `ownBackground` stands in for the element's
+ * own background color, e.g. an edit that isn't showing in this state.
+ */
+export function getEffectiveBackground(
+  el: Element,
+  ownBackground?: string,
+): { color: Rgba; uncertain: boolean } {
+  // Layers from the element up, topmost first
+  const layers: Rgba[] = [];
+  let uncertain = false;
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const style = getComputedStyle(node);
+    const own = node === el && ownBackground ? toRgba(ownBackground) : null;
+    const color = own ?? toRgba(style.backgroundColor);
+    if (style.backgroundImage && style.backgroundImage !== "none") uncertain = true;
+    if (color && color[3] > 0) layers.push(color);
+    if (color && color[3] >= 1) break;
+  }
+  const color = layers.reduceRight((below, layer) => composite(layer, below), WHITE);
+  return { color: [color[0], color[1], color[2], 1], uncertain };
+}
+
+function isLargeText(style: CSSStyleDeclaration): boolean {
+  const size = parseFloat(style.fontSize);
+  if (isNaN(size)) return false;
+  const weight = style.fontWeight === "bold" ? 700 : parseInt(style.fontWeight, 10) || 400;
+  return size >= 24 || (size >= 18.66 && weight >= 700);
+}
+
+/**
+ * Contrast of the text in `el`, or null when it has none to read. `values`
+ * are the color and background to check in place of what the page computes;
+ * ones that can't be resolved here (custom properties) fall back to it.
+ */
+export function checkContrast(
+  el: Element,
+  values: { color?: string; backgroundColor?: string } = {},
+): ContrastCheck | null {
+  if (!el.isConnected || !el.textContent?.trim()) return null;
+  const style = getComputedStyle(el);
+  const foreground = (values.color && toRgba(values.color)) || toRgba(style.color);
+  if (!foreground) return null;
+  const { color: background, uncertain } = getEffectiveBackground(el, values.backgroundColor);
+  const large = isLargeText(style);
+  const ratio = contrastRatio(foreground, background);
+  return {
+    ratio,
+    level: getContrastLevel(ratio, large),
+    required: THRESHOLDS[large ? "large" : "normal"].AA,
+    foreground,
+    background,
+    large,
+    uncertain,
+  };
+}
+
+/**
+ * The color closest to `color` in lightness, with its chroma and hue, that
+ * reaches `target` against `against`: the text color over a background, or
+ * a background under text. Searched darker and lighter; null when neither
+ * gets there.
+ */
+export function suggestPassingColor(
+  color: Rgba,
+  against: Rgba,
+  target: number,
+  role: "foreground" | "background" = "foreground",
+): Rgba | null {
+  const [L, C, H] = rgbToOklch(color);
+  // Text keeps its alpha; a background is suggested opaque
+  const at = (l: number) => oklchToRgb(l, C, H, role === "foreground" ? color[3] : 1);
+  const passes = (candidate: Rgba) =>
+    role === "foreground"
+      ? contrastRatio(candidate, against) >= target
+      : contrastRatio(against, candidate) >= target;
+
+  const search = (end: number) => {
+    if (!passes(at(end))) return null;
+    // `near` fails, `far` passes; close in on where it starts to pass
+    let [near, far] = [L, end];
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+      const mid = (near + far) / 2;
+      if (passes(at(mid))) far = mid;
+      else near = mid;
+    }
+    return far;
+  };
+
+  const found = [search(0), search(1)].filter((l): l is number => l !== null);
+  if (found.length === 0) return null;
+  const best = found.reduce((a, b) => (Math.abs(a - L) <= Math.abs(b - L) ? a : b));
+  return at(best);
+}
+
+/** One line for a push whose colors fall below AA, e.g. for the agent. */
+export function describeContrastFailure(check: ContrastCheck): string | undefined {
+  if (check.level !== "fail") return undefined;
+  const [r, g, b] = check.background.map(Math.round);
+  return [
+    `${formatRatio(check.ratio)} against rgb(${r}, ${g}, ${b})`,
+    `fails WCAG AA (${check.required}:1 for ${check.large ? "large" : "normal"} text)`,
+    check.uncertain ? "— background image not counted" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
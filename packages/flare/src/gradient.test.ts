@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseBackgroundLayers,
+  parseGradient,
+  serializeBackgroundLayers,
+  serializeGradient,
+} from "./gradient";
+
+describe("parseGradient", () => {
+  it("reads side keywords and spreads unpositioned stops", () => {
+    const gradient = parseGradient(
+      "linear-gradient(to right top, rgb(255, 0, 0), rgba(0, 0, 255, 0.5), rgb(0, 128, 0))",
+    );
+    expect(gradient).toMatchObject({ kind: "linear", angle: 45 });
+    expect(gradient!.stops).toEqual([
+      { color: "rgb(255, 0, 0)", position: 0 },
+      { color: "rgba(0, 0, 255, 0.5)", position: 50 },
+      { color: "rgb(0, 128, 0)", position: 100 },
+    ]);
+  });
+
+  it("serializes radial and conic gradients back to CSS", () => {
+    const radial = parseGradient("radial-gradient(circle at 30% 40%, red 10%, blue 20% 60%)")!;
+    expect(radial.stops).toHaveLength(3);
+    expect(serializeGradient(radial)).toBe(
+      "radial-gradient(circle at 30% 40%, red 10%, blue 20%, blue 60%)",
+    );
+
+    const conic = parseGradient("repeating-conic-gradient(from 0.25turn, #fff 0%, #000 25%)")!;
+    expect(serializeGradient({ ...conic, angle: 45 })).toBe(
+      "repeating-conic-gradient(from 45deg, #fff 0%, #000 25%)",
+    );
+  });
+});
+
+describe("parseBackgroundLayers", () => {
+  it("keeps layers that aren't gradients", () => {
+    const value = 'linear-gradient(180deg, rgb(0, 0, 0) 0%, rgba(0, 0, 0, 0) 100%), url("hero.jpg")';
+    const layers = parseBackgroundLayers(value);
+    expect(layers.map((layer) => layer.type)).toEqual(["gradient", "other"]);
+    expect(serializeBackgroundLayers(layers)).toBe(value);
+    expect(serializeBackgroundLayers(parseBackgroundLayers("none"))).toBe("none");
+  });
+});
@@ -0,0 +1,176 @@
+// ── Gradients ──────────────────────────────────────
+//
+// `background-image` as a list of layers, gradients broken into a kind, an
+// angle and color stops for the gradient editor. Stops are kept in percent:
+// ones without a position (or positioned in other units) are spread out
+// between their neighbours the way CSS does, and transition hints are
+// dropped. Layers that aren't gradients, like `url()`, pass through as-is.
+
+import { splitTopLevel } from "./utils";
+
+export type GradientKind = "linear" | "radial" | "conic";
+
+export interface GradientStop {
+  color: string;
+  /** Percent along the gradient line */
+  position: number;
+}
+
+export interface Gradient {
+  kind: GradientKind;
+  repeating: boolean;
+  /** Degrees; the direction of a linear gradient, where a conic one starts */
+  angle: number;
+  /** Radial shape and size, e.g. `circle` or `ellipse farthest-corner`; "" for the default */
+  shape: string;
+  /** `at …` center of a radial or conic gradient; "" for the default */
+  position: string;
+  stops: GradientStop[];
+}
+
+export type BackgroundLayer =
+  | { type: "gradient"; gradient: Gradient }
+  | { type: "other"; value: string };
+
+const SIDE_ANGLES: Record<string, number> = {
+  top: 0,
+  "top right": 45,
+  right: 90,
+  "bottom right": 135,
+  bottom: 180,
+  "bottom left": 225,
+  left: 270,
+  "top left": 315,
+};
+
+/** `right top` as `top right`, the way SIDE_ANGLES spells it. */
+function sideKey(side: string) {
+  const words = side.split(/\s+/);
+  const vertical = words.find((w) => w === "top" || w === "bottom");
+  const horizontal = words.find((w) => w === "left" || w === "right");
+  return [vertical, horizontal].filter(Boolean).join(" ");
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function toDegrees(value: string) {
+  const n = parseFloat(value);
+  if (value.endsWith("grad")) return n * 0.9;
+  if (value.endsWith("rad")) return (n * 180) / Math.PI;
+  if (value.endsWith("turn")) return n * 360;
+  return n;
+}
+
+/** The color at the start of a stop and what's left after it. */
+function splitColor(stop: string): [string, string] {
+  const fn = stop.match(/^[\w-]+\(/);
+  if (fn) {
+    let depth = 0;
+    for (let i = 0; i < stop.length; i++) {
+      if (stop[i] === "(") depth++;
+      else if (stop[i] === ")" && --depth === 0) {
+        return [stop.slice(0, i + 1), stop.slice(i + 1).trim()];
+      }
+    }
+  }
+  const [color, ...rest] = stop.split(/\s+/);
+  return [color, rest.join(" ")];
+}
+
+function parseStops(args: string[]): GradientStop[] {
+  const raw: { color: string; position: number | null }[] = [];
+  for (const arg of args) {
+    // Transition hints are a bare position
+    if (/^[-\d.]/.test(arg)) continue;
+    const [color, rest] = splitColor(arg);
+    const positions = rest
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((p) => (p.endsWith("%") ? parseFloat(p) : null));
+    if (positions.length === 0) positions.push(null);
+    for (const position of positions) raw.push({ color, position });
+  }
+  if (raw.length === 0) return [];
+
+  // Unpositioned stops: first at 0, last at 100, the rest evenly in between
+  if (raw[0].position === null) raw[0].position = 0;
+  if (raw[raw.length - 1].position === null) raw[raw.length - 1].position = 100;
+  let last = 0;
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].position === null) continue;
+    const from = raw[last].position!;
+    const to = Math.max(raw[i].position!, from);
+    for (let j = last + 1; j < i; j++) {
+      raw[j].position = round(from + ((to - from) * (j - last)) / (i - last));
+    }
+    raw[i].position = to;
+    last = i;
+  }
+  return raw.map(({ color, position }) => ({ color, position: position! }));
+}
+
+export function parseGradient(value: string): Gradient | null {
+  const m = value.trim().match(/^(repeating-)?(linear|radial|conic)-gradient\(([\s\S]*)\)$/);
+  if (!m) return null;
+  const kind = m[2] as GradientKind;
+  const args = splitTopLevel(m[3]);
+  const gradient: Gradient = {
+    kind,
+    repeating: !!m[1],
+    angle: kind === "linear" ? 180 : 0,
+    shape: "",
+    position: "",
+    stops: [],
+  };
+
+  // The first argument configures the gradient unless it's a color stop
+  const config = args[0] ?? "";
+  if (/^(to\s|from\s|at\s|[-\d.]|circle|ellipse|closest|farthest)/.test(config)) {
+    args.shift();
+    const at = config.match(/(?:^|\s)at\s+(.*)$/);
+    if (at) gradient.position = at[1].trim();
+    const head = at ? config.slice(0, at.index).trim() : config;
+    if (kind === "linear") {
+      const side = head.match(/^to\s+(.*)$/);
+      gradient.angle = side ? (SIDE_ANGLES[sideKey(side[1])] ?? 180) : toDegrees(head);
+    } else if (kind === "conic") {
+      const from = head.match(/^from\s+(\S+)/);
+      if (from) gradient.angle = toDegrees(from[1]);
+    } else {
+      gradient.shape = head;
+    }
+  }
+
+  gradient.stops = parseStops(args);
+  return gradient.stops.length > 0 ? gradient : null;
+}
+
+export function serializeGradient(g: Gradient): string {
+  const config: string[] = [];
+  if (g.kind === "linear") config.push(`${round(g.angle)}deg`);
+  if (g.kind === "radial" && g.shape) config.push(g.shape);
+  if (g.kind === "conic" && g.angle) config.push(`from ${round(g.angle)}deg`);
+  if (g.kind !== "linear" && g.position) config.push(`at ${g.position}`);
+
+  const stops = [...g.stops]
+    .sort((a, b) => a.position - b.position)
+    .map((s) => `${s.color} ${round(s.position)}%`);
+  const args = config.length > 0 ? [config.join(" "), ...stops] : stops;
+  return `${g.repeating ? "repeating-" : ""}${g.kind}-gradient(${args.join(", ")})`;
+}
+
+export function parseBackgroundLayers(value: string): BackgroundLayer[] {
+  const v = value.trim();
+  if (!v || v === "none") return [];
+  return splitTopLevel(v).map((layer): BackgroundLayer => {
+    const gradient = parseGradient(layer);
+    return gradient ? { type: "gradient", gradient } : { type: "other", value: layer };
+  });
+}
+
+export function serializeBackgroundLayers(layers: BackgroundLayer[]): string {
+  if (layers.length === 0) return "none";
+  return layers
+    .map((layer) => (layer.type === "gradient" ? serializeGradient(layer.gradient) : layer.value))
+    .join(", ");
+}
@@ -0,0 +1,137 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { type AgentAckRequest, type AgentPushRequest, INBOX_FILE_ID_PATTERN } from "./bridge-types.js";
+import {
+  getOriginInboxPath,
+  getStoreRoot,
+  toTimestampFileName,
+} from "./inbox-path.js";
+
+export interface HistoryRecord {
+  /** Inbox file id: the pushed file's name without `.json` */
+  id: string;
+  receivedAt: string;
+  /** Id of the push this one re-sent, for `flare-dev replay` */
+  replayOf?: string;
+  payload: AgentPushRequest;
+  ack?: AgentAckRequest;
+}
+
+export interface HistoryEntry extends HistoryRecord {
+  /** `pending` while the inbox file is still waiting for the agent */
+  status: "pending" | "processed";
+  inboxPath: string;
+}
+
+// Oldest records beyond this are dropped, per origin
+const HISTORY_LIMIT = 200;
+const HISTORY_SUFFIX = "-history";
+
+function getOriginHistoryPath(origin: string, storeRoot: string) {
+  return getOriginInboxPath(origin, storeRoot) + HISTORY_SUFFIX;
+}
+
+function readRecord(filePath: string): HistoryRecord | null {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8")) as HistoryRecord;
+  } catch {
+    return null;
+  }
+}
+
+function writeRecord(historyPath: string, record: HistoryRecord) {
+  mkdirSync(historyPath, { recursive: true });
+  writeFileSync(join(historyPath, `${record.id}.json`), JSON.stringify(record, null, 2));
+}
+
+function pruneHistory(historyPath: string) {
+  const names = readdirSync(historyPath).filter((name) => name.endsWith(".json")).sort();
+  for (const name of names.slice(0, Math.max(0, names.length - HISTORY_LIMIT))) {
+    rmSync(join(historyPath, name), { force: true });
+  }
+}
+
+/** Keep a copy of a pushed inbox file that survives the agent deleting it. */
+export function recordPush(
+  filePath: string,
+  payload: AgentPushRequest,
+  options: { storeRoot?: string; replayOf?: string } = {},
+) {
+  const historyPath = getOriginHistoryPath(payload.origin, options.storeRoot ?? getStoreRoot());
+  writeRecord(historyPath, {
+    id: basename(filePath).replace(/\.json$/, ""),
+    receivedAt: new Date().toISOString(),
+    ...(options.replayOf ? { replayOf: options.replayOf } : {}),
+    payload,
+  });
+  pruneHistory(historyPath);
+}
+
+/** Attach an agent ack to the push it reports on, if that push is still in history. */
+export function recordAck(ack: AgentAckRequest, storeRoot = getStoreRoot()) {
+  if (!INBOX_FILE_ID_PATTERN.test(ack.id)) return;
+  const historyPath = getOriginHistoryPath(ack.origin, storeRoot);
+  const record = readRecord(join(historyPath, `${ack.id}.json`));
+  if (!record) return;
+  writeRecord(historyPath, { ...record, ack });
+}
+
+/** History for one origin, or every origin in the store, oldest first. */
+export function listHistory(
+  options: { storeRoot?: string; origin?: string } = {},
+): HistoryEntry[] {
+  const storeRoot = options.storeRoot ?? getStoreRoot();
+  const historyPaths = options.origin
+    ? [getOriginHistoryPath(options.origin, storeRoot)]
+    : existsSync(storeRoot)
+      ? readdirSync(storeRoot)
+          .filter((name) => name.endsWith(HISTORY_SUFFIX))
+          .map((name) => join(storeRoot, name))
+      : [];
+
+  const entries: HistoryEntry[] = [];
+  for (const historyPath of historyPaths) {
+    if (!existsSync(historyPath)) continue;
+    const inboxPath = historyPath.slice(0, -HISTORY_SUFFIX.length);
+    for (const name of readdirSync(historyPath).filter((n) => n.endsWith(".json"))) {
+      const record = readRecord(join(historyPath, name));
+      if (!record) continue;
+      entries.push({
+        ...record,
+        inboxPath,
+        status: existsSync(join(inboxPath, `${record.id}.json`)) ? "pending" : "processed",
+      });
+    }
+  }
+  return entries.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+}
+
+/**
+ * Write a past push back into its origin's inbox as a new file, so a
+ * watching agent picks it up again. Returns null when the id is unknown or
+ * isn't an inbox file id.
+ */
+export function replayPush(
+  id: string,
+  options: { storeRoot?: string; origin?: string } = {},
+) {
+  const normalizedId = id.replace(/\.json$/, "");
+  if (!INBOX_FILE_ID_PATTERN.test(normalizedId)) return null;
+  const entry = listHistory(options).find((item) => item.id === normalizedId);
+  if (!entry) return null;
+
+  mkdirSync(entry.inboxPath, { recursive: true });
+  const filePath = join(entry.inboxPath, toTimestampFileName(new Date().toISOString()));
+  writeFileSync(filePath, JSON.stringify(entry.payload, null, 2));
+  recordPush(filePath, entry.payload, {
+    storeRoot: options.storeRoot,
+    replayOf: entry.id,
+  });
+
+  return {
+    id: basename(filePath).replace(/\.json$/, ""),
+    replayOf: entry.id,
+    inboxPath: entry.inboxPath,
+    filePath,
+  };
+}
@@ -1,6 +1,7 @@
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { afterEach, describe, expect, it } from "vitest";
 import { useStyleEditor } from "./hooks";
+import { serializeElementChange, snapshotEntries } from "./utils";
 
 function createElement() {
   const el = document.createElement("div");
@@ -11,6 +12,7 @@ function createElement() {
 
 describe("useStyleEditor", () => {
   afterEach(() => {
+    document.head.innerHTML = "";
     document.body.innerHTML = "";
   });
 
@@ -88,4 +90,308 @@ describe("useStyleEditor", () => {
     expect(result.current.totalCommentCount).toBe(1);
     expect(result.current.totalChangeCount).toBe(1);
   });
+
+  it("reopens acknowledged changes the agent reported as failed", () => {
+    const el = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+    const submittedEntries = snapshotEntries(result.current.getAllChanges());
+
+    act(() => {
+      result.current.acknowledgeEntries(result.current.getAllChanges());
+    });
+    expect(result.current.totalChangeCount).toBe(0);
+
+    act(() => {
+      result.current.reopenEntries(submittedEntries);
+    });
+
+    expect(result.current.totalStyleChangeCount).toBe(1);
+    expect(result.current.getValue("color")).toBe("rgb(255, 0, 0)");
+    expect(result.current.original.color).toBe("rgb(0, 0, 0)");
+  });
+
+  it("reports token swaps for values declared with custom properties", () => {
+    const style = document.createElement("style");
+    style.textContent =
+      ":root { --brand: #ff0000; --accent: #0000ff; } [data-cta] { color: var(--brand); }";
+    document.head.appendChild(style);
+    const el = createElement();
+    el.removeAttribute("style");
+    el.setAttribute("data-cta", "");
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    expect(result.current.getToken("color")).toBe("--brand");
+
+    act(() => {
+      result.current.setValue("color", "var(--accent)");
+    });
+
+    expect(result.current.getToken("color")).toBe("--accent");
+    const [change] = serializeElementChange(result.current.getAllChanges()[0]).changes;
+    expect(change.before).toBe("var(--brand)");
+    expect(change.after).toBe("var(--accent)");
+  });
+
+  it("records edits made in a forced state separately from the resting state", () => {
+    const style = document.createElement("style");
+    style.textContent = "[data-cta]:hover { color: rgb(0, 128, 0); }";
+    document.head.appendChild(style);
+    const el = createElement();
+    el.setAttribute("data-cta", "");
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setState("hover");
+    });
+
+    expect(el.getAttribute("data-flare-state")).toBe("hover");
+    expect(result.current.getValue("color")).toBe("rgb(0, 128, 0)");
+
+    act(() => {
+      result.current.setValue("color", "rgb(0, 0, 255)");
+    });
+
+    expect(result.current.changedStates).toEqual(["hover"]);
+    const [entry] = result.current.getAllChanges();
+    expect(entry.state).toBe("hover");
+    expect(serializeElementChange(entry).state).toBe("hover");
+    expect(el.style.color).toBe("rgb(0, 0, 0)");
+
+    act(() => {
+      result.current.setState(null);
+    });
+
+    expect(el.hasAttribute("data-flare-state")).toBe(false);
+    expect(result.current.getValue("color")).toBe("rgb(0, 0, 0)");
+  });
+
+  it("records breakpoint edits under their media query", () => {
+    const el = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setBreakpoint({
+        name: "md",
+        minWidth: 768,
+        mediaQuery: "(min-width: 768px)",
+      });
+    });
+    act(() => {
+      result.current.setValue("color", "rgb(0, 0, 255)");
+    });
+
+    expect(el.style.color).toBe("rgb(0, 0, 0)");
+    expect(document.head.textContent).toContain("@media (min-width: 768px)");
+    expect(result.current.changedBreakpoints).toEqual(["(min-width: 768px)"]);
+
+    const change = serializeElementChange(result.current.getAllChanges()[0]);
+    expect(change.mediaQuery).toBe("(min-width: 768px)");
+    expect(change.breakpoint).toBe("md");
+
+    act(() => {
+      result.current.setBreakpoint(null);
+    });
+
+    expect(result.current.getValue("color")).toBe("rgb(0, 0, 0)");
+    expect(result.current.totalStyleChangeCount).toBe(1);
+  });
+
+  it("undoes and redoes edits, merging rapid edits to one property", () => {
+    const el = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+    act(() => {
+      result.current.setValue("color", "rgb(0, 0, 255)");
+    });
+    act(() => {
+      result.current.setComment("Match the brand blue");
+    });
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.comment).toBe("");
+    expect(result.current.getValue("color")).toBe("rgb(0, 0, 255)");
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.getValue("color")).toBe("rgb(0, 0, 0)");
+    expect(result.current.totalChangeCount).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.getValue("color")).toBe("rgb(0, 0, 255)");
+    expect(el.style.color).toBe("rgb(0, 0, 255)");
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it("undoes resets and forgets history once changes are pushed", () => {
+    const el = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+    act(() => {
+      result.current.resetCurrent();
+    });
+    expect(result.current.totalStyleChangeCount).toBe(0);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.totalStyleChangeCount).toBe(1);
+    expect(el.style.color).toBe("rgb(255, 0, 0)");
+
+    act(() => {
+      result.current.acknowledgeEntries(result.current.getAllChanges());
+    });
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("reviews changes on other elements and pushes only the included ones", () => {
+    const el = createElement();
+    const other = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+      result.current.setElementValue(other, "color", "rgb(0, 128, 0)");
+    });
+    act(() => {
+      result.current.setElementComment(other, "Softer green");
+    });
+
+    const otherEntry = result.current.getAllChanges().find((entry) => entry.el === other)!;
+    expect(otherEntry.comment).toBe("Softer green");
+
+    act(() => {
+      result.current.revertProperty(otherEntry, "color");
+    });
+    expect(other.style.color).not.toBe("rgb(0, 128, 0)");
+    expect(result.current.totalStyleChangeCount).toBe(1);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(other.style.color).toBe("rgb(0, 128, 0)");
+
+    act(() => {
+      result.current.setEntryIncluded(otherEntry, false);
+    });
+    expect(result.current.totalChangeCount).toBe(3);
+    expect(result.current.includedChangeCount).toBe(1);
+    expect(result.current.getIncludedChanges().map((entry) => entry.el)).toEqual([el]);
+
+    act(() => {
+      result.current.acknowledgeEntries(result.current.getIncludedChanges());
+    });
+    expect(result.current.getAllChanges().map((entry) => entry.el)).toEqual([other]);
+  });
+
+  it("edits every selected element as one grouped, undoable change", () => {
+    const first = createElement();
+    const second = createElement();
+    second.style.color = "rgb(0, 0, 255)";
+    const selection = [first, second];
+    const { result } = renderHook(() => useStyleEditor(first, { selection }));
+
+    expect(result.current.isMixed("color")).toBe(true);
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+    expect(second.style.color).toBe("rgb(255, 0, 0)");
+    expect(result.current.isMixed("color")).toBe(false);
+
+    const [a, b] = result.current.getAllChanges().map((entry) => serializeElementChange(entry));
+    expect(a.group).toBeDefined();
+    expect(b.group).toBe(a.group);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.totalChangeCount).toBe(0);
+    expect(second.style.color).not.toBe("rgb(255, 0, 0)");
+  });
+
+  it("previews component-scoped edits on every instance and pushes them once", () => {
+    const el = createElement();
+    const instance = createElement();
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setComponentScope({ name: "Card", instances: [el, instance] });
+    });
+    expect(result.current.componentScope?.instances).toEqual([instance]);
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+    expect(instance.style.color).toBe("rgb(255, 0, 0)");
+
+    const changes = result.current.getAllChanges();
+    expect(changes).toHaveLength(1);
+    expect(serializeElementChange(changes[0]).scope).toBe("component");
+
+    act(() => {
+      result.current.setComponentScope(null);
+    });
+    expect(instance.style.color).not.toBe("rgb(255, 0, 0)");
+    expect(el.style.color).toBe("rgb(255, 0, 0)");
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(instance.style.color).toBe("rgb(255, 0, 0)");
+  });
+
+  it("re-binds edits when the element is swapped for a fresh node", async () => {
+    const el = createElement();
+    el.textContent = "Buy now";
+    const { result } = renderHook(() => useStyleEditor(el));
+
+    act(() => {
+      result.current.setValue("color", "rgb(255, 0, 0)");
+    });
+
+    // What a hot reload or remount leaves behind: same markup, new node
+    const fresh = document.createElement("div");
+    fresh.textContent = "Buy now";
+    el.replaceWith(fresh);
+
+    await waitFor(() => expect(fresh.style.color).toBe("rgb(255, 0, 0)"));
+    const [entry] = result.current.getAllChanges();
+    expect(entry.el).toBe(fresh);
+    expect(entry.orphaned).toBeUndefined();
+
+    // A re-render that rewrites the style attribute
+    fresh.setAttribute("style", "color: rgb(0, 0, 0)");
+    await waitFor(() => expect(fresh.style.color).toBe("rgb(255, 0, 0)"));
+  });
+
+  it("flags edits whose element can't be found again as orphaned", async () => {
+    const el = createElement();
+    el.textContent = "Old banner";
+    const other = createElement();
+    const { result } = renderHook(() => useStyleEditor(other));
+
+    act(() => {
+      result.current.setElementValue(el, "color", "rgb(255, 0, 0)");
+    });
+    el.remove();
+
+    await waitFor(() => expect(result.current.getAllChanges()[0].orphaned).toBe(true));
+    expect(result.current.totalStyleChangeCount).toBe(1);
+  });
 });
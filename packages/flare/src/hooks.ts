@@ -1,6 +1,29 @@
 import { resolveElementInfo } from "element-source";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { FlareElementState } from "./bridge-types";
+import { type Breakpoint, getBreakpoints } from "./breakpoints";
+import { getPagePalette } from "./color";
+import { describeElement, type ElementLocator, relocateElement } from "./relocate";
 import {
+  ELEMENT_STATES,
+  type EditScope,
+  forceElementState,
+  getScopeKey,
+  removeScopedProperties,
+  restoreScopedEdits,
+  setScopedProperty,
+  withStateReleased,
+} from "./states";
+import {
+  type DesignToken,
+  getRootTokens,
+  getTokenName,
+  hasVarReference,
+  readDeclaredTokens,
+} from "./tokens";
+import { parseTransform, serializeTransform, type TransformParts } from "./transform";
+import {
+  type ComponentScope,
   type ElementEntry,
   type ElementInfo,
   formatSourceLocation,
@@ -138,9 +161,15 @@ import { createOverlaySet, identityTransform } from "./inspector";
 
 const BOX_TRANSITION = "top 0.06s, left 0.06s, width 0.06s, height 0.06s";
 
+function toggleInSelection(selection: Element[], el: Element) {
+  return selection.includes(el) ? selection.filter((item) => item !== el) : [...selection, el];
+}
+
 export function useInspector() {
   const [inspecting, setInspecting] = useState(false);
-  const [selectedEl, setSelectedEl] = useState<Element | null>(null);
+  // In the order they were picked; the panel shows the first
+  const [selectedEls, setSelectedEls] = useState<Element[]>([]);
+  const selectedEl = selectedEls[0] ?? null;
   const hoverSourceCacheRef = useRef(new WeakMap<Element, string | null>());
 
   useEffect(() => {
@@ -191,7 +220,12 @@ export function useInspector() {
       if (!target || isFlareElement(target)) return;
       e.preventDefault();
       e.stopPropagation();
-      setSelectedEl(target);
+      // Shift-click adds to the selection and keeps picking
+      if (e.shiftKey) {
+        setSelectedEls((prev) => toggleInSelection(prev, target));
+        return;
+      }
+      setSelectedEls([target]);
       setInspecting(false);
     };
 
@@ -217,10 +251,71 @@ export function useInspector() {
   const stopInspecting = useCallback(() => setInspecting(false), []);
 
   const selectElement = useCallback(
-    (el: Element | null) => setSelectedEl(el),
+    (el: Element | null) => setSelectedEls(el ? [el] : []),
+    [],
+  );
+
+  const selectElements = useCallback((els: Element[]) => setSelectedEls(els), []);
+
+  const toggleElement = useCallback(
+    (el: Element) => setSelectedEls((prev) => toggleInSelection(prev, el)),
     [],
   );
 
+  // Keep a selected element's place when it's swapped for a new node
+  const replaceElement = useCallback(
+    (el: Element, previous: Element) =>
+      setSelectedEls((prev) =>
+        prev.includes(previous) ? prev.map((item) => (item === previous ? el : item)) : prev,
+      ),
+    [],
+  );
+
+  // Outline each selected element while there's more than one
+  useEffect(() => {
+    if (selectedEls.length < 2) return;
+    const outlines = selectedEls.map(() => {
+      const div = document.createElement("div");
+      div.setAttribute("data-flare-overlay", "");
+      Object.assign(div.style, {
+        position: "fixed",
+        pointerEvents: "none",
+        zIndex: "2147483645",
+        border: "1.5px dashed rgba(100, 160, 255, 0.8)",
+        borderRadius: "2px",
+      });
+      document.body.appendChild(div);
+      return div;
+    });
+
+    let frame = 0;
+    const place = () => {
+      frame = 0;
+      selectedEls.forEach((el, i) => {
+        const rect = el.getBoundingClientRect();
+        Object.assign(outlines[i].style, {
+          top: `${rect.top}px`,
+          left: `${rect.left}px`,
+          width: `${rect.width}px`,
+          height: `${rect.height}px`,
+          display: el.isConnected ? "block" : "none",
+        });
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(place);
+    };
+    place();
+    window.addEventListener("scroll", schedule, true);
+    window.addEventListener("resize", schedule);
+    return () => {
+      window.removeEventListener("scroll", schedule, true);
+      window.removeEventListener("resize", schedule);
+      if (frame) cancelAnimationFrame(frame);
+      for (const outline of outlines) outline.remove();
+    };
+  }, [selectedEls]);
+
   // ── Breadcrumb hover highlight ──
   const hlRef = useRef<HTMLDivElement | null>(null);
 
@@ -260,9 +355,13 @@ export function useInspector() {
   return {
     inspecting,
     selectedEl,
+    selectedEls,
     startInspecting,
     stopInspecting,
     selectElement,
+    selectElements,
+    toggleElement,
+    replaceElement,
     highlightElement,
     clearHighlight,
   };
@@ -276,11 +375,16 @@ const TRACKED_PROPS = [
   "right",
   "bottom",
   "left",
+  "inset",
   "zIndex",
   "width",
   "height",
   "minWidth",
   "maxWidth",
+  "minHeight",
+  "maxHeight",
+  "aspectRatio",
+  "objectFit",
   "overflow",
   "flexDirection",
   "flexWrap",
@@ -306,6 +410,7 @@ const TRACKED_PROPS = [
   "textTransform",
   "fontStyle",
   "wordSpacing",
+  "textShadow",
   "color",
   "opacity",
   "borderRadius",
@@ -327,6 +432,15 @@ const TRACKED_PROPS = [
   "outlineColor",
   "outlineOffset",
   "boxShadow",
+  "backgroundImage",
+  "backgroundSize",
+  "backgroundPosition",
+  "backgroundRepeat",
+  "transform",
+  "transition",
+  "filter",
+  "backdropFilter",
+  "mixBlendMode",
   "paddingTop",
   "paddingRight",
   "paddingBottom",
@@ -432,20 +546,144 @@ async function resolveBestElementInfo(node: Element): Promise<ElementInfo> {
   return info;
 }
 
-export function useStyleEditor(selectedEl: Element | null) {
+interface StoreEntry {
+  overrides: Record<string, string>;
+  original: Record<string, string>;
+  declared: Record<string, string>;
+  sourceInfo: ElementInfo | null;
+  comment: string;
+  state?: FlareElementState;
+  breakpoint?: Breakpoint;
+  orphaned?: boolean;
+  group?: string;
+  component?: ComponentScope;
+}
+
+/** Where an entry's edits apply on the page */
+function toScope(entry: { state?: FlareElementState; breakpoint?: Breakpoint }): EditScope {
+  return { state: entry.state, mediaQuery: entry.breakpoint?.mediaQuery };
+}
+
+function hasEntryChanges(entry: StoreEntry) {
+  return Object.entries(entry.overrides).some(([p, v]) => v !== entry.original[p]);
+}
+
+// Component-scoped entries preview their values on every instance too
+function setEntryProperty(
+  el: Element,
+  entry: StoreEntry,
+  entryScope: EditScope,
+  prop: string,
+  value: string,
+) {
+  for (const target of [el, ...(entry.component?.instances ?? [])]) {
+    setScopedProperty(target, entryScope, prop, value);
+  }
+}
+
+function removeEntryProperties(
+  el: Element,
+  entry: StoreEntry,
+  entryScope: EditScope,
+  props: string[],
+) {
+  for (const target of [el, ...(entry.component?.instances ?? [])]) {
+    removeScopedProperties(target, entryScope, props);
+  }
+}
+
+// ── Undo history ───────────────────────────────────
+
+export interface HistoryOperation {
+  undo: () => void;
+  redo: () => void;
+  /** Back-to-back operations with the same target and key merge, e.g. while scrubbing */
+  merge?: { target: unknown; key: string };
+}
+
+interface RecordedOperation extends HistoryOperation {
+  at: number;
+}
+
+const HISTORY_MERGE_MS = 1000;
+const HISTORY_LIMIT = 200;
+
+/** An entry as it was at one point, or null when the element had none in `scope`. */
+interface EntrySnapshot {
+  el: Element;
+  scope: EditScope;
+  entry: StoreEntry | null;
+}
+
+function cloneEntry(entry: StoreEntry): StoreEntry {
+  return {
+    ...entry,
+    overrides: { ...entry.overrides },
+    original: { ...entry.original },
+    declared: { ...entry.declared },
+    ...(entry.component ? { component: { ...entry.component } } : {}),
+  };
+}
+
+// Quiet time after page mutations before edited elements are looked up again
+const RELOCATE_DELAY_MS = 100;
+
+export function useStyleEditor(
+  selectedEl: Element | null,
+  {
+    selection,
+    onRelocateSelected,
+  }: {
+    /** Every selected element, `selectedEl` included; edits apply to all of them */
+    selection?: Element[];
+    /** A selected element was swapped for a new node, e.g. by a hot reload */
+    onRelocateSelected?: (el: Element, previous: Element) => void;
+  } = {},
+) {
   const sourceCacheRef = useRef(new WeakMap<Element, ElementInfo | null>());
-  // Persistent store: accumulates changes for every edited element
-  const storeRef = useRef<
-    Map<
-      Element,
-      {
-        overrides: Record<string, string>;
-        original: Record<string, string>;
-        sourceInfo: ElementInfo | null;
-        comment: string;
-      }
-    >
-  >(new Map());
+  // Persistent store: accumulates changes for every edited element, per scope
+  const storesRef = useRef(new Map<string, Map<Element, StoreEntry>>());
+
+  const getStore = useCallback((scope: EditScope) => {
+    const key = getScopeKey(scope);
+    let store = storesRef.current.get(key);
+    if (!store) {
+      store = new Map();
+      storesRef.current.set(key, store);
+    }
+    return store;
+  }, []);
+
+  // Forced state, remembered for the element it was picked on
+  const [stateFor, setStateFor] = useState<{
+    el: Element | null;
+    state: FlareElementState | null;
+  }>({ el: null, state: null });
+  const state = stateFor.el === selectedEl ? stateFor.state : null;
+  const setState = useCallback(
+    (next: FlareElementState | null, el: Element | null = selectedEl) =>
+      setStateFor({ el, state: next }),
+    [selectedEl],
+  );
+
+  // Breakpoint edits are recorded under; stays put across selections
+  const [breakpoint, setBreakpoint] = useState<Breakpoint | null>(null);
+
+  const scope = useMemo(
+    () => toScope({ state: state ?? undefined, breakpoint: breakpoint ?? undefined }),
+    [breakpoint, state],
+  );
+
+  // The rest of a multi-selection, edited alongside `selectedEl`
+  const others = useMemo(
+    () => (selection ?? []).filter((el) => el !== selectedEl),
+    [selectedEl, selection],
+  );
+  // Shared by the entries one multi-selection edits, so a push reads as one intent
+  const groupId = useMemo(
+    () => (others.length > 0 ? Math.random().toString(36).slice(2, 8) : undefined),
+    [others],
+  );
 
   // Current element's state (drives re-renders)
   const [original, setOriginal] = useState<Record<string, string>>({});
@@ -454,64 +692,272 @@ export function useStyleEditor(selectedEl: Element | null) {
   // Bump to force re-render when allChanges changes
   const [revision, setRevision] = useState(0);
 
-  const ensureEntry = useCallback((el: Element) => {
-    const existing = storeRef.current.get(el);
-    if (existing) return existing;
+  const historyRef = useRef<{ past: RecordedOperation[]; future: RecordedOperation[] }>({
+    past: [],
+    future: [],
+  });
+  // Operations collected by `groupOperations`, recorded as one
+  const groupRef = useRef<RecordedOperation[] | null>(null);
+  // Set while undoing, redoing or inside `withoutHistory`
+  const historyPausedRef = useRef(false);
+
+  const recordOperation = useCallback((operation: HistoryOperation) => {
+    if (historyPausedRef.current) return;
+    const recorded = { ...operation, at: Date.now() };
+    if (groupRef.current) {
+      groupRef.current.push(recorded);
+      return;
+    }
 
-    const entry = {
-      overrides: {},
-      original: readComputedStyles(el),
-      sourceInfo: sourceCacheRef.current.get(el) ?? null,
-      comment: "",
-    };
-    storeRef.current.set(el, entry);
-    return entry;
+    const history = historyRef.current;
+    const last = history.past[history.past.length - 1];
+    if (
+      last &&
+      operation.merge &&
+      last.merge?.target === operation.merge.target &&
+      last.merge?.key === operation.merge.key &&
+      recorded.at - last.at < HISTORY_MERGE_MS
+    ) {
+      last.redo = operation.redo;
+      last.at = recorded.at;
+    } else {
+      history.past.push(recorded);
+      if (history.past.length > HISTORY_LIMIT) history.past.shift();
+    }
+    history.future = [];
+    setRevision((r) => r + 1);
   }, []);
 
-  // When element changes, save current and restore/init the new one
-  const prevElRef = useRef<Element | null>(null);
-  useEffect(() => {
-    // Save previous element's state
-    const prev = prevElRef.current;
-    if (prev && storeRef.current.has(prev)) {
-      const entry = storeRef.current.get(prev)!;
-      // Only keep if there are actual changes
-      const hasChanges = Object.entries(entry.overrides).some(
-        ([p, v]) => v !== entry.original[p],
-      );
-      if (!hasChanges && !entry.comment.trim()) storeRef.current.delete(prev);
+  /** Record every operation made while `run` runs as a single undo step. */
+  const groupOperations = useCallback(
+    (run: () => void) => {
+      if (groupRef.current) {
+        run();
+        return;
+      }
+      groupRef.current = [];
+      try {
+        run();
+      } finally {
+        const operations = groupRef.current;
+        groupRef.current = null;
+        const [first] = operations;
+        if (first) {
+          recordOperation({
+            undo: () => {
+              for (const operation of [...operations].reverse()) operation.undo();
+            },
+            redo: () => {
+              for (const operation of operations) operation.redo();
+            },
+            merge: first.merge && { target: first.merge.target, key: `group:${first.merge.key}` },
+          });
+        }
+      }
+    },
+    [recordOperation],
+  );
+
+  const clearHistory = useCallback(() => {
+    historyRef.current = { past: [], future: [] };
+    setRevision((r) => r + 1);
+  }, []);
+
+  const withoutHistory = useCallback((run: () => void) => {
+    const paused = historyPausedRef.current;
+    historyPausedRef.current = true;
+    try {
+      run();
+    } finally {
+      historyPausedRef.current = paused;
     }
-    prevElRef.current = selectedEl;
+  }, []);
 
+  // How to find each edited element again, and what replaced the ones
+  // that were swapped out
+  const locatorsRef = useRef(new WeakMap<Element, ElementLocator>());
+  const relocatedRef = useRef(new WeakMap<Element, Element>());
+  const observeDocumentRef = useRef<(doc: Document) => void>(() => {});
+
+  const getLocator = useCallback((el: Element) => locatorsRef.current.get(el), []);
+
+  const resolveElement = useCallback((el: Element) => {
+    let current = el;
+    for (let next = relocatedRef.current.get(current); next; next = relocatedRef.current.get(next)) {
+      current = next;
+    }
+    return current;
+  }, []);
+
+  const ensureEntry = useCallback(
+    (
+      el: Element,
+      entryState: FlareElementState | null = null,
+      entryBreakpoint: Breakpoint | null = null,
+    ) => {
+      const entryScope = toScope({
+        state: entryState ?? undefined,
+        breakpoint: entryBreakpoint ?? undefined,
+      });
+      const store = getStore(entryScope);
+      const existing = store.get(el);
+      if (existing) return existing;
+
+      // Values outside a state are read with any forced state lifted
+      const entry: StoreEntry = {
+        overrides: {},
+        original: entryState
+          ? readComputedStyles(el)
+          : withStateReleased(el, () => readComputedStyles(el)),
+        declared: entryState ? {} : readDeclaredTokens(el, TRACKED_PROPS),
+        sourceInfo: sourceCacheRef.current.get(el) ?? null,
+        comment: "",
+        ...(entryState ? { state: entryState } : {}),
+        ...(entryBreakpoint ? { breakpoint: entryBreakpoint } : {}),
+      };
+      store.set(el, entry);
+      if (el.isConnected && !locatorsRef.current.has(el)) {
+        locatorsRef.current.set(el, describeElement(el, entry.sourceInfo));
+      }
+      observeDocumentRef.current(el.ownerDocument);
+      return entry;
+    },
+    [getStore],
+  );
+
+  // Refresh the editor's view of the selected element in the current scope
+  const syncSelected = useCallback(() => {
     if (!selectedEl) {
       setOriginal({});
       setOverrides({});
       setCommentState("");
       return;
     }
+    const entry = ensureEntry(selectedEl, state, breakpoint);
+    setOriginal({ ...entry.original });
+    setOverrides(entry.overrides);
+    setCommentState(getStore({}).get(selectedEl)?.comment ?? "");
+  }, [breakpoint, ensureEntry, getStore, selectedEl, state]);
+
+  const captureEntries = useCallback(
+    (targets: { el: Element; scope: EditScope }[]): EntrySnapshot[] =>
+      targets.map(({ el, scope: targetScope }) => {
+        const entry = getStore(targetScope).get(el);
+        return { el, scope: targetScope, entry: entry ? cloneEntry(entry) : null };
+      }),
+    [getStore],
+  );
 
-    // Restore existing or init new
-    const existing = storeRef.current.get(selectedEl);
-    if (existing) {
-      setOriginal(existing.original);
-      setOverrides(existing.overrides);
-      setCommentState(existing.comment);
-    } else {
-      const entry = ensureEntry(selectedEl);
-      setOriginal(entry.original);
-      setOverrides({});
-      setCommentState("");
+  const restoreEntries = useCallback(
+    (snapshots: EntrySnapshot[]) => {
+      for (const snapshot of snapshots) {
+        const { scope: entryScope, entry } = snapshot;
+        const el = resolveElement(snapshot.el);
+        const store = getStore(entryScope);
+        const current = store.get(el);
+        if (current) {
+          // Instances leaving component scope lose every preview
+          const kept = new Set(entry?.component?.instances ?? []);
+          for (const instance of current.component?.instances ?? []) {
+            if (kept.has(instance)) continue;
+            removeScopedProperties(instance, entryScope, Object.keys(current.overrides));
+          }
+          const stale = Object.keys(current.overrides).filter(
+            (prop) => !entry || !(prop in entry.overrides),
+          );
+          if (stale.length > 0) removeEntryProperties(el, current, entryScope, stale);
+        }
+        for (const [prop, value] of Object.entries(entry?.overrides ?? {})) {
+          setEntryProperty(el, entry!, entryScope, prop, value);
+        }
+        if (entry) store.set(el, cloneEntry(entry));
+        else store.delete(el);
+      }
+    },
+    [getStore, resolveElement],
+  );
+
+  // Run `mutate` as one undoable step over the entries it touches
+  const trackEntries = useCallback(
+    (
+      targets: { el: Element; scope: EditScope }[],
+      mutate: () => void,
+      merge?: HistoryOperation["merge"],
+    ) => {
+      const before = captureEntries(targets);
+      mutate();
+      const after = captureEntries(targets);
+      recordOperation({
+        undo: () => restoreEntries(before),
+        redo: () => restoreEntries(after),
+        merge,
+      });
+    },
+    [captureEntries, recordOperation, restoreEntries],
+  );
+
+  const undo = useCallback(() => {
+    const operation = historyRef.current.past.pop();
+    if (!operation) return false;
+    withoutHistory(operation.undo);
+    historyRef.current.future.push(operation);
+    syncSelected();
+    setRevision((r) => r + 1);
+    return true;
+  }, [syncSelected, withoutHistory]);
+
+  const redo = useCallback(() => {
+    const operation = historyRef.current.future.pop();
+    if (!operation) return false;
+    withoutHistory(operation.redo);
+    historyRef.current.past.push(operation);
+    syncSelected();
+    setRevision((r) => r + 1);
+    return true;
+  }, [syncSelected, withoutHistory]);
+
+  // Show the selected elements in their forced state while editing them
+  useEffect(() => {
+    if (!selectedEl || !state) return;
+    ensureEntry(selectedEl);
+    const forced = [selectedEl, ...others];
+    for (const el of forced) forceElementState(el, state);
+    return () => {
+      for (const el of forced) forceElementState(el, null);
+    };
+  }, [ensureEntry, others, selectedEl, state]);
+
+  // When element or scope changes, drop the previous element's empty entries
+  // and restore/init the new one
+  const prevElRef = useRef<Element | null>(null);
+  useEffect(() => {
+    const prev = prevElRef.current;
+    if (prev && prev !== selectedEl) {
+      for (const store of storesRef.current.values()) {
+        const entry = store.get(prev);
+        // Only keep if there are actual changes
+        if (entry && !hasEntryChanges(entry) && !entry.comment.trim()) store.delete(prev);
+      }
     }
-  }, [ensureEntry, selectedEl]);
+    prevElRef.current = selectedEl;
+    syncSelected();
+  }, [selectedEl, syncSelected]);
 
   const setElementSourceInfo = useCallback(
     (el: Element, sourceInfo: ElementInfo | null) => {
       sourceCacheRef.current.set(el, sourceInfo);
-      const entry = storeRef.current.get(el);
-      if (entry) {
+      const locator = locatorsRef.current.get(el);
+      if (locator && sourceInfo?.source) {
+        locator.source = formatSourceLocation(sourceInfo.source);
+      }
+      let found = false;
+      for (const store of storesRef.current.values()) {
+        const entry = store.get(el);
+        if (!entry) continue;
         entry.sourceInfo = sourceInfo;
-        setRevision((r) => r + 1);
+        found = true;
       }
+      if (found) setRevision((r) => r + 1);
     },
     [],
   );
@@ -521,42 +967,184 @@ export function useStyleEditor(selectedEl: Element | null) {
     [overrides, original],
   );
 
+  // Custom property behind the current value, e.g. `--color-primary`
+  const getToken = useCallback(
+    (prop: string) => {
+      void revision;
+      if (prop in overrides) return getTokenName(overrides[prop]);
+      const entry = selectedEl ? getStore(scope).get(selectedEl) : undefined;
+      return getTokenName(entry?.declared[prop]);
+    },
+    [getStore, overrides, revision, scope, selectedEl],
+  );
+
+  // Edit any element in the current scope, e.g. its copy in another canvas frame
+  const setElementValue = useCallback(
+    (el: Element, prop: CSSProp, value: string, group?: string) => {
+      if (!("style" in el)) return;
+      trackEntries(
+        [{ el, scope }],
+        () => {
+          const entry = ensureEntry(el, state, breakpoint);
+          entry.overrides = { ...entry.overrides, [prop]: value };
+          if (group) entry.group = group;
+          setEntryProperty(el, entry, scope, prop, value);
+          if (el === selectedEl) setOverrides(entry.overrides);
+        },
+        { target: el, key: `${getScopeKey(scope)}:${prop}` },
+      );
+      setRevision((r) => r + 1);
+    },
+    [breakpoint, ensureEntry, scope, selectedEl, state, trackEntries],
+  );
+
   const setValue = useCallback(
     (prop: CSSProp, value: string) => {
-      if (!selectedEl || !("style" in selectedEl)) return;
-      (selectedEl as HTMLElement).style.setProperty(toKebab(prop), value, "important");
-      setOverrides((prev) => {
-        const next = { ...prev, [prop]: value };
-        // Sync to persistent store
-        const entry = ensureEntry(selectedEl);
-        entry.overrides = next;
-        return next;
+      if (!selectedEl) return;
+      if (others.length === 0) {
+        setElementValue(selectedEl, prop, value);
+        return;
+      }
+      groupOperations(() => {
+        for (const el of [selectedEl, ...others]) setElementValue(el, prop, value, groupId);
       });
+    },
+    [groupId, groupOperations, others, selectedEl, setElementValue],
+  );
+
+  // Whether the rest of the selection shows something other than `getValue`
+  const isMixed = useCallback(
+    (prop: string) => {
+      void revision;
+      const value = getValue(prop);
+      return others.some((el) => {
+        const entry = getStore(scope).get(el);
+        const current =
+          entry?.overrides[prop] ??
+          entry?.original[prop] ??
+          getComputedStyle(el).getPropertyValue(toKebab(prop));
+        return current !== value;
+      });
+    },
+    [getStore, getValue, others, revision, scope],
+  );
+
+  // Comments describe the element as a whole, so they live on the resting entry
+  const setElementComment = useCallback(
+    (el: Element, value: string) => {
+      const nextComment = value.trim();
+      if (el === selectedEl) setCommentState(nextComment);
+      trackEntries(
+        [{ el, scope: {} }],
+        () => {
+          const entry = ensureEntry(el);
+          entry.comment = nextComment;
+          if (el !== selectedEl && !hasEntryChanges(entry) && !nextComment) {
+            getStore({}).delete(el);
+          }
+        },
+        { target: el, key: "comment" },
+      );
       setRevision((r) => r + 1);
     },
-    [ensureEntry, selectedEl],
+    [ensureEntry, getStore, selectedEl, trackEntries],
   );
 
   const setComment = useCallback(
     (value: string) => {
+      if (selectedEl) setElementComment(selectedEl, value);
+    },
+    [selectedEl, setElementComment],
+  );
+
+  // Edit every instance of the selected element's component in the current
+  // scope, or just the element again when `component` is null
+  const setComponentScope = useCallback(
+    (component: ComponentScope | null) => {
       if (!selectedEl) return;
-      const nextComment = value.trim();
-      setCommentState(nextComment);
-      const entry = ensureEntry(selectedEl);
-      entry.comment = nextComment;
+      if (!component && !getStore(scope).get(selectedEl)?.component) return;
+      trackEntries([{ el: selectedEl, scope }], () => {
+        const entry = ensureEntry(selectedEl, state, breakpoint);
+        const props = Object.keys(entry.overrides);
+        for (const instance of entry.component?.instances ?? []) {
+          removeScopedProperties(instance, scope, props);
+        }
+        if (component) {
+          entry.component = {
+            ...component,
+            instances: component.instances.filter((instance) => instance !== selectedEl),
+          };
+          for (const [prop, value] of Object.entries(entry.overrides)) {
+            setEntryProperty(selectedEl, entry, scope, prop, value);
+          }
+        } else {
+          delete entry.component;
+        }
+      });
       setRevision((r) => r + 1);
     },
-    [ensureEntry, selectedEl],
+    [breakpoint, ensureEntry, getStore, scope, selectedEl, state, trackEntries],
   );
 
+  const componentScope = (() => {
+    void revision;
+    return selectedEl ? (getStore(scope).get(selectedEl)?.component ?? null) : null;
+  })();
+
+  // Put one property of an entry back to its original value
+  const revertProperty = useCallback(
+    (target: ElementEntry, prop: string) => {
+      const entryScope = toScope(target);
+      const store = getStore(entryScope);
+      if (!(prop in (store.get(target.el)?.overrides ?? {}))) return;
+      trackEntries([{ el: target.el, scope: entryScope }], () => {
+        const entry = store.get(target.el)!;
+        const { [prop]: _reverted, ...overrides } = entry.overrides;
+        entry.overrides = overrides;
+        removeEntryProperties(target.el, entry, entryScope, [prop]);
+        if (target.el !== selectedEl && !hasEntryChanges(entry) && !entry.comment.trim()) {
+          store.delete(target.el);
+        }
+      });
+      syncSelected();
+      setRevision((r) => r + 1);
+    },
+    [getStore, selectedEl, syncSelected, trackEntries],
+  );
+
+  // Entries left out of the next push, by element and scope key. They stay
+  // on the page and in the change list until included again.
+  const excludedRef = useRef(new Map<Element, Set<string>>());
+
+  const isEntryIncluded = useCallback(
+    (entry: ElementEntry) => {
+      void revision;
+      return !excludedRef.current.get(entry.el)?.has(getScopeKey(toScope(entry)));
+    },
+    [revision],
+  );
+
+  const setEntryIncluded = useCallback((entry: ElementEntry, included: boolean) => {
+    const key = getScopeKey(toScope(entry));
+    const excluded = excludedRef.current.get(entry.el) ?? new Set<string>();
+    if (included) excluded.delete(key);
+    else excluded.add(key);
+    if (excluded.size > 0) excludedRef.current.set(entry.el, excluded);
+    else excludedRef.current.delete(entry.el);
+    setRevision((r) => r + 1);
+  }, []);
+
   const acknowledgeEntries = useCallback((submittedEntries: ElementEntry[]) => {
     for (const submittedEntry of submittedEntries) {
-      const currentEntry = storeRef.current.get(submittedEntry.el);
+      const store = getStore(toScope(submittedEntry));
+      const currentEntry = store.get(submittedEntry.el);
       if (!currentEntry) continue;
 
       for (const [prop, submittedValue] of Object.entries(submittedEntry.overrides)) {
         if (currentEntry.overrides[prop] !== submittedValue) continue;
         currentEntry.original[prop] = submittedValue;
+        if (hasVarReference(submittedValue)) currentEntry.declared[prop] = submittedValue;
+        else delete currentEntry.declared[prop];
         delete currentEntry.overrides[prop];
       }
 
@@ -567,140 +1155,267 @@ export function useStyleEditor(selectedEl: Element | null) {
         currentEntry.comment = "";
       }
 
-      const hasRemainingOverrides = Object.entries(currentEntry.overrides).some(
-        ([prop, value]) => value !== currentEntry.original[prop],
-      );
-
-      if (!hasRemainingOverrides && !currentEntry.comment.trim()) {
-        storeRef.current.delete(submittedEntry.el);
+      if (!hasEntryChanges(currentEntry) && !currentEntry.comment.trim()) {
+        store.delete(submittedEntry.el);
       }
     }
 
-    if (selectedEl) {
-      const entry = storeRef.current.get(selectedEl);
-      if (entry) {
-        setOriginal(entry.original);
-        setOverrides(entry.overrides);
-      } else {
-        const nextEntry = ensureEntry(selectedEl);
-        setOriginal(nextEntry.original);
-        setOverrides({});
+    // Pushed values are the new baseline; stepping back past them would
+    // only diverge from the source the agent is editing
+    clearHistory();
+    syncSelected();
+    setRevision((r) => r + 1);
+  }, [clearHistory, getStore, syncSelected]);
+
+  // Undo an acknowledgement for changes the agent couldn't apply. Values
+  // edited since the push are left alone.
+  const reopenEntries = useCallback((failedEntries: ElementEntry[]) => {
+    for (const failedEntry of failedEntries) {
+      const entry = ensureEntry(
+        failedEntry.el,
+        failedEntry.state ?? null,
+        failedEntry.breakpoint ?? null,
+      );
+      const overrides: Record<string, string> = { ...entry.overrides };
+      if (failedEntry.component && !entry.component) entry.component = failedEntry.component;
+
+      for (const [prop, value] of Object.entries(failedEntry.overrides)) {
+        if (prop in overrides || failedEntry.original[prop] === value) continue;
+        setEntryProperty(failedEntry.el, entry, toScope(failedEntry), prop, value);
+        overrides[prop] = value;
+        entry.original[prop] = failedEntry.original[prop];
+        if (failedEntry.declared?.[prop]) entry.declared[prop] = failedEntry.declared[prop];
+      }
+      entry.overrides = overrides;
+
+      if (failedEntry.comment?.trim() && !entry.comment.trim()) {
+        entry.comment = failedEntry.comment.trim();
       }
-    } else {
-      setOriginal({});
-      setOverrides({});
     }
 
-    const selectedEntry = selectedEl ? storeRef.current.get(selectedEl) : null;
-    setCommentState(selectedEntry?.comment ?? "");
+    syncSelected();
     setRevision((r) => r + 1);
-  }, [ensureEntry, selectedEl]);
+  }, [ensureEntry, syncSelected]);
 
-  // Reset only the current element's changes
+  // Reset only the selected elements' changes, in every scope
   const resetCurrent = useCallback(() => {
     if (!selectedEl || !("style" in selectedEl)) return;
-    for (const prop of Object.keys(overrides) as CSSProp[]) {
-      (selectedEl as HTMLElement).style.removeProperty(toKebab(prop));
-    }
-    storeRef.current.delete(selectedEl);
-    const orig = readComputedStyles(selectedEl);
-    storeRef.current.set(selectedEl, {
-      overrides: {},
-      original: orig,
-      sourceInfo: sourceCacheRef.current.get(selectedEl) ?? null,
-      comment: "",
+    const targets = [...storesRef.current.values()].flatMap((store) =>
+      [selectedEl, ...others].flatMap((el) => {
+        const entry = store.get(el);
+        return entry ? [{ el, scope: toScope(entry) }] : [];
+      }),
+    );
+    trackEntries(targets, () => {
+      for (const { el, scope: entryScope } of targets) {
+        const store = getStore(entryScope);
+        const entry = store.get(el);
+        if (entry) removeEntryProperties(el, entry, entryScope, Object.keys(entry.overrides));
+        store.delete(el);
+      }
     });
-    setOverrides({});
-    setOriginal(orig);
-    setCommentState("");
+    syncSelected();
     setRevision((r) => r + 1);
-  }, [selectedEl, overrides]);
+  }, [getStore, others, selectedEl, syncSelected, trackEntries]);
 
   // Reset a specific set of element entries (e.g. per-frame in canvas)
   const resetEntries = useCallback((entries: ElementEntry[]) => {
-    for (const entry of entries) {
-      const el = entry.el;
-      if ("style" in el) {
-        for (const prop of Object.keys(entry.overrides) as CSSProp[]) {
-          (el as HTMLElement).style.removeProperty(toKebab(prop));
-        }
-      }
-      storeRef.current.delete(el);
-    }
-    if (selectedEl) {
-      const stored = storeRef.current.get(selectedEl);
-      if (stored) {
-        setOriginal(stored.original);
-        setOverrides(stored.overrides);
-        setCommentState(stored.comment);
-      } else {
-        setOverrides({});
-        setOriginal(readComputedStyles(selectedEl));
-        setCommentState("");
+    const targets = entries.map((entry) => ({ el: entry.el, scope: toScope(entry) }));
+    trackEntries(targets, () => {
+      for (const entry of entries) {
+        const store = getStore(toScope(entry));
+        const current = store.get(entry.el);
+        if (current) removeEntryProperties(entry.el, current, toScope(entry), Object.keys(entry.overrides));
+        store.delete(entry.el);
       }
-    }
+    });
+    syncSelected();
     setRevision((r) => r + 1);
-  }, [selectedEl]);
+  }, [getStore, syncSelected, trackEntries]);
 
   // Reset ALL accumulated changes across every element
   const resetAll = useCallback(() => {
-    for (const [el, entry] of storeRef.current.entries()) {
-      if ("style" in el) {
-        for (const prop of Object.keys(entry.overrides) as CSSProp[]) {
-          (el as HTMLElement).style.removeProperty(toKebab(prop));
+    const targets = [...storesRef.current.values()].flatMap((store) =>
+      [...store.entries()].map(([el, entry]) => ({ el, scope: toScope(entry) })),
+    );
+    trackEntries(targets, () => {
+      for (const store of storesRef.current.values()) {
+        for (const [el, entry] of store.entries()) {
+          removeEntryProperties(el, entry, toScope(entry), Object.keys(entry.overrides));
         }
+        store.clear();
       }
+    });
+    syncSelected();
+    setRevision((r) => r + 1);
+  }, [syncSelected, trackEntries]);
+
+  // ── Re-binding after page mutations ──
+  const selectionRef = useRef([selectedEl, ...others]);
+  selectionRef.current = [selectedEl, ...others];
+  const onRelocateSelectedRef = useRef(onRelocateSelected);
+  onRelocateSelectedRef.current = onRelocateSelected;
+
+  // Hand `from`'s entries, in every scope, over to its replacement `to`
+  const moveEntries = useCallback(
+    (from: Element, to: Element) => {
+      for (const store of storesRef.current.values()) {
+        const entry = store.get(from);
+        if (!entry) continue;
+        const entryScope = toScope(entry);
+        removeScopedProperties(from, entryScope, Object.keys(entry.overrides));
+        for (const [prop, value] of Object.entries(entry.overrides)) {
+          setScopedProperty(to, entryScope, prop, value);
+        }
+        delete entry.orphaned;
+        if (entry.component) {
+          entry.component = {
+            ...entry.component,
+            instances: entry.component.instances.filter(
+              (instance) => instance !== to && instance.isConnected,
+            ),
+          };
+        }
+        store.delete(from);
+        store.set(to, entry);
+      }
+      relocatedRef.current.set(from, to);
+      sourceCacheRef.current.set(to, sourceCacheRef.current.get(from) ?? null);
+      const locator = locatorsRef.current.get(from);
+      locatorsRef.current.set(to, { ...describeElement(to), source: locator?.source ?? null });
+      const excluded = excludedRef.current.get(from);
+      if (excluded) {
+        excludedRef.current.delete(from);
+        excludedRef.current.set(to, excluded);
+      }
+      if (selectionRef.current.includes(from)) onRelocateSelectedRef.current?.(to, from);
+    },
+    [],
+  );
+
+  const relocatingRef = useRef<Promise<void> | null>(null);
+  const relocateEntries = useCallback(async () => {
+    for (const doc of observersRef.current.keys()) {
+      if (doc.defaultView) restoreScopedEdits(doc);
     }
-    storeRef.current.clear();
-    if (selectedEl) {
-      const orig = readComputedStyles(selectedEl);
-      storeRef.current.set(selectedEl, {
-        overrides: {},
-        original: orig,
-        sourceInfo: sourceCacheRef.current.get(selectedEl) ?? null,
-        comment: "",
-      });
-      setOriginal(orig);
+
+    const stores = [...storesRef.current.values()];
+    const lost = new Set(stores.flatMap((store) => [...store.keys()]).filter((el) => !el.isConnected));
+    const isTaken = (el: Element) => stores.some((store) => store.has(el));
+    let changed = false;
+    for (const el of lost) {
+      const locator = locatorsRef.current.get(el);
+      const doc = el.ownerDocument;
+      const next = locator && doc.defaultView ? await relocateElement(doc, locator, isTaken) : null;
+      // Entries may have been reset while the source was being resolved
+      if (!stores.some((store) => store.has(el))) continue;
+      if (next && !next.isConnected) continue;
+      if (next) {
+        moveEntries(el, next);
+        changed = true;
+        continue;
+      }
+      for (const store of stores) {
+        const entry = store.get(el);
+        if (!entry || entry.orphaned) continue;
+        entry.orphaned = true;
+        changed = true;
+      }
     }
-    setOverrides({});
-    setCommentState("");
-    setRevision((r) => r + 1);
-  }, [selectedEl]);
+    if (changed) {
+      syncSelected();
+      setRevision((r) => r + 1);
+    }
+  }, [moveEntries, syncSelected]);
+
+  // Latest relocation lives in a ref so observers outlast re-renders
+  const relocateRef = useRef(relocateEntries);
+  relocateRef.current = relocateEntries;
+  const observersRef = useRef(new Map<Document, MutationObserver>());
+  const relocateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  observeDocumentRef.current = (doc: Document) => {
+    if (observersRef.current.has(doc) || !doc.body) return;
+    const observer = new MutationObserver(() => {
+      if (relocateTimerRef.current) clearTimeout(relocateTimerRef.current);
+      relocateTimerRef.current = setTimeout(() => {
+        relocateTimerRef.current = null;
+        // One pass at a time; a pass that finds nothing new is cheap
+        relocatingRef.current = (relocatingRef.current ?? Promise.resolve())
+          .then(() => relocateRef.current())
+          .catch(() => {});
+      }, RELOCATE_DELAY_MS);
+    });
+    observer.observe(doc.body, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ["style"],
+    });
+    observer.observe(doc.head, { childList: true });
+    observersRef.current.set(doc, observer);
+  };
+
+  useEffect(() => {
+    const observers = observersRef.current;
+    for (const store of storesRef.current.values()) {
+      for (const el of store.keys()) observeDocumentRef.current(el.ownerDocument);
+    }
+    return () => {
+      for (const observer of observers.values()) observer.disconnect();
+      observers.clear();
+      if (relocateTimerRef.current) clearTimeout(relocateTimerRef.current);
+    };
+  }, []);
 
-  // Collect all elements that have actual changes
+  // Collect all elements that have actual changes, one entry per scope
   const getAllChanges = useCallback((): ElementEntry[] => {
     void revision; // depend on revision for reactivity
     const entries: ElementEntry[] = [];
-    for (const [
-      el,
-      { overrides: ov, original: orig, sourceInfo, comment },
-    ] of storeRef.current.entries()) {
-      const realChanges = Object.entries(ov).filter(([p, v]) => v !== orig[p]);
-      if (realChanges.length > 0 || comment.trim()) {
-        entries.push({ el, overrides: ov, original: orig, sourceInfo, comment });
+    for (const store of storesRef.current.values()) {
+      for (const [el, entry] of store.entries()) {
+        const { overrides: ov, original: orig, comment } = entry;
+        const realChanges = Object.entries(ov).filter(([p, v]) => v !== orig[p]);
+        if (realChanges.length > 0 || comment.trim()) {
+          entries.push({ el, ...entry });
+        }
       }
     }
     return entries;
   }, [revision]);
 
+  const getIncludedChanges = useCallback(
+    () => getAllChanges().filter(isEntryIncluded),
+    [getAllChanges, isEntryIncluded],
+  );
+
+  const allEntries = () => [...storesRef.current.values()].flatMap((store) => [...store.values()]);
+
   // Total change count across all elements
   const totalChangeCount = (() => {
     void revision;
     let count = 0;
-    for (const [
-      ,
-      { overrides: ov, original: orig, comment },
-    ] of storeRef.current.entries()) {
+    for (const { overrides: ov, original: orig, comment } of allEntries()) {
       count += Object.entries(ov).filter(([p, v]) => v !== orig[p]).length;
       if (comment.trim()) count += 1;
     }
     return count;
   })();
 
+  // Changes going out with the next push
+  const includedChangeCount = (() => {
+    let count = 0;
+    for (const { overrides: ov, original: orig, comment } of getIncludedChanges()) {
+      count += Object.entries(ov).filter(([p, v]) => v !== orig[p]).length;
+      if (comment?.trim()) count += 1;
+    }
+    return count;
+  })();
+
   const totalStyleChangeCount = (() => {
     void revision;
     let count = 0;
-    for (const [, { overrides: ov, original: orig }] of storeRef.current.entries()) {
+    for (const { overrides: ov, original: orig } of allEntries()) {
       count += Object.entries(ov).filter(([p, v]) => v !== orig[p]).length;
     }
     return count;
@@ -709,21 +1424,70 @@ export function useStyleEditor(selectedEl: Element | null) {
   const totalCommentCount = (() => {
     void revision;
     let count = 0;
-    for (const [, { comment }] of storeRef.current.entries()) {
+    for (const { comment } of allEntries()) {
       if (comment.trim()) count += 1;
     }
     return count;
   })();
 
+  // Scopes the selected element has edits in, for the state and breakpoint bars
+  const selectedEntries = (() => {
+    void revision;
+    if (!selectedEl) return [];
+    return [...storesRef.current.values()].flatMap((store) => {
+      const entry = store.get(selectedEl);
+      return entry && hasEntryChanges(entry) ? [entry] : [];
+    });
+  })();
+  const changedStates = ELEMENT_STATES.filter((s) =>
+    selectedEntries.some(
+      (entry) => entry.state === s && entry.breakpoint?.mediaQuery === breakpoint?.mediaQuery,
+    ),
+  );
+  const changedBreakpoints = selectedEntries.flatMap((entry) =>
+    entry.breakpoint ? [entry.breakpoint.mediaQuery] : [],
+  );
+
+  const { canUndo, canRedo } = (() => {
+    void revision;
+    const { past, future } = historyRef.current;
+    return { canUndo: past.length > 0, canRedo: future.length > 0 };
+  })();
+
   return {
     acknowledgeEntries,
+    breakpoint,
+    canRedo,
+    canUndo,
+    changedBreakpoints,
+    changedStates,
+    clearHistory,
     comment,
+    componentScope,
+    getIncludedChanges,
+    getLocator,
+    getToken,
     getValue,
+    groupOperations,
+    includedChangeCount,
+    isEntryIncluded,
+    isMixed,
+    recordOperation,
+    redo,
+    revertProperty,
+    setBreakpoint,
     setValue,
     setComment,
+    setComponentScope,
+    setElementComment,
     setElementSourceInfo,
+    setElementValue,
+    setEntryIncluded,
+    setState,
+    state,
     overrides,
     original,
+    reopenEntries,
     resetCurrent,
     resetEntries,
     resetAll,
@@ -731,9 +1495,212 @@ export function useStyleEditor(selectedEl: Element | null) {
     totalChangeCount,
     totalCommentCount,
     totalStyleChangeCount,
+    undo,
+    withoutHistory,
   };
 }
 
+/**
+ * Cmd/Ctrl+Z and Shift+Cmd/Ctrl+Z (or Ctrl+Y) step through the editor's
+ * history. Text fields keep their own undo.
+ */
+export function useUndoShortcuts(
+  editor: { undo: () => boolean; redo: () => boolean },
+  active: boolean,
+) {
+  const { undo, redo } = editor;
+
+  useEffect(() => {
+    if (!active) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const target = e.composedPath()[0] as HTMLElement | undefined;
+      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || target?.isContentEditable) {
+        return;
+      }
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) redo();
+      else undo();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [active, redo, undo]);
+}
+
+// ── Transform Handles ──────────────────────────────
+
+const HANDLE_COLOR = "rgba(100, 160, 255, 0.9)";
+
+/**
+ * Handles over `el` on its page while `active`: drag the frame to translate,
+ * the knob above it to rotate (Shift snaps to 15°) and the corner to scale.
+ */
+export function useTransformHandles(
+  el: Element | null,
+  active: boolean,
+  value: string,
+  onChange: (value: string) => void,
+) {
+  // Drags read the latest value without re-creating the handles
+  const latestRef = useRef({ value, onChange });
+  latestRef.current = { value, onChange };
+
+  useEffect(() => {
+    if (!el || !active) return;
+    const doc = el.ownerDocument;
+
+    const make = (style: Partial<CSSStyleDeclaration>) => {
+      const div = doc.createElement("div");
+      div.setAttribute("data-flare-overlay", "");
+      Object.assign(div.style, { position: "fixed", zIndex: "2147483645", boxSizing: "border-box" }, style);
+      doc.body.appendChild(div);
+      return div;
+    };
+    const knob = (cursor: string) =>
+      make({
+        width: "10px",
+        height: "10px",
+        borderRadius: "50%",
+        background: "#fff",
+        border: `1.5px solid ${HANDLE_COLOR}`,
+        cursor,
+      });
+    const frame = make({ border: `1.5px solid ${HANDLE_COLOR}`, cursor: "move" });
+    const rotateKnob = knob("grab");
+    const scaleKnob = knob("nwse-resize");
+
+    let raf = 0;
+    const place = () => {
+      const rect = el.getBoundingClientRect();
+      const display = el.isConnected ? "block" : "none";
+      Object.assign(frame.style, {
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        display,
+      });
+      Object.assign(rotateKnob.style, {
+        top: `${rect.top - 24}px`,
+        left: `${rect.left + rect.width / 2 - 5}px`,
+        display,
+      });
+      Object.assign(scaleKnob.style, {
+        top: `${rect.bottom - 5}px`,
+        left: `${rect.right - 5}px`,
+        display,
+      });
+      raf = requestAnimationFrame(place);
+    };
+    place();
+
+    let endDrag: (() => void) | null = null;
+    const startDrag = (mode: "move" | "rotate" | "scale") => (e: PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      let start = parseTransform(latestRef.current.value);
+      // Drags are in pixels; start from the computed offset if it's in another unit
+      if (!/px$/.test(start.translateX) || !/px$/.test(start.translateY)) {
+        const computed = parseTransform(getComputedStyle(el).transform);
+        start = { ...start, translateX: computed.translateX, translateY: computed.translateY };
+      }
+      const rect = el.getBoundingClientRect();
+      const cx = rect.left + rect.width / 2;
+      const cy = rect.top + rect.height / 2;
+      const angleTo = (x: number, y: number) => (Math.atan2(y - cy, x - cx) * 180) / Math.PI;
+      const startAngle = angleTo(e.clientX, e.clientY);
+      const startDistance = Math.hypot(e.clientX - cx, e.clientY - cy) || 1;
+
+      const onMove = (ev: PointerEvent) => {
+        let next: TransformParts;
+        if (mode === "move") {
+          const offset = (length: string, delta: number) =>
+            `${Math.round(parseFloat(length) + delta)}px`;
+          next = {
+            ...start,
+            translateX: offset(start.translateX, ev.clientX - e.clientX),
+            translateY: offset(start.translateY, ev.clientY - e.clientY),
+          };
+        } else if (mode === "rotate") {
+          const rotate = start.rotate + angleTo(ev.clientX, ev.clientY) - startAngle;
+          next = { ...start, rotate: ev.shiftKey ? Math.round(rotate / 15) * 15 : Math.round(rotate) };
+        } else {
+          const factor = Math.hypot(ev.clientX - cx, ev.clientY - cy) / startDistance;
+          next = { ...start, scaleX: start.scaleX * factor, scaleY: start.scaleY * factor };
+        }
+        latestRef.current.onChange(serializeTransform(next));
+      };
+      const onUp = () => endDrag?.();
+      endDrag = () => {
+        endDrag = null;
+        doc.removeEventListener("pointermove", onMove);
+        doc.removeEventListener("pointerup", onUp);
+      };
+      doc.addEventListener("pointermove", onMove);
+      doc.addEventListener("pointerup", onUp);
+    };
+
+    frame.addEventListener("pointerdown", startDrag("move"));
+    rotateKnob.addEventListener("pointerdown", startDrag("rotate"));
+    scaleKnob.addEventListener("pointerdown", startDrag("scale"));
+
+    return () => {
+      endDrag?.();
+      cancelAnimationFrame(raf);
+      frame.remove();
+      rotateKnob.remove();
+      scaleKnob.remove();
+    };
+  }, [el, active]);
+}
+
+// ── Design Tokens ──────────────────────────────────
+
+/** Custom properties on the selected element's document root, for the token picker. */
+export function useRootTokens(selectedEl: Element | null): DesignToken[] {
+  // Re-read per selection so stylesheets swapped by HMR are picked up
+  return useMemo(
+    () => (selectedEl ? getRootTokens(selectedEl.ownerDocument) : []),
+    [selectedEl],
+  );
+}
+
+/**
+ * Reads the colors used on the selected element's page, once per selection
+ * and only when a picker asks for them.
+ */
+export function usePagePalette(selectedEl: Element | null): () => string[] {
+  return useMemo(() => {
+    let palette: string[] | null = null;
+    return () => {
+      if (!palette) palette = selectedEl ? getPagePalette(selectedEl.ownerDocument) : [];
+      return palette;
+    };
+  }, [selectedEl]);
+}
+
+// ── Breakpoints ────────────────────────────────────
+
+/** The project's breakpoints and the width of the selected element's viewport. */
+export function useBreakpoints(selectedEl: Element | null) {
+  const doc = selectedEl?.ownerDocument ?? null;
+  const breakpoints = useMemo(() => (doc ? getBreakpoints(doc) : []), [doc]);
+  const [viewportWidth, setViewportWidth] = useState(() => doc?.defaultView?.innerWidth ?? 0);
+
+  useEffect(() => {
+    const win = doc?.defaultView;
+    if (!win) return;
+    const update = () => setViewportWidth(win.innerWidth);
+    update();
+    win.addEventListener("resize", update);
+    return () => win.removeEventListener("resize", update);
+  }, [doc]);
+
+  return { breakpoints, viewportWidth };
+}
+
 // ── Font Detection ─────────────────────────────────
 const WEB_SAFE_FONTS = [
   "Arial",
@@ -1,18 +1,86 @@
 import { createHash } from "node:crypto";
-import { join } from "node:path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
 import { tmpdir } from "node:os";
 
+/** Per-session files (bridge tokens) that shouldn't outlive a reboot */
 export const BRIDGE_TMP_ROOT = join(tmpdir(), "flare-dev");
 
-function sanitizeSlug(input: string) {
+/**
+ * Durable store for inboxes, outboxes and history: `.flare/` in the working
+ * directory unless `FLARE_STORE` points elsewhere. CLI commands other than
+ * `bridge` prefer the running bridge's store (see `readBridgeStoreRoot`).
+ */
+export function getStoreRoot() {
+  return resolve(process.env.FLARE_STORE || ".flare");
+}
+
+// Saved canvases are meant to be shared, so only they stay visible to git
+const STORE_GITIGNORE = "*\n!canvas/\n!canvas/*.json\n";
+const LEGACY_STORE_GITIGNORE = "*\n";
+
+/** Create the store, ignoring it in git so pushes never end up committed. */
+export function ensureStoreRoot(storeRoot = getStoreRoot()) {
+  mkdirSync(storeRoot, { recursive: true });
+  const gitignorePath = join(storeRoot, ".gitignore");
+  if (!existsSync(gitignorePath) || readFileSync(gitignorePath, "utf8") === LEGACY_STORE_GITIGNORE) {
+    writeFileSync(gitignorePath, STORE_GITIGNORE);
+  }
+}
+
+/** Folder of saved canvas documents, e.g. `.flare/canvas`. */
+export function getCanvasRoot(storeRoot = getStoreRoot()) {
+  return join(storeRoot, "canvas");
+}
+
+/** File a canvas saved under `name` lives in. */
+export function getCanvasPath(name: string, storeRoot = getStoreRoot()) {
+  return join(getCanvasRoot(storeRoot), `${sanitizeSlug(name, "canvas")}.json`);
+}
+
+let _fileSeq = 0;
+/** Sortable, unique inbox file name for a point in time. */
+export function toTimestampFileName(isoString: string) {
+  return `${isoString.replace(/[:.]/g, "-")}-${_fileSeq++}.json`;
+}
+
+/** File holding the running bridge's session token, one per port. */
+export function getBridgeTokenPath(port: number) {
+  return join(BRIDGE_TMP_ROOT, `bridge-${port}.token`);
+}
+
+/** Read the token a bridge on `port` wrote at startup, or null if none is running. */
+export function readBridgeToken(port: number): string | null {
+  try {
+    return readFileSync(getBridgeTokenPath(port), "utf8").trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** File naming the store a running bridge uses, one per port. */
+export function getBridgeStorePath(port: number) {
+  return join(BRIDGE_TMP_ROOT, `bridge-${port}.store`);
+}
+
+/** Store of the bridge on `port`, so commands run from another folder find its inboxes. */
+export function readBridgeStoreRoot(port: number): string | null {
+  try {
+    return readFileSync(getBridgeStorePath(port), "utf8").trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeSlug(input: string, fallback = "project") {
   return input
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-+|-+$/g, "")
-    .slice(0, 40) || "project";
+    .slice(0, 40) || fallback;
 }
 
-export function getOriginInboxPath(origin: string) {
+export function getOriginInboxPath(origin: string, storeRoot = getStoreRoot()) {
   let normalized = origin.trim();
   try {
     normalized = new URL(origin).origin;
@@ -25,5 +93,5 @@ export function getOriginInboxPath(origin: string) {
       .replace(/:/g, "-"),
   );
   const hash = createHash("sha256").update(normalized).digest("hex").slice(0, 12);
-  return join(BRIDGE_TMP_ROOT, `${slug}-${hash}`);
+  return join(storeRoot, `${slug}-${hash}`);
 }
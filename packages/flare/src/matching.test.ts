@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { findComponentInstances, findComponentMatches } from "./matching";
+
+vi.mock("element-source", () => ({
+  resolveSource: async (el: Element) =>
+    el.closest(".grid")
+      ? { filePath: "src/Card.tsx", lineNumber: 4, columnNumber: 5 }
+      : { filePath: "src/App.tsx", lineNumber: 1, columnNumber: 1 },
+  resolveComponentName: async () => "Card",
+}));
+
+// More same-tag elements ahead of the cards than are compared at once
+const filler = "<div></div>".repeat(400);
+
+describe("findComponentMatches", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("finds every instance on a large page", async () => {
+    document.body.innerHTML = `${filler}<section class="grid">${'<div class="card"></div>'.repeat(3)}</section>`;
+    const [card, ...others] = Array.from(document.querySelectorAll(".card"));
+    const { elements, partial } = await findComponentMatches(card);
+    expect(elements).toEqual([card, ...others]);
+    expect(partial).toBe(false);
+  });
+
+  it("says so when there are too many look-alikes to check them all", async () => {
+    document.body.innerHTML = `<section class="grid">${'<div class="card"></div>'.repeat(320)}</section>`;
+    const card = document.querySelector(".card")!;
+    const result = await findComponentMatches(card);
+    expect(result.partial).toBe(true);
+
+    const { name, instances, partial } = await findComponentInstances(card);
+    expect(name).toBe("Card");
+    expect(instances).toEqual(result.elements);
+    expect(partial).toBe(true);
+  });
+});
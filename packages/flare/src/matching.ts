@@ -0,0 +1,119 @@
+// ── Matching elements ──────────────────────────────
+//
+// "Select all matching" widens a selection to the elements that share the
+// selected one's classes, or that render from the same place in source,
+// i.e. every instance of the same component part.
+
+import { resolveComponentName } from "element-source";
+import { getSourceLocation } from "./relocate";
+import { isFlareElement } from "./utils";
+
+// Candidates whose source is resolved, at most
+const MAX_SOURCE_CANDIDATES = 300;
+
+export type MatchKind = "selector" | "component";
+
+export interface MatchResult {
+  /** Matching elements, `el` first */
+  elements: Element[];
+  /** Some candidates went unchecked on a large page, so more may match */
+  partial: boolean;
+}
+
+export function getClassList(el: Element) {
+  return typeof el.className === "string" ? el.className.trim().split(/\s+/).filter(Boolean) : [];
+}
+
+function getCandidates(el: Element) {
+  return Array.from(el.ownerDocument.getElementsByTagName(el.tagName)).filter(
+    (candidate) => candidate !== el && !isFlareElement(candidate),
+  );
+}
+
+/** Elements of the same tag carrying every class `el` has, `el` first. */
+export function findSelectorMatches(el: Element): Element[] {
+  const classes = getClassList(el);
+  if (classes.length === 0) return [el];
+  return [
+    el,
+    ...getCandidates(el).filter((candidate) =>
+      classes.every((name) => candidate.classList.contains(name)),
+    ),
+  ];
+}
+
+function describeParent(el: Element) {
+  return el.parentElement ? [el.parentElement.tagName, ...getClassList(el.parentElement)].join(".") : null;
+}
+
+/**
+ * Same-tag elements whose source is worth resolving. On a large page only
+ * those sharing a class or the kind of parent with `el` are, since copies
+ * of one component part almost always do.
+ */
+function getSourceCandidates(el: Element) {
+  const candidates = getCandidates(el);
+  if (candidates.length <= MAX_SOURCE_CANDIDATES) return { candidates, partial: false };
+  const classes = getClassList(el);
+  const parent = describeParent(el);
+  const narrowed = candidates.filter(
+    (candidate) =>
+      classes.some((name) => candidate.classList.contains(name)) ||
+      (parent !== null && describeParent(candidate) === parent),
+  );
+  return {
+    candidates: narrowed.slice(0, MAX_SOURCE_CANDIDATES),
+    partial: narrowed.length > MAX_SOURCE_CANDIDATES,
+  };
+}
+
+async function findBySource(el: Element, source: string): Promise<MatchResult> {
+  const { candidates, partial } = getSourceCandidates(el);
+  const sources = await Promise.all(candidates.map(getSourceLocation));
+  return { elements: [el, ...candidates.filter((_, i) => sources[i] === source)], partial };
+}
+
+/** Elements of the same tag rendered from the same source location as `el`. */
+export async function findComponentMatches(el: Element): Promise<MatchResult> {
+  const source = await getSourceLocation(el);
+  return source ? findBySource(el, source) : { elements: [el], partial: false };
+}
+
+async function getComponentName(el: Element) {
+  try {
+    return await resolveComponentName(el);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every rendered instance of the component part `el` is, `el` first: the
+ * elements from the same source location or, when that can't be resolved,
+ * the ones with the same tag and classes inside a component of the same name.
+ */
+export async function findComponentInstances(
+  el: Element,
+): Promise<{ name: string | null; instances: Element[]; partial: boolean }> {
+  const [name, source] = await Promise.all([getComponentName(el), getSourceLocation(el)]);
+  if (source) {
+    const { elements, partial } = await findBySource(el, source);
+    return { name, instances: elements, partial };
+  }
+  if (!name) return { name, instances: [el], partial: false };
+
+  const matches = findSelectorMatches(el).slice(1);
+  const candidates = matches.slice(0, MAX_SOURCE_CANDIDATES);
+  const names = await Promise.all(candidates.map(getComponentName));
+  return {
+    name,
+    instances: [el, ...candidates.filter((_, i) => names[i] === name)],
+    partial: matches.length > MAX_SOURCE_CANDIDATES,
+  };
+}
+
+export function findMatchingElements(el: Element, kind: MatchKind): Promise<MatchResult> {
+  return kind === "selector"
+    ? Promise.resolve({ elements: findSelectorMatches(el), partial: false })
+    : findComponentMatches(el);
+}
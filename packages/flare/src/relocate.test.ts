@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type ElementLocator, relocateElement } from "./relocate";
+
+vi.mock("element-source", () => ({
+  resolveSource: async (el: Element) =>
+    el.closest(".grid")
+      ? { filePath: "src/Card.tsx", lineNumber: 4, columnNumber: 5 }
+      : { filePath: "src/App.tsx", lineNumber: 1, columnNumber: 1 },
+}));
+
+function locator(overrides: Partial<ElementLocator>): ElementLocator {
+  return {
+    flareId: '[data-flare-id="gone"]',
+    selector: "div.card.featured",
+    tagName: "DIV",
+    text: "",
+    classes: ["card"],
+    parentSelector: "section.grid",
+    source: "src/Card.tsx:4:5",
+    ...overrides,
+  };
+}
+
+describe("relocateElement", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  // More same-tag elements ahead of it than one pool compares
+  const page = `${"<div></div>".repeat(60)}<section class="grid"><div class="card"></div></section>`;
+
+  it("compares sources among elements sharing the classes, wherever they are", async () => {
+    document.body.innerHTML = page;
+    expect(await relocateElement(document, locator({}))).toBe(document.querySelector(".card"));
+  });
+
+  it("falls back to the parent when the classes changed too", async () => {
+    document.body.innerHTML = page;
+    const found = await relocateElement(document, locator({ classes: ["tile"] }));
+    expect(found).toBe(document.querySelector(".card"));
+  });
+});
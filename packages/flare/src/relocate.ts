@@ -0,0 +1,117 @@
+// ── Re-locating edited elements ────────────────────
+//
+// Hot reloads and React remounts swap edited nodes for fresh copies. A
+// locator is captured while an element is on the page, and used to find its
+// replacement: by `data-flare-id`, then a unique selector, then text, with
+// the resolved source location as the tie-breaker.
+
+import { resolveSource } from "element-source";
+import {
+  formatSourceLocation,
+  getCssSelector,
+  getFlareId,
+  getTextSnippet,
+  isFlareElement,
+  type ElementInfo,
+} from "./utils";
+
+export interface ElementLocator {
+  /** `[data-flare-id="…"]` stamped on the element */
+  flareId: string;
+  selector: string;
+  tagName: string;
+  text: string;
+  classes: string[];
+  /** Selector of the element's parent, "" for the root */
+  parentSelector: string;
+  /** `file:line:column` of the element in source, once resolved */
+  source: string | null;
+}
+
+// Candidates whose source is compared in one pool, at most
+const MAX_SOURCE_CANDIDATES = 50;
+
+export function describeElement(el: Element, sourceInfo?: ElementInfo | null): ElementLocator {
+  return {
+    flareId: getFlareId(el),
+    selector: getCssSelector(el),
+    tagName: el.tagName,
+    text: getTextSnippet(el),
+    classes: Array.from(el.classList),
+    parentSelector: el.parentElement ? getCssSelector(el.parentElement) : "",
+    source: sourceInfo?.source ? formatSourceLocation(sourceInfo.source) : null,
+  };
+}
+
+function queryAll(doc: Document, selector: string) {
+  try {
+    return Array.from(doc.querySelectorAll(selector));
+  } catch {
+    return [];
+  }
+}
+
+/** `file:line:column` `el` renders from, or "" when it can't be resolved. */
+export async function getSourceLocation(el: Element) {
+  try {
+    return formatSourceLocation(await resolveSource(el));
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * The element on the page that `locator` was taken from, or null when none
+ * matches unambiguously. Elements `isTaken` returns true for are skipped,
+ * e.g. ones that already carry edits of their own.
+ */
+export async function relocateElement(
+  doc: Document,
+  locator: ElementLocator,
+  isTaken: (el: Element) => boolean = () => false,
+): Promise<Element | null> {
+  const available = (el: Element) =>
+    el.tagName === locator.tagName && el.isConnected && !isFlareElement(el) && !isTaken(el);
+
+  const [stamped] = queryAll(doc, locator.flareId).filter(available);
+  if (stamped) return stamped;
+
+  const bySelector = queryAll(doc, locator.selector).filter(available);
+  const selected = bySelector.length === 1 ? bySelector[0] : null;
+  if (selected && (!locator.text || getTextSnippet(selected) === locator.text)) return selected;
+
+  const candidates = Array.from(doc.getElementsByTagName(locator.tagName)).filter(available);
+  const byText = locator.text
+    ? candidates.filter((el) => getTextSnippet(el) === locator.text)
+    : [];
+  if (byText.length === 1) return byText[0];
+
+  // Text changed or repeats; the source location tells copies apart. It's
+  // compared within what still shares something with the element, narrowest
+  // first, so the copy is found wherever it sits on the page
+  if (locator.source) {
+    const parents = new Set(queryAll(doc, locator.parentSelector));
+    const pools = [
+      byText,
+      bySelector,
+      locator.classes.length > 0
+        ? candidates.filter((el) => locator.classes.every((name) => el.classList.contains(name)))
+        : [],
+      candidates.filter((el) => el.parentElement !== null && parents.has(el.parentElement)),
+      candidates.slice(0, MAX_SOURCE_CANDIDATES),
+    ];
+    const sources = new Map<Element, Promise<string>>();
+    const sourceOf = (el: Element) => {
+      if (!sources.has(el)) sources.set(el, getSourceLocation(el));
+      return sources.get(el)!;
+    };
+    for (const pool of pools) {
+      if (pool.length === 0 || pool.length > MAX_SOURCE_CANDIDATES) continue;
+      const poolSources = await Promise.all(pool.map(sourceOf));
+      const bySource = pool.filter((_, i) => poolSources[i] === locator.source);
+      if (bySource.length === 1) return bySource[0];
+    }
+  }
+
+  return selected;
+}
@@ -15,6 +15,7 @@ import { execFileSync } from "node:child_process";
 import { readFileSync, writeFileSync, unlinkSync } from "node:fs";
 import { join, resolve, isAbsolute } from "node:path";
 import http from "node:http";
+import { SCHEMA_VERSION } from "./bridge-types.js";
 
 /** Scan a file for `export function Variant*` declarations */
 function discoverExports(source: string): string[] {
@@ -63,13 +64,19 @@ function parseVariants(output: string): { name: string; html: string }[] {
 function postToBridge(
   host: string,
   port: number,
+  token: string | null,
   path: string,
   body: unknown,
 ): Promise<{ ok: boolean; status: number; body: string }> {
   const data = JSON.stringify(body);
+  const headers: Record<string, string | number> = {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(data),
+  };
+  if (token) headers["X-Flare-Token"] = token;
   return new Promise((resolve, reject) => {
     const req = http.request(
-      { hostname: host, port, path, method: "POST", headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(data) } },
+      { hostname: host, port, path, method: "POST", headers },
       (res) => {
         let buf = "";
         res.on("data", (chunk: string) => { buf += chunk; });
@@ -88,6 +95,7 @@ export interface SendOptions {
   requestId: string;
   bridgeHost?: string;
   bridgePort?: number;
+  bridgeToken?: string | null;
 }
 
 export async function render(filePath: string, send?: SendOptions): Promise<void> {
@@ -151,7 +159,8 @@ export async function render(filePath: string, send?: SendOptions): Promise<void
 
   for (const variant of variants) {
     try {
-      const result = await postToBridge(host, port, "/api/agent/respond", {
+      const result = await postToBridge(host, port, send.bridgeToken ?? null, "/api/agent/respond", {
+        schemaVersion: SCHEMA_VERSION,
         origin: send.origin,
         selector: send.selector,
         outerHTML: variant.html,
@@ -0,0 +1,377 @@
+// ── Forced states and scoped edits ─────────────────
+//
+// Pseudo-classes can't be forced from script, so a forced state is simulated:
+// page rules for the state (e.g. `.btn:hover`) are mirrored into an injected
+// stylesheet that targets the element while it carries `data-flare-state`.
+// Edits scoped to a state or a media query live in the same stylesheet.
+// Unscoped edits stay inline, unless a scoped edit or mirrored rule touches
+// the same property — an inline `!important` would win over both.
+
+import type { FlareElementState } from "./bridge-types";
+import { collectStyleRules, FLARE_STYLESHEET_ATTR, splitSelectorList } from "./cascade";
+
+export const ELEMENT_STATES: readonly FlareElementState[] = [
+  "hover",
+  "focus",
+  "active",
+  "disabled",
+];
+
+/** Where an edit applies; an empty scope is the element's resting style. */
+export interface EditScope {
+  state?: FlareElementState;
+  mediaQuery?: string;
+}
+
+const TARGET_ATTR = "data-flare-target";
+const FORCED_ATTR = "data-flare-state";
+
+// What counts as each state in page selectors
+const STATE_PATTERNS: Record<FlareElementState, RegExp> = {
+  hover: /:hover(?![\w-])/g,
+  focus: /:focus(?:-visible)?(?![\w-])/g,
+  active: /:active(?![\w-])/g,
+  disabled: /:disabled(?![\w-])|\[disabled\]|\[aria-disabled=["']?true["']?\]/g,
+};
+
+const STATE_PSEUDOS: Record<FlareElementState, string> = {
+  hover: ":hover",
+  focus: ":focus",
+  active: ":active",
+  disabled: ":disabled",
+};
+
+interface ForcedState {
+  el: Element;
+  state: FlareElementState;
+  /** Declaration blocks of the page rules mirrored for the state */
+  mirrored: string[];
+  addedDisabled: boolean;
+}
+
+interface ScopedEdits {
+  scope: EditScope;
+  values: Record<string, string>;
+}
+
+interface DocumentStates {
+  style: HTMLStyleElement;
+  forced: ForcedState | null;
+  /** Edits per element, keyed by `getScopeKey` */
+  edits: Map<Element, Map<string, ScopedEdits>>;
+  /** Declarations last written inline, per element (kebab-case) */
+  inline: Map<Element, Record<string, string>>;
+}
+
+const documents = new WeakMap<Document, DocumentStates>();
+const targetIds = new WeakMap<Element, string>();
+let nextTargetId = 0;
+
+const toKebab = (s: string) => s.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+
+export function getScopeKey(scope: EditScope) {
+  return `${scope.state ?? ""}@${scope.mediaQuery ?? ""}`;
+}
+
+function getDocumentStates(doc: Document): DocumentStates {
+  let states = documents.get(doc);
+  if (!states || !states.style.isConnected) {
+    const style = doc.createElement("style");
+    style.setAttribute(FLARE_STYLESHEET_ATTR, "");
+    doc.head.appendChild(style);
+    states = {
+      style,
+      forced: states?.forced ?? null,
+      edits: states?.edits ?? new Map(),
+      inline: states?.inline ?? new Map(),
+    };
+    documents.set(doc, states);
+  }
+  return states;
+}
+
+function targetSelector(el: Element) {
+  let id = targetIds.get(el);
+  if (!id) {
+    id = String(++nextTargetId);
+    targetIds.set(el, id);
+  }
+  if (el.getAttribute(TARGET_ATTR) !== id) el.setAttribute(TARGET_ATTR, id);
+  return `[${TARGET_ATTR}="${id}"]`;
+}
+
+/** Index where the last compound selector starts, e.g. 4 for `nav a:hover`. */
+function lastCompoundStart(selector: string) {
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    else if (depth === 0 && /[\s>+~]/.test(ch)) start = i + 1;
+  }
+  return start;
+}
+
+/**
+ * `selector` with the state's pseudo-class removed from its subject, or null
+ * when the state isn't on the subject (`.card:hover .title`) or is negated.
+ */
+function stripState(selector: string, state: FlareElementState) {
+  const start = lastCompoundStart(selector);
+  const subject = selector.slice(start);
+  const pattern = STATE_PATTERNS[state];
+  pattern.lastIndex = 0;
+  if (!pattern.test(subject) || /:not\(/.test(subject)) return null;
+  const stripped = subject.replace(pattern, "");
+  return selector.slice(0, start) + (stripped || "*");
+}
+
+function withImportant(cssText: string) {
+  return cssText
+    .split(";")
+    .map((decl) => decl.trim())
+    .filter(Boolean)
+    .map((decl) => (/!important$/.test(decl) ? decl : `${decl} !important`))
+    .join("; ");
+}
+
+/** Declaration blocks of page rules that style `el` in `state`, in source order. */
+function mirrorStateRules(el: Element, state: FlareElementState) {
+  const blocks: string[] = [];
+  for (const { selector, style } of collectStyleRules(el.ownerDocument)) {
+    // Cheap pre-check before splitting and matching
+    if (!selector.includes(state)) continue;
+    const matches = splitSelectorList(selector).some((part) => {
+      const stripped = stripState(part, state);
+      if (!stripped) return false;
+      try {
+        return el.matches(stripped);
+      } catch {
+        return false;
+      }
+    });
+    if (matches && style.cssText) blocks.push(withImportant(style.cssText));
+  }
+  return blocks;
+}
+
+function declaredProperties(block: string) {
+  return block
+    .split(";")
+    .map((decl) => decl.split(":")[0].trim())
+    .filter(Boolean);
+}
+
+function declarations(values: Record<string, string>) {
+  return Object.entries(values)
+    .map(([prop, value]) => `${toKebab(prop)}: ${value} !important`)
+    .join("; ");
+}
+
+// Narrowest first, so wider breakpoints win like mobile-first CSS
+function mediaOrder(scope: EditScope) {
+  const width = scope.mediaQuery?.match(/([\d.]+)px/);
+  return scope.mediaQuery ? (width ? parseFloat(width[1]) : Infinity) : -1;
+}
+
+function scopedRule(target: string, { state, mediaQuery }: EditScope, body: string) {
+  const selector = state
+    ? `${target}${STATE_PSEUDOS[state]}, ${target}[${FORCED_ATTR}="${state}"]`
+    : target;
+  const rule = `${selector} { ${body}; }`;
+  return mediaQuery ? `@media ${mediaQuery} { ${rule} }` : rule;
+}
+
+function render(doc: Document) {
+  const states = getDocumentStates(doc);
+  const { forced } = states;
+  const lifted: string[] = [];
+  const mirrored: string[] = [];
+  const scoped: { order: number; rule: string }[] = [];
+  states.inline.clear();
+
+  if (forced) {
+    const scope = `${targetSelector(forced.el)}[${FORCED_ATTR}="${forced.state}"]`;
+    for (const block of forced.mirrored) mirrored.push(`${scope} { ${block}; }`);
+  }
+
+  for (const [el, byScope] of states.edits) {
+    const target = targetSelector(el);
+    const contested = new Set(
+      forced?.el === el ? forced.mirrored.flatMap(declaredProperties) : [],
+    );
+    for (const { scope, values } of byScope.values()) {
+      if (!scope.state && !scope.mediaQuery) continue;
+      for (const prop of Object.keys(values)) contested.add(toKebab(prop));
+      // States after resting edits, each in breakpoint order
+      const order = (scope.state ? 1e6 : 0) + mediaOrder(scope);
+      scoped.push({ order, rule: scopedRule(target, scope, declarations(values)) });
+    }
+
+    // Resting edits go inline unless something scoped needs to beat them
+    const resting = byScope.get(getScopeKey({}))?.values ?? {};
+    const sheetValues: Record<string, string> = {};
+    const inlineValues: Record<string, string> = {};
+    for (const [prop, value] of Object.entries(resting)) {
+      const kebab = toKebab(prop);
+      if (contested.has(kebab)) {
+        sheetValues[prop] = value;
+        if ("style" in el) (el as HTMLElement).style.removeProperty(kebab);
+      } else if ("style" in el) {
+        (el as HTMLElement).style.setProperty(kebab, value, "important");
+        inlineValues[kebab] = (el as HTMLElement).style.getPropertyValue(kebab);
+      }
+    }
+    states.inline.set(el, inlineValues);
+    if (Object.keys(sheetValues).length > 0) {
+      lifted.push(`${target} { ${declarations(sheetValues)}; }`);
+    }
+  }
+
+  scoped.sort((a, b) => a.order - b.order);
+  states.style.textContent = [...lifted, ...mirrored, ...scoped.map(({ rule }) => rule)].join(
+    "\n",
+  );
+}
+
+/** Stop tracking `el` once it has no edits and isn't forced. */
+function forgetIfUnused(states: DocumentStates, el: Element) {
+  if (states.edits.get(el)?.size || states.forced?.el === el) return;
+  states.edits.delete(el);
+  states.inline.delete(el);
+  el.removeAttribute(TARGET_ATTR);
+}
+
+function release(states: DocumentStates) {
+  const { forced } = states;
+  if (!forced) return;
+  forced.el.removeAttribute(FORCED_ATTR);
+  if (forced.addedDisabled) forced.el.removeAttribute("disabled");
+  states.forced = null;
+  forgetIfUnused(states, forced.el);
+}
+
+/**
+ * Show `el` in `state` until released with `null`. Only one element per
+ * document is forced at a time.
+ */
+export function forceElementState(el: Element, state: FlareElementState | null) {
+  const doc = el.ownerDocument;
+  const states = getDocumentStates(doc);
+  if (states.forced && (state !== null || states.forced.el === el)) release(states);
+
+  if (state) {
+    // Form controls can be disabled for real, which also covers `:disabled` in JS
+    const addedDisabled =
+      state === "disabled" && "disabled" in el && !el.hasAttribute("disabled");
+    if (addedDisabled) el.setAttribute("disabled", "");
+    el.setAttribute(FORCED_ATTR, state);
+    states.forced = { el, state, mirrored: mirrorStateRules(el, state), addedDisabled };
+  }
+  render(doc);
+}
+
+/**
+ * Run `read` with `el` shown in its resting state, e.g. to read resting
+ * computed styles while a state is forced.
+ */
+export function withStateReleased<T>(el: Element, read: () => T): T {
+  const forced = documents.get(el.ownerDocument)?.forced;
+  if (forced?.el !== el) return read();
+  forceElementState(el, null);
+  try {
+    return read();
+  } finally {
+    forceElementState(el, forced.state);
+  }
+}
+
+/**
+ * Run `read` with `el` shown in `state`, e.g. to read what a state looks like
+ * without selecting it. Whatever was forced before is forced again after.
+ */
+export function withStateForced<T>(el: Element, state: FlareElementState, read: () => T): T {
+  const previous = documents.get(el.ownerDocument)?.forced;
+  if (previous?.el === el && previous.state === state) return read();
+  forceElementState(el, state);
+  try {
+    return read();
+  } finally {
+    if (previous) forceElementState(previous.el, previous.state);
+    else forceElementState(el, null);
+  }
+}
+
+/**
+ * Run `read` with Flare's edits to `el` lifted, e.g. to see what the page's
+ * own styles do after an agent changed them.
+ */
+export function withoutScopedEdits<T>(el: Element, read: () => T): T {
+  const states = documents.get(el.ownerDocument);
+  const byScope = states?.edits.get(el);
+  if (!states || !byScope) return read();
+  const inline = states.inline.get(el) ?? {};
+  for (const kebab of Object.keys(inline)) (el as HTMLElement).style.removeProperty(kebab);
+  states.edits.delete(el);
+  render(el.ownerDocument);
+  try {
+    return read();
+  } finally {
+    states.edits.set(el, byScope);
+    render(el.ownerDocument);
+  }
+}
+
+/** Show `value` for `prop` (camelCase) on `el` within `scope`. */
+export function setScopedProperty(el: Element, scope: EditScope, prop: string, value: string) {
+  const states = getDocumentStates(el.ownerDocument);
+  const byScope = states.edits.get(el) ?? new Map<string, ScopedEdits>();
+  const key = getScopeKey(scope);
+  const edits = byScope.get(key) ?? { scope, values: {} };
+  edits.values = { ...edits.values, [prop]: value };
+  byScope.set(key, edits);
+  states.edits.set(el, byScope);
+  render(el.ownerDocument);
+}
+
+/** Drop edits to `props` (camelCase) made within `scope`. */
+export function removeScopedProperties(el: Element, scope: EditScope, props: string[]) {
+  const states = getDocumentStates(el.ownerDocument);
+  const byScope = states.edits.get(el);
+  const key = getScopeKey(scope);
+  const edits = byScope?.get(key);
+  if (!byScope || !edits) return;
+  for (const prop of props) {
+    delete edits.values[prop];
+    if (!scope.state && !scope.mediaQuery && "style" in el) {
+      (el as HTMLElement).style.removeProperty(toKebab(prop));
+    }
+  }
+  if (Object.keys(edits.values).length === 0) byScope.delete(key);
+  forgetIfUnused(states, el);
+  render(el.ownerDocument);
+}
+
+/**
+ * Write edits back where the page dropped them, e.g. a re-render replacing
+ * the `style` attribute or a reload removing the injected stylesheet.
+ * Returns whether anything had to be restored.
+ */
+export function restoreScopedEdits(doc: Document) {
+  const states = documents.get(doc);
+  if (!states || states.edits.size === 0) return false;
+  const dropped =
+    !states.style.isConnected ||
+    [...states.inline].some(
+      ([el, values]) =>
+        el.isConnected &&
+        Object.entries(values).some(
+          ([kebab, value]) =>
+            (el as HTMLElement).style.getPropertyValue(kebab) !== value ||
+            (el as HTMLElement).style.getPropertyPriority(kebab) !== "important",
+        ),
+    );
+  if (dropped) render(doc);
+  return dropped;
+}
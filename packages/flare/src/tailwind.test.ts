@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findThemeToken, stepThemeToken, suggestClass } from "./tailwind";
+
+beforeEach(() => {
+  window.__FLARE_TAILWIND__ = {
+    spacing: { "0": 0, "1": 4, "2": 8, "4": 16, "6": 24 },
+    colors: { "blue-800": "#1e40af", white: "#ffffff", overlay: "rgba(0, 0, 0, 0.5)" },
+    fontSize: { sm: 14, base: 16 },
+    fontWeight: { normal: 400, bold: 700 },
+    radius: { md: 6 },
+  };
+});
+
+afterEach(() => {
+  delete window.__FLARE_TAILWIND__;
+});
+
+describe("findThemeToken", () => {
+  it("snaps to the nearest step, and only when it's near", () => {
+    expect(findThemeToken("padding", "24px")).toEqual({ name: "p-6", value: "24px", exact: true });
+    expect(findThemeToken("padding", "23px")).toEqual({ name: "p-6", value: "24px", exact: false });
+    expect(findThemeToken("padding", "40px")).toBeNull();
+    expect(findThemeToken("borderRadius", "9999px")?.name).toBe("rounded-full");
+  });
+
+  it("offers negative tokens only where Tailwind has them", () => {
+    expect(findThemeToken("marginTop", "-16px")).toEqual({ name: "-mt-4", value: "-16px", exact: true });
+    expect(findThemeToken("marginTop", "-1px")?.name).toBe("mt-0");
+    expect(findThemeToken("padding", "-16px")).toBeNull();
+  });
+
+  it("matches colors by distance and keeps their alpha as an opacity modifier", () => {
+    expect(findThemeToken("backgroundColor", "rgb(30, 64, 175)")).toEqual({
+      name: "bg-blue-800",
+      value: "#1e40af",
+      exact: true,
+    });
+    expect(findThemeToken("color", "#2040b0")).toEqual({
+      name: "text-blue-800",
+      value: "#1e40af",
+      exact: false,
+    });
+    expect(findThemeToken("color", "rgba(30, 64, 175, 0.5)")).toEqual({
+      name: "text-blue-800/50",
+      value: "rgba(30, 64, 175, 0.5)",
+      exact: true,
+    });
+    expect(findThemeToken("color", "#ff0000")).toBeNull();
+    expect(findThemeToken("borderColor", "transparent")?.name).toBe("border-transparent");
+  });
+
+  it("skips translucent theme colors", () => {
+    expect(findThemeToken("color", "rgba(0, 0, 0, 0.5)")).toBeNull();
+  });
+});
+
+describe("stepThemeToken", () => {
+  it("walks the scale, through zero into negatives where allowed", () => {
+    expect(stepThemeToken("padding", "8px", 1)).toBe("16px");
+    expect(stepThemeToken("padding", "10px", -1)).toBe("8px");
+    expect(stepThemeToken("padding", "24px", 1)).toBeNull();
+    expect(stepThemeToken("padding", "0px", -1)).toBeNull();
+    expect(stepThemeToken("marginTop", "0px", -1)).toBe("-4px");
+    expect(stepThemeToken("marginTop", "-4px", -1)).toBe("-8px");
+    expect(stepThemeToken("fontWeight", "400", 1)).toBe("700");
+    expect(stepThemeToken("color", "#fff", 1)).toBeNull();
+  });
+});
+
+describe("suggestClass", () => {
+  it("falls back to arbitrary values off the scale", () => {
+    expect(suggestClass("padding", "22px")).toBe("p-[22px]");
+    expect(suggestClass("color", "rgba(255, 0, 0, 0.5)")).toBe("text-[#ff0000]/50");
+    expect(suggestClass("marginTop", "-16px")).toBe("-mt-4");
+  });
+});
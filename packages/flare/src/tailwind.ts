@@ -0,0 +1,221 @@
+// ── Tailwind theme tokens ──────────────────────────
+//
+// The Vite plugin injects the project's theme as `window.__FLARE_TAILWIND__`
+// when it runs with `flare({ tailwind: true })`. Everything here is a no-op
+// without it.
+
+import { type Rgba, toRgba } from "./color";
+
+type TailwindTheme = NonNullable<Window["__FLARE_TAILWIND__"]>;
+type Scale = keyof TailwindTheme;
+
+interface Utility {
+  prefix: string;
+  scale: Scale;
+  /** Whether `-mt-4`-style negative utilities exist */
+  negative?: boolean;
+}
+
+export interface ThemeToken {
+  /** Full utility class, e.g. `p-6` or `text-blue-800` */
+  name: string;
+  /** CSS value to snap the property to */
+  value: string;
+  /** Whether the current value already matches the token */
+  exact: boolean;
+}
+
+const spacing = (prefix: string, negative = false): Utility => ({
+  prefix,
+  scale: "spacing",
+  negative,
+});
+
+const UTILITIES: Record<string, Utility> = {
+  padding: spacing("p"),
+  paddingTop: spacing("pt"),
+  paddingRight: spacing("pr"),
+  paddingBottom: spacing("pb"),
+  paddingLeft: spacing("pl"),
+  margin: spacing("m", true),
+  marginTop: spacing("mt", true),
+  marginRight: spacing("mr", true),
+  marginBottom: spacing("mb", true),
+  marginLeft: spacing("ml", true),
+  gap: spacing("gap"),
+  rowGap: spacing("gap-y"),
+  columnGap: spacing("gap-x"),
+  width: spacing("w"),
+  height: spacing("h"),
+  minWidth: spacing("min-w"),
+  maxWidth: spacing("max-w"),
+  minHeight: spacing("min-h"),
+  maxHeight: spacing("max-h"),
+  inset: spacing("inset", true),
+  top: spacing("top", true),
+  right: spacing("right", true),
+  bottom: spacing("bottom", true),
+  left: spacing("left", true),
+  outlineOffset: spacing("outline-offset"),
+  fontSize: { prefix: "text", scale: "fontSize" },
+  fontWeight: { prefix: "font", scale: "fontWeight" },
+  borderRadius: { prefix: "rounded", scale: "radius" },
+  borderTopLeftRadius: { prefix: "rounded-tl", scale: "radius" },
+  borderTopRightRadius: { prefix: "rounded-tr", scale: "radius" },
+  borderBottomLeftRadius: { prefix: "rounded-bl", scale: "radius" },
+  borderBottomRightRadius: { prefix: "rounded-br", scale: "radius" },
+  color: { prefix: "text", scale: "colors" },
+  backgroundColor: { prefix: "bg", scale: "colors" },
+  borderColor: { prefix: "border", scale: "colors" },
+  outlineColor: { prefix: "outline", scale: "colors" },
+};
+
+// Radius keywords Tailwind always has, whatever the theme says
+const RADIUS_KEYWORDS: Record<string, number> = { none: 0, full: 9999 };
+
+// Values further than this from every token get no suggestion
+const NEAR_PX = 2;
+const NEAR_RATIO = 0.2;
+const NEAR_COLOR = 24;
+
+export function getTailwindTheme(): TailwindTheme | null {
+  return window.__FLARE_TAILWIND__ ?? null;
+}
+
+/** Whether the theme has tokens for this (camelCase) property. */
+export function hasThemeTokens(property: string) {
+  return !!getTailwindTheme() && property in UTILITIES;
+}
+
+function className(prefix: string, key: string, negative = false) {
+  const name = key ? `${prefix}-${key}` : prefix;
+  return negative ? `-${name}` : name;
+}
+
+function numericScale(theme: TailwindTheme, utility: Utility): [string, number][] {
+  const scale = Object.entries(theme[utility.scale] as Record<string, number>);
+  return utility.scale === "radius"
+    ? [...scale, ...Object.entries(RADIUS_KEYWORDS)]
+    : scale;
+}
+
+function parseNumeric(scale: Scale, value: string): number | null {
+  const trimmed = value.trim();
+  if (scale === "fontWeight") {
+    return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+  }
+  const m = trimmed.match(/^(-?\d*\.?\d+)px$/);
+  return m ? parseFloat(m[1]) : trimmed === "0" ? 0 : null;
+}
+
+// ── Colors ─────────────────────────────────────────
+
+function toHexString([r, g, b]: Rgba) {
+  return "#" + [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("");
+}
+
+function toColorValue(rgba: Rgba) {
+  return rgba[3] < 1
+    ? `rgba(${rgba[0]}, ${rgba[1]}, ${rgba[2]}, ${rgba[3]})`
+    : toHexString(rgba);
+}
+
+function findColorToken(theme: TailwindTheme, prefix: string, value: string): ThemeToken | null {
+  const target = toRgba(value);
+  if (!target) return null;
+  if (target[3] === 0) return { name: `${prefix}-transparent`, value: "transparent", exact: true };
+
+  let best: { key: string; rgba: Rgba; distance: number } | null = null;
+  for (const [key, color] of Object.entries(theme.colors)) {
+    const rgba = toRgba(color);
+    if (!rgba || rgba[3] < 1) continue;
+    const distance = Math.hypot(rgba[0] - target[0], rgba[1] - target[1], rgba[2] - target[2]);
+    if (!best || distance < best.distance) best = { key, rgba, distance };
+  }
+  if (!best || best.distance > NEAR_COLOR) return null;
+
+  const alpha = target[3];
+  return {
+    name: className(prefix, best.key) + (alpha < 1 ? `/${Math.round(alpha * 100)}` : ""),
+    value: toColorValue([best.rgba[0], best.rgba[1], best.rgba[2], alpha]),
+    exact: best.distance < 1,
+  };
+}
+
+// ── Lookup ─────────────────────────────────────────
+
+/** The theme token closest to `value`, or null when nothing is close. */
+export function findThemeToken(property: string, value: string): ThemeToken | null {
+  const theme = getTailwindTheme();
+  const utility = UTILITIES[property];
+  if (!theme || !utility || !value) return null;
+
+  if (utility.scale === "colors") return findColorToken(theme, utility.prefix, value);
+
+  const num = parseNumeric(utility.scale, value);
+  if (num == null) return null;
+  const negative = num < 0;
+  if (negative && !utility.negative) return null;
+  const target = Math.abs(num);
+
+  let best: { key: string; size: number } | null = null;
+  for (const [key, size] of numericScale(theme, utility)) {
+    if (!best || Math.abs(size - target) < Math.abs(best.size - target)) {
+      best = { key, size };
+    }
+  }
+  if (!best) return null;
+  const diff = Math.abs(best.size - target);
+  if (diff > Math.max(NEAR_PX, target * NEAR_RATIO)) return null;
+
+  const size = negative ? -best.size : best.size;
+  return {
+    name: className(utility.prefix, best.key, negative && best.size !== 0),
+    value: utility.scale === "fontWeight" ? String(size) : `${size}px`,
+    exact: diff < 0.01,
+  };
+}
+
+/**
+ * The next token up or down the property's scale from `value`, for stepping
+ * through the theme with the keyboard. Null for colors and unknown properties.
+ */
+export function stepThemeToken(property: string, value: string, direction: 1 | -1): string | null {
+  const theme = getTailwindTheme();
+  const utility = UTILITIES[property];
+  if (!theme || !utility || utility.scale === "colors") return null;
+
+  const current = parseNumeric(utility.scale, value) ?? 0;
+  const sizes = [...new Set(numericScale(theme, utility).map(([, size]) => size))]
+    .flatMap((size) => (utility.negative && size > 0 ? [size, -size] : [size]))
+    .sort((a, b) => a - b);
+  const next =
+    direction > 0
+      ? sizes.find((size) => size > current + 0.01)
+      : sizes.reverse().find((size) => size < current - 0.01);
+  if (next == null) return null;
+  return utility.scale === "fontWeight" ? String(next) : `${next}px`;
+}
+
+/**
+ * The utility class an agent could use for this value: the matching theme
+ * token, else an arbitrary value like `p-[22px]`. Undefined without a theme.
+ */
+export function suggestClass(property: string, value: string): string | undefined {
+  const utility = UTILITIES[property];
+  if (!getTailwindTheme() || !utility || !value) return undefined;
+
+  const token = findThemeToken(property, value);
+  if (token?.exact) return token.name;
+
+  if (utility.scale === "colors") {
+    const rgba = toRgba(value);
+    if (!rgba) return undefined;
+    const hex = toHexString(rgba);
+    return rgba[3] < 1
+      ? `${utility.prefix}-[${hex}]/${Math.round(rgba[3] * 100)}`
+      : `${utility.prefix}-[${hex}]`;
+  }
+  if (utility.scale === "spacing" && value === "auto") return `${utility.prefix}-auto`;
+  return `${utility.prefix}-[${value.trim().replace(/\s+/g, "_")}]`;
+}
@@ -0,0 +1,140 @@
+// ── Design tokens (CSS custom properties) ──────────
+//
+// Computed styles only carry resolved values, so `var(--color-primary)`
+// comes back as a hex. These helpers walk the element's stylesheets to find
+// the declared value that won the cascade, and list the custom properties
+// defined on `:root` for the token picker.
+
+import { collectStyleRules, matchSpecificity, splitSelectorList } from "./cascade";
+
+export interface DesignToken {
+  /** Custom property name, e.g. `--color-primary` */
+  name: string;
+  /** Resolved value on the document root */
+  value: string;
+  kind: "color" | "length" | "other";
+}
+
+const ROOT_SELECTORS = new Set([":root", "html", ":host"]);
+
+// Longhands whose value can also come from a single-`var()` shorthand
+const SHORTHANDS: Record<string, string> = {
+  paddingTop: "padding",
+  paddingRight: "padding",
+  paddingBottom: "padding",
+  paddingLeft: "padding",
+  marginTop: "margin",
+  marginRight: "margin",
+  marginBottom: "margin",
+  marginLeft: "margin",
+  borderTopLeftRadius: "borderRadius",
+  borderTopRightRadius: "borderRadius",
+  borderBottomLeftRadius: "borderRadius",
+  borderBottomRightRadius: "borderRadius",
+  borderTopWidth: "borderWidth",
+  borderRightWidth: "borderWidth",
+  borderBottomWidth: "borderWidth",
+  borderLeftWidth: "borderWidth",
+  rowGap: "gap",
+  columnGap: "gap",
+  backgroundColor: "background",
+};
+
+const SINGLE_VAR = /^var\(\s*(--[\w-]+)\s*(?:,[^)]*)?\)$/;
+
+const toKebab = (s: string) => s.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+
+/** `var(--color-primary)` → `--color-primary`; undefined for anything else. */
+export function getTokenName(value: string | undefined) {
+  return value?.trim().match(SINGLE_VAR)?.[1];
+}
+
+export function hasVarReference(value: string | undefined) {
+  return !!value && value.includes("var(");
+}
+
+// ── Declared values ────────────────────────────────
+
+function readDeclaration(style: CSSStyleDeclaration, prop: string) {
+  const value = style.getPropertyValue(toKebab(prop));
+  if (value) return { value, important: style.getPropertyPriority(toKebab(prop)) === "important" };
+
+  const shorthand = SHORTHANDS[prop];
+  const shorthandValue = shorthand ? style.getPropertyValue(toKebab(shorthand)).trim() : "";
+  if (!shorthandValue || !SINGLE_VAR.test(shorthandValue)) return null;
+  return {
+    value: shorthandValue,
+    important: style.getPropertyPriority(toKebab(shorthand)) === "important",
+  };
+}
+
+/**
+ * The declared values of `props` that reference custom properties, keyed by
+ * camelCase property. Properties whose winning declaration is a plain value
+ * are left out.
+ */
+export function readDeclaredTokens(el: Element, props: readonly string[]) {
+  const matches: { style: CSSStyleDeclaration; rank: number[] }[] = [];
+  collectStyleRules(el.ownerDocument).forEach(({ selector, style, layered }, order) => {
+    const specificity = matchSpecificity(el, selector);
+    if (specificity >= 0) matches.push({ style, rank: [layered ? 0 : 1, specificity, order] });
+  });
+  if ("style" in el) {
+    matches.push({ style: (el as HTMLElement).style, rank: [2, 0, 0] });
+  }
+
+  const result: Record<string, string> = {};
+  for (const prop of props) {
+    let winner: { value: string; rank: number[] } | null = null;
+    for (const { style, rank } of matches) {
+      const declaration = readDeclaration(style, prop);
+      if (!declaration) continue;
+      const ranked = [declaration.important ? 1 : 0, ...rank];
+      if (!winner || compareRank(ranked, winner.rank) >= 0) {
+        winner = { value: declaration.value.trim(), rank: ranked };
+      }
+    }
+    if (winner && hasVarReference(winner.value)) result[prop] = winner.value;
+  }
+  return result;
+}
+
+function compareRank(a: number[], b: number[]) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+// ── Root tokens ────────────────────────────────────
+
+function classifyToken(value: string): DesignToken["kind"] {
+  if (/^-?[\d.]+(?:px|rem|em|%|vw|vh|ch)?$/.test(value) || value.startsWith("calc(")) {
+    return "length";
+  }
+  return CSS.supports("color", value) ? "color" : "other";
+}
+
+/** Custom properties declared on `:root` (or `html`), sorted by name. */
+export function getRootTokens(doc: Document): DesignToken[] {
+  const names = new Set<string>();
+  for (const { selector, style } of collectStyleRules(doc)) {
+    const isRoot = splitSelectorList(selector).some((part) => ROOT_SELECTORS.has(part));
+    if (!isRoot) continue;
+    for (const name of Array.from(style)) {
+      if (name.startsWith("--")) names.add(name);
+    }
+  }
+  for (const name of Array.from(doc.documentElement.style)) {
+    if (name.startsWith("--")) names.add(name);
+  }
+
+  const computed = getComputedStyle(doc.documentElement);
+  return [...names]
+    .map((name) => {
+      const value = computed.getPropertyValue(name).trim();
+      return { name, value, kind: classifyToken(value) };
+    })
+    .filter((token) => token.value)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseTransform, serializeTransform } from "./transform";
+
+describe("parseTransform", () => {
+  it("decomposes the computed matrix", () => {
+    // translate(10px, 20px) rotate(90deg) scale(2)
+    const parts = parseTransform("matrix(0, 2, -2, 0, 10, 20)");
+    expect(parts).toMatchObject({
+      translateX: "10px",
+      translateY: "20px",
+      rotate: 90,
+      scaleX: 2,
+      scaleY: 2,
+    });
+    expect(serializeTransform(parts)).toBe("translate(10px, 20px) rotate(90deg) scale(2)");
+  });
+
+  it("keeps units and functions it doesn't edit", () => {
+    const parts = parseTransform("translateX(-50%) skewX(10deg) rotate(0.5turn)");
+    expect(parts).toMatchObject({ translateX: "-50%", translateY: "0px", rotate: 180 });
+    expect(serializeTransform({ ...parts, scaleY: 1.5 })).toBe(
+      "translate(-50%, 0px) rotate(180deg) scale(1, 1.5) skewX(10deg)",
+    );
+    expect(serializeTransform(parseTransform("none"))).toBe("none");
+  });
+});
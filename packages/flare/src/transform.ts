@@ -0,0 +1,136 @@
+// ── Transforms ─────────────────────────────────────
+//
+// The Transform section and the on-page handles edit `transform` as a
+// translate, a rotation and a scale. Computed values come back as a matrix,
+// which is decomposed into the same parts; functions Flare doesn't edit
+// (skew, perspective, 3D) are kept as they are and written after the parts.
+
+export interface TransformParts {
+  /** Lengths, e.g. `12px` or `50%` */
+  translateX: string;
+  translateY: string;
+  /** Degrees */
+  rotate: number;
+  scaleX: number;
+  scaleY: number;
+  /** Functions written after the parts, untouched */
+  rest: string;
+}
+
+export const IDENTITY_TRANSFORM: TransformParts = {
+  translateX: "0px",
+  translateY: "0px",
+  rotate: 0,
+  scaleX: 1,
+  scaleY: 1,
+  rest: "",
+};
+
+const round = (n: number, digits = 2) => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+function toDegrees(value: string) {
+  const n = parseFloat(value);
+  if (isNaN(n)) return 0;
+  if (value.endsWith("grad")) return n * 0.9;
+  if (value.endsWith("rad")) return (n * 180) / Math.PI;
+  if (value.endsWith("turn")) return n * 360;
+  return n;
+}
+
+function toScale(value: string) {
+  const n = parseFloat(value);
+  if (isNaN(n)) return 1;
+  return value.trim().endsWith("%") ? n / 100 : n;
+}
+
+function toLength(value: string | undefined) {
+  const v = value?.trim();
+  if (!v || v === "0") return "0px";
+  return /^-?[\d.]+$/.test(v) ? `${v}px` : v;
+}
+
+function fromMatrix(values: number[]): TransformParts {
+  // matrix3d's 2D components sit at the same places as matrix's
+  const [a, b, c, d, e, f] =
+    values.length === 16
+      ? [values[0], values[1], values[4], values[5], values[12], values[13]]
+      : values;
+  const scaleX = Math.hypot(a, b);
+  const rotate = (Math.atan2(b, a) * 180) / Math.PI;
+  const scaleY = scaleX ? (a * d - b * c) / scaleX : Math.hypot(c, d);
+  return {
+    translateX: `${round(e)}px`,
+    translateY: `${round(f)}px`,
+    rotate: round(rotate),
+    scaleX: round(scaleX, 3),
+    scaleY: round(scaleY, 3),
+    rest: "",
+  };
+}
+
+/** Split `transform` into its parts; anything unrecognized lands in `rest`. */
+export function parseTransform(raw: string): TransformParts {
+  const value = raw.trim();
+  if (!value || value === "none") return { ...IDENTITY_TRANSFORM };
+
+  const matrix = value.match(/^matrix(3d)?\(([^)]*)\)$/);
+  if (matrix) return fromMatrix(matrix[2].split(",").map((n) => parseFloat(n)));
+
+  const parts = { ...IDENTITY_TRANSFORM };
+  const rest: string[] = [];
+  for (const [fn, name, args] of value.matchAll(/([\w-]+)\(([^)]*)\)/g)) {
+    const list = args.split(/\s*,\s*|\s+/).filter(Boolean);
+    switch (name) {
+      case "translate":
+        parts.translateX = toLength(list[0]);
+        parts.translateY = toLength(list[1]);
+        break;
+      case "translateX":
+        parts.translateX = toLength(list[0]);
+        break;
+      case "translateY":
+        parts.translateY = toLength(list[0]);
+        break;
+      case "rotate":
+      case "rotateZ":
+        parts.rotate = toDegrees(list[0]);
+        break;
+      case "scale":
+        parts.scaleX = toScale(list[0]);
+        parts.scaleY = list[1] ? toScale(list[1]) : parts.scaleX;
+        break;
+      case "scaleX":
+        parts.scaleX = toScale(list[0]);
+        break;
+      case "scaleY":
+        parts.scaleY = toScale(list[0]);
+        break;
+      default:
+        rest.push(fn);
+    }
+  }
+  return { ...parts, rest: rest.join(" ") };
+}
+
+const isZero = (length: string) => parseFloat(length) === 0;
+
+/** `transform` for `parts`, leaving out what's at its identity. */
+export function serializeTransform(parts: TransformParts): string {
+  const fns: string[] = [];
+  if (!isZero(parts.translateX) || !isZero(parts.translateY)) {
+    fns.push(`translate(${parts.translateX}, ${parts.translateY})`);
+  }
+  if (parts.rotate) fns.push(`rotate(${round(parts.rotate)}deg)`);
+  if (parts.scaleX !== 1 || parts.scaleY !== 1) {
+    fns.push(
+      parts.scaleX === parts.scaleY
+        ? `scale(${round(parts.scaleX, 3)})`
+        : `scale(${round(parts.scaleX, 3)}, ${round(parts.scaleY, 3)})`,
+    );
+  }
+  if (parts.rest) fns.push(parts.rest);
+  return fns.length > 0 ? fns.join(" ") : "none";
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { findElementByPath, findMatchingElement, getChildIndexPath } from "./utils";
+
+function createFrame(body: string) {
+  const doc = document.implementation.createHTMLDocument("");
+  doc.body.innerHTML = body;
+  return doc;
+}
+
+describe("findMatchingElement", () => {
+  it("finds the element at the same place in another copy of the page", () => {
+    const source = createFrame(`<main><h1>Title</h1><p class="lead">One</p><p>Two</p></main>`);
+    const copy = createFrame(`<main><h1>Title</h1><p class="lead">One</p><p>Two</p></main>`);
+    const el = source.querySelectorAll("p")[1];
+    expect(findMatchingElement(el, copy)).toBe(copy.querySelectorAll("p")[1]);
+  });
+});
+
+describe("findElementByPath", () => {
+  it("falls back to a unique selector when the path leads to another tag", () => {
+    const source = createFrame(`<main><p class="lead">One</p></main>`);
+    const path = getChildIndexPath(source.querySelector("p")!);
+    // A banner above it in this frame shifts every index
+    const copy = createFrame(`<div class="banner"></div><main><p class="lead">One</p></main>`);
+    expect(findElementByPath(copy, path, "P", "p.lead")).toBe(copy.querySelector("p.lead"));
+  });
+
+  it("returns null when the selector matches more than one element", () => {
+    const copy = createFrame(`<div class="banner"></div><main><p class="lead">One</p><p class="lead">Two</p></main>`);
+    expect(findElementByPath(copy, [1, 0, 0], "P", "p.lead")).toBeNull();
+  });
+});
@@ -1,30 +1,70 @@
 import type { ElementInfo, ElementSourceInfo } from "element-source";
-import type { FlareElementChange } from "./bridge-types";
+import type {
+  AgentChangeAck,
+  FlareElementChange,
+  FlareElementState,
+  FlareStyleChange,
+} from "./bridge-types";
+import { type Breakpoint, getBreakpointVariant } from "./breakpoints";
+import { formatColor, toRgba } from "./color";
+import { checkContrast, describeContrastFailure } from "./contrast";
+import { suggestClass } from "./tailwind";
+import { getRootTokens, hasVarReference } from "./tokens";
+
+/** Every rendered instance of a component part, edited as one */
+export interface ComponentScope {
+  /** Component the element belongs to, when known */
+  name: string | null;
+  /** The other instances the edits are previewed on */
+  instances: Element[];
+  /** The page was too large to look at every element, so there may be more */
+  partial?: boolean;
+}
 
 export interface ElementEntry {
   el: Element;
   overrides: Record<string, string>;
   original: Record<string, string>;
+  /** Declared values that reference custom properties, e.g. `var(--color-primary)` */
+  declared?: Record<string, string>;
   sourceInfo?: ElementInfo | null;
   comment?: string;
+  /** Forced state the edits were made in; absent for the resting state */
+  state?: FlareElementState;
+  /** Breakpoint the edits apply from; absent when they apply at every width */
+  breakpoint?: Breakpoint;
+  /** The element left the page and no replacement for it was found */
+  orphaned?: boolean;
+  /** Shared by the elements one multi-selection edited together */
+  group?: string;
+  /** The edits are meant for the component definition, not this one element */
+  component?: ComponentScope;
 }
 
 export type { ElementInfo, ElementSourceInfo };
 
+/** `#rrggbb`, or `#rrggbbaa` when translucent; black for what can't be read. */
 export function toHex(color: string): string {
-  const m = color.match(/rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)/);
-  if (m) {
-    const [, r, g, b] = m;
-    return (
-      "#" +
-      [r, g, b].map((c) => Number(c).toString(16).padStart(2, "0")).join("")
-    );
+  const rgba = toRgba(color);
+  return rgba ? formatColor(rgba, "hex") : "#000000";
+}
+
+/** Split on commas that aren't inside parentheses. */
+export function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "," && depth === 0) {
+      parts.push(value.slice(start, i).trim());
+      start = i + 1;
+    }
   }
-  if (color.startsWith("#"))
-    return color.length === 4
-      ? "#" + color[1] + color[1] + color[2] + color[2] + color[3] + color[3]
-      : color;
-  return "#000000";
+  parts.push(value.slice(start).trim());
+  return parts.filter(Boolean);
 }
 
 export function getElementLabel(el: Element) {
@@ -191,9 +231,51 @@ function humanizeValue(val: string): string {
   );
 }
 
+/** The root token whose value is `value`, as `var(--name)`, when exactly one matches */
+function findRootTokenFor(doc: Document, value: string): string | undefined {
+  const target = humanizeValue(value).toLowerCase();
+  const matches = getRootTokens(doc).filter(
+    (token) => humanizeValue(token.value).toLowerCase() === target,
+  );
+  return matches.length === 1 ? `var(${matches[0].name})` : undefined;
+}
+
+/**
+ * Describe one changed property. Elements styled with custom properties
+ * report the change as a token swap (`var(--a)` → `var(--b)`), with the
+ * resolved values alongside.
+ */
+function describeStyleChange(entry: ElementEntry, prop: string, val: string): FlareStyleChange {
+  const { el, original, declared, state, breakpoint } = entry;
+  const declaredBefore = declared?.[prop];
+  const after =
+    !hasVarReference(val) && declaredBefore
+      ? (findRootTokenFor(el.ownerDocument, val) ?? val)
+      : val;
+  const resolvedAfter = hasVarReference(after)
+    ? humanizeValue(
+        hasVarReference(val)
+          ? getComputedStyle(el).getPropertyValue(toKebab(prop)).trim()
+          : val,
+      )
+    : undefined;
+  const suggestedClass = suggestClass(prop, val);
+
+  return {
+    property: toKebab(prop),
+    before: declaredBefore ?? humanizeValue(original[prop] || "unset"),
+    after: hasVarReference(after) ? after : humanizeValue(after),
+    resolvedBefore: declaredBefore ? humanizeValue(original[prop] || "unset") : undefined,
+    resolvedAfter,
+    suggestedClass:
+      suggestedClass &&
+      `${breakpoint ? getBreakpointVariant(breakpoint) : ""}${state ? `${state}:` : ""}${suggestedClass}`,
+  };
+}
+
 /** Get the visible text content of an element, truncated.
  *  For containers with no direct text, pull representative snippets from children. */
-function getTextSnippet(el: Element, maxLen = 80): string {
+export function getTextSnippet(el: Element, maxLen = 80): string {
   // Check for direct text content (non-whitespace text nodes)
   const directText = Array.from(el.childNodes)
     .filter((n) => n.nodeType === Node.TEXT_NODE)
@@ -296,6 +378,48 @@ export function getAncestorPath(el: Element, maxDepth = 6): string {
   return slice.map(shortLabel).join(" > ");
 }
 
+/** Child indexes from `<html>` down to `el`. */
+export function getChildIndexPath(el: Element): number[] {
+  const indexes: number[] = [];
+  let cur: Element = el;
+  while (cur.parentElement) {
+    indexes.unshift(Array.prototype.indexOf.call(cur.parentElement.children, cur));
+    cur = cur.parentElement;
+  }
+  return indexes;
+}
+
+/**
+ * The element at `indexPath` in `doc` if it is a `tagName`, else the one
+ * element matching `cssSelector`; null when neither finds it.
+ */
+export function findElementByPath(
+  doc: Document,
+  indexPath: number[],
+  tagName: string,
+  cssSelector: string,
+): Element | null {
+  let match: Element | null = doc.documentElement;
+  for (const index of indexPath) match = match?.children[index] ?? null;
+  if (match?.tagName === tagName) return match;
+
+  try {
+    const matches = doc.querySelectorAll(cssSelector);
+    return matches.length === 1 ? matches[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The element at the same place as `el` in another copy of the page, e.g. a
+ * sibling canvas frame. Falls back to a unique selector match; null when
+ * neither finds it.
+ */
+export function findMatchingElement(el: Element, doc: Document): Element | null {
+  return findElementByPath(doc, getChildIndexPath(el), el.tagName, getCssSelector(el));
+}
+
 export function getPathSuffix(el: Element, maxDepth = 3): string {
   const path = getAncestorPath(el, maxDepth);
   const parts = path.split(" > ").filter(Boolean);
@@ -337,16 +461,31 @@ export function serializeElementChange(entry: ElementEntry): FlareElementChange
     comment: comment || undefined,
     source,
     componentStack,
-    changes: actualChanges.map(([prop, val]) => ({
-      property: toKebab(prop),
-      before: humanizeValue(original[prop] || "unset"),
-      after: humanizeValue(val),
-    })),
+    changes: actualChanges.map(([prop, val]) => describeStyleChange(entry, prop, val)),
+    state: entry.state,
+    mediaQuery: entry.breakpoint?.mediaQuery,
+    breakpoint: entry.breakpoint?.name ?? undefined,
+    group: entry.group,
+    scope: entry.component ? "component" : undefined,
+    contrast: getContrastNote(entry),
   };
 }
 
-/** Build a compact description for one element's changes */
-function buildElementBlock(entry: ElementEntry): string {
+/** Why the edited text colors fail WCAG AA; undefined when they pass or weren't edited. */
+function getContrastNote(entry: ElementEntry): string | undefined {
+  const { overrides, original } = entry;
+  const edited = (prop: string) =>
+    overrides[prop] !== undefined && overrides[prop] !== original[prop] ? overrides[prop] : undefined;
+  const color = edited("color");
+  const backgroundColor = edited("backgroundColor");
+  if (!color && !backgroundColor) return undefined;
+  const check = checkContrast(entry.el, { color, backgroundColor });
+  return check ? describeContrastFailure(check) : undefined;
+}
+
+/** Build a compact description for one element's changes. `groupSize`
+ *  counts the elements edited together with it, itself included. */
+function buildElementBlock(entry: ElementEntry, groupSize = 1): string {
   const { el, overrides, original, sourceInfo } = entry;
   const comment = entry.comment?.trim() ?? "";
   const actualChanges = Object.entries(overrides).filter(
@@ -369,19 +508,34 @@ function buildElementBlock(entry: ElementEntry): string {
           .join("\n")}`
       : "";
   const commentLine = comment ? `Comment: ${comment}` : "";
+  const contrast = getContrastNote(entry);
+  const contrastLine = contrast ? `Contrast: ${contrast}` : "";
+  const stateLine = entry.state ? `State: :${entry.state}` : "";
+  const mediaLine = entry.breakpoint
+    ? `Media: @media ${entry.breakpoint.mediaQuery}${entry.breakpoint.name ? ` (${entry.breakpoint.name})` : ""}`
+    : "";
+  const scopeLine = entry.component
+    ? `Scope: component — every instance of ${entry.component.name ?? "this component"} (${entry.component.partial ? "at least " : ""}${entry.component.instances.length + 1} on the page); change its definition, not one call site`
+    : "";
+  const groupLine =
+    entry.group && groupSize > 1
+      ? `Group: ${entry.group} (edited together with ${groupSize - 1} other element${groupSize > 2 ? "s" : ""} as one change)`
+      : "";
 
   const changeLines = actualChanges
     .map(([prop, val]) => {
-      const before = humanizeValue(original[prop] || "unset");
-      const after = humanizeValue(val);
-      return `  ${toKebab(prop)}: ${before} → ${after}`;
+      const change = describeStyleChange(entry, prop, val);
+      const before = change.resolvedBefore ? `${change.before} (${change.resolvedBefore})` : change.before;
+      const after = change.resolvedAfter ? `${change.after} (${change.resolvedAfter})` : change.after;
+      const suggested = change.suggestedClass ? ` (${change.suggestedClass})` : "";
+      return `  ${change.property}: ${before} → ${after}${suggested}`;
     })
     .join("\n");
 
   const identifier = text ? `"${text}"` : path;
   const selectorLine = `Selector: ${selectorStr}`;
   const domLine = path ? `DOM: ${path}` : "";
-  return [identifier, sourceHeader, selectorLine, domLine, stackLines, commentLine, changeLines]
+  return [identifier, sourceHeader, selectorLine, domLine, stackLines, scopeLine, groupLine, mediaLine, stateLine, commentLine, changeLines, contrastLine]
     .filter(Boolean)
     .join("\n");
 }
@@ -390,19 +544,72 @@ function buildElementBlock(entry: ElementEntry): string {
  * Build a concise prompt for an LLM to apply visual changes to source code.
  */
 export function buildPrompt(entries: ElementEntry[]): string {
+  const groupSizes = new Map<string, number>();
+  for (const { group } of entries) {
+    if (group) groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1);
+  }
   const blocks = entries
-    .map((entry) => buildElementBlock(entry))
+    .map((entry) => buildElementBlock(entry, entry.group ? groupSizes.get(entry.group) : 1))
     .filter(Boolean);
 
   if (blocks.length === 0) return "";
+  const grouped = [...groupSizes.values()].some((size) => size > 1);
 
   return [
     `I tweaked styles in the browser — apply these changes to the source code intelligently.`,
     `The DOM classes/structure may not map 1:1 to source — interpret the intent behind each change:`,
     `- If the element comes from a component, update the component's styles (props, internal CSS, class, etc.) rather than adding overrides at the call site.`,
     `- Use the best idiom for the project's stack (e.g. Tailwind classes, CSS module updates, styled-component changes, style props) instead of raw inline styles.`,
+    ...(grouped
+      ? [
+          `- Elements in the same group were edited together as one change; when they share a component or class, make it once there instead of per instance.`,
+        ]
+      : []),
     `- If the same result can be expressed more cleanly (e.g. a shorthand property, a design token, a utility class), prefer that over a literal translation of the CSS.`,
     ``,
     blocks.join("\n\n"),
   ].join("\n");
 }
+
+/** Copy entries so later edits and acknowledgements don't change them */
+export function snapshotEntries(entries: ElementEntry[]): ElementEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    overrides: { ...entry.overrides },
+    original: { ...entry.original },
+    declared: entry.declared ? { ...entry.declared } : undefined,
+  }));
+}
+
+/**
+ * Narrow pushed entries to the parts an agent ack reported as failed.
+ * `changes` are the serialized entries, in the same order as `entries`.
+ */
+export function getFailedEntries(
+  entries: ElementEntry[],
+  changes: FlareElementChange[],
+  acks: AgentChangeAck[],
+): ElementEntry[] {
+  const failed: ElementEntry[] = [];
+  entries.forEach((entry, i) => {
+    const selector = changes[i]?.selector;
+    const matches = acks.filter(
+      (ack) => ack.status === "failed" && ack.selector === selector,
+    );
+    if (matches.length === 0) return;
+
+    // An ack without a property covers the whole element
+    if (matches.some((ack) => !ack.property)) {
+      failed.push(entry);
+      return;
+    }
+    const properties = new Set(matches.map((ack) => ack.property));
+    const overrides = Object.fromEntries(
+      Object.entries(entry.overrides).filter(([prop]) => properties.has(toKebab(prop))),
+    );
+    if (Object.keys(overrides).length > 0) {
+      failed.push({ ...entry, overrides, comment: undefined });
+    }
+  });
+  return failed;
+}
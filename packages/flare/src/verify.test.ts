@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { setScopedProperty } from "./states";
+import { serializeElementChange, type ElementEntry } from "./utils";
+import { captureVerification, getRepushEntries, settleVerifications, verifyTargets } from "./verify";
+
+function pushEdit() {
+  const el = document.createElement("p");
+  el.textContent = "Welcome back";
+  document.body.appendChild(el);
+  setScopedProperty(el, {}, "color", "rgb(255, 0, 0)");
+  const entry: ElementEntry = {
+    el,
+    overrides: { color: "rgb(255, 0, 0)" },
+    original: { color: "rgb(0, 0, 0)" },
+  };
+  return captureVerification("push-1", [entry], [serializeElementChange(entry)], () => undefined);
+}
+
+describe("verifyTargets", () => {
+  afterEach(() => {
+    document.head.innerHTML = "";
+    document.body.innerHTML = "";
+  });
+
+  it("matches once the page's own styles produce the pushed value", async () => {
+    const { targets } = pushEdit();
+    expect(targets[0].expected).toEqual({ color: "rgb(255, 0, 0)" });
+
+    // The agent's edit, after a hot reload swapped the node
+    const style = document.createElement("style");
+    style.textContent = "p { color: rgb(255, 0, 0); }";
+    document.head.appendChild(style);
+    const fresh = document.createElement("p");
+    fresh.textContent = "Welcome back";
+    document.body.replaceChildren(fresh);
+
+    const report = await verifyTargets(document, targets);
+    expect(report.elements[0].el).toBe(fresh);
+    expect(report).toMatchObject({ matched: 1, differs: 0, unchecked: 0 });
+  });
+
+  it("reports values Flare's edit still provides and re-pushes them with the gap", async () => {
+    const { targets } = pushEdit();
+    const el = document.querySelector("p")!;
+
+    const report = await verifyTargets(document, targets);
+    expect(report.differs).toBe(1);
+    // Reading lifts the edit only for the check
+    expect(el.style.color).toBe("rgb(255, 0, 0)");
+
+    const [{ entry }] = getRepushEntries(report);
+    expect(entry.overrides).toEqual({ color: "rgb(255, 0, 0)" });
+    expect(entry.comment).toContain("instead of rgb(255, 0, 0)");
+  });
+});
+
+describe("settleVerifications", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("keeps a mismatch pending until the ack or a hot update of its own source", async () => {
+    const pushed = pushEdit();
+    const target = { ...pushed.targets[0] };
+    target.locator = { ...target.locator, source: "/app/src/Hero.tsx:3:5" };
+    const pending = [{ ...pushed, targets: [target] }];
+    const report = await verifyTargets(document, pending[0].targets);
+
+    // Another file reloaded while the agent was still working
+    const unrelated = settleVerifications(pending, report, ["/src/Footer.tsx"]);
+    expect(unrelated.report.elements).toEqual([]);
+    expect(unrelated.pending).toEqual(pending);
+
+    const touched = settleVerifications(pending, report, ["/src/Hero.tsx"]);
+    expect(touched.report.differs).toBe(1);
+    expect(touched.pending).toEqual([]);
+
+    const acked = settleVerifications([{ ...pending[0], acked: true }], report, []);
+    expect(acked.report.differs).toBe(1);
+    expect(acked.pending).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+// ── Verifying applied changes ──────────────────────
+//
+// A push records what each changed property computes to while Flare's edit
+// shows it. Once the agent has changed the source and the page reloaded, the
+// element is found again and read with Flare's own edits lifted: whatever
+// still differs after the agent's ack didn't make it into the source.
+
+import type { AgentChangeAck, FlareElementChange, FlareElementState } from "./bridge-types";
+import type { Breakpoint } from "./breakpoints";
+import { describeElement, type ElementLocator, relocateElement } from "./relocate";
+import { withoutScopedEdits, withStateForced } from "./states";
+import { type ElementEntry, serializeElementChange } from "./utils";
+
+/** One pushed element and the values its changed properties should compute to. */
+export interface VerificationTarget {
+  locator: ElementLocator;
+  change: FlareElementChange;
+  state?: FlareElementState;
+  breakpoint?: Breakpoint;
+  /** Pushed values, by camelCase property */
+  values: Record<string, string>;
+  /** Computed values at push time; absent when they couldn't be read */
+  expected: Record<string, string>;
+}
+
+export interface PendingVerification {
+  /** Inbox id of the push, matched against agent acks */
+  id: string | null;
+  /** Set once the agent acked the push; until then a mismatch may just be unfinished */
+  acked?: boolean;
+  targets: VerificationTarget[];
+}
+
+export interface PropertyCheck {
+  /** camelCase, as in `values` */
+  prop: string;
+  property: string;
+  expected: string | null;
+  actual: string | null;
+  status: "match" | "differs" | "unchecked";
+}
+
+export interface ElementCheck {
+  target: VerificationTarget;
+  el: Element | null;
+  checks: PropertyCheck[];
+}
+
+export interface VerificationReport {
+  elements: ElementCheck[];
+  matched: number;
+  differs: number;
+  unchecked: number;
+}
+
+const STORAGE_KEY = "flare-verify";
+// Numbers in computed values that differ by less than this still match
+const TOLERANCE = 0.5;
+
+const toKebab = (s: string) => s.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+
+/** Computed `props` of `el` in the target's scope, or null when it isn't showing. */
+function readScopedStyles(
+  el: Element,
+  { state, breakpoint }: Pick<VerificationTarget, "state" | "breakpoint">,
+  props: string[],
+): Record<string, string> | null {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return null;
+  // Another width's edits can't be seen from here
+  if (breakpoint && !view.matchMedia?.(breakpoint.mediaQuery).matches) return null;
+  const read = () => {
+    const computed = view.getComputedStyle(el);
+    return Object.fromEntries(
+      props.map((prop) => [prop, computed.getPropertyValue(toKebab(prop)).trim()]),
+    );
+  };
+  return state ? withStateForced(el, state, read) : read();
+}
+
+const NUMBER = /-?\d*\.?\d+(?:e-?\d+)?/g;
+
+function valuesMatch(expected: string, actual: string) {
+  const a = expected.replace(/\s+/g, " ");
+  const b = actual.replace(/\s+/g, " ");
+  if (a === b) return true;
+  if (a.replace(NUMBER, "#") !== b.replace(NUMBER, "#")) return false;
+  const numbersA = a.match(NUMBER) ?? [];
+  const numbersB = b.match(NUMBER) ?? [];
+  return numbersA.every((n, i) => Math.abs(parseFloat(n) - parseFloat(numbersB[i])) < TOLERANCE);
+}
+
+/**
+ * What to check once `entries` are applied. `changes` are the serialized
+ * entries, in the same order; `getLocator` returns what the editor already
+ * knows about an element.
+ */
+export function captureVerification(
+  id: string | null,
+  entries: ElementEntry[],
+  changes: FlareElementChange[],
+  getLocator: (el: Element) => ElementLocator | undefined,
+): PendingVerification {
+  const targets = entries.flatMap((entry, i): VerificationTarget[] => {
+    const values = Object.fromEntries(
+      Object.entries(entry.overrides).filter(([prop, value]) => value !== entry.original[prop]),
+    );
+    const props = Object.keys(values);
+    if (props.length === 0 || !entry.el.isConnected) return [];
+    return [
+      {
+        locator: getLocator(entry.el) ?? describeElement(entry.el, entry.sourceInfo),
+        change: changes[i],
+        state: entry.state,
+        breakpoint: entry.breakpoint,
+        values,
+        expected: readScopedStyles(entry.el, entry, props) ?? {},
+      },
+    ];
+  });
+  return { id, targets };
+}
+
+/** Leave out what the agent reported as failed; those changes are back in the list. */
+export function dropFailedTargets(
+  pending: PendingVerification,
+  acks: AgentChangeAck[],
+): PendingVerification {
+  const targets = pending.targets.flatMap((target) => {
+    const failed = acks.filter(
+      (ack) => ack.status === "failed" && ack.selector === target.change.selector,
+    );
+    if (failed.some((ack) => !ack.property)) return [];
+    const properties = new Set(failed.map((ack) => ack.property));
+    const values = Object.fromEntries(
+      Object.entries(target.values).filter(([prop]) => !properties.has(toKebab(prop))),
+    );
+    return Object.keys(values).length > 0 ? [{ ...target, values }] : [];
+  });
+  return { ...pending, targets };
+}
+
+/** Find each target on the page again and compare what it computes to now. */
+export async function verifyTargets(
+  doc: Document,
+  targets: VerificationTarget[],
+): Promise<VerificationReport> {
+  const elements: ElementCheck[] = [];
+  for (const target of targets) {
+    const el = await relocateElement(doc, target.locator);
+    const props = Object.keys(target.values);
+    const actual = el ? withoutScopedEdits(el, () => readScopedStyles(el, target, props)) : null;
+    const checks = props.map((prop): PropertyCheck => {
+      const expected = target.expected[prop] ?? null;
+      const value = actual?.[prop] ?? null;
+      return {
+        prop,
+        property: toKebab(prop),
+        expected,
+        actual: value,
+        status:
+          expected === null || value === null
+            ? "unchecked"
+            : valuesMatch(expected, value)
+              ? "match"
+              : "differs",
+      };
+    });
+    elements.push({ target, el, checks });
+  }
+  return summarize(elements);
+}
+
+function summarize(elements: ElementCheck[]): VerificationReport {
+  const count = (status: PropertyCheck["status"]) =>
+    elements.reduce(
+      (total, { checks }) => total + checks.filter((check) => check.status === status).length,
+      0,
+    );
+  return { elements, matched: count("match"), differs: count("differs"), unchecked: count("unchecked") };
+}
+
+const stripLocation = (path: string) => path.replace(/[?#].*$/, "").replace(/:\d+(?::\d+)?$/, "");
+
+/** Whether a hot update of Vite module `paths` (e.g. `/src/Card.tsx`) reloaded the target's source file. */
+function touchesSource(target: VerificationTarget, paths: string[]) {
+  if (!target.locator.source) return false;
+  const file = stripLocation(target.locator.source);
+  return paths.some((path) => {
+    const updated = stripLocation(path).replace(/^\/+/, "");
+    return updated !== "" && (file === updated || file.endsWith(`/${updated}`));
+  });
+}
+
+/**
+ * Split a report on `pending` (checked in order) into what's final and what
+ * stays pending. Matches are final right away; anything else waits for the
+ * agent's ack or a hot update of the element's own source file, since an
+ * unrelated update can land while the agent is partway through.
+ */
+export function settleVerifications(
+  pending: PendingVerification[],
+  report: VerificationReport,
+  updatedPaths: string[],
+): { report: VerificationReport; pending: PendingVerification[] } {
+  const settled: ElementCheck[] = [];
+  const waiting: PendingVerification[] = [];
+  let i = 0;
+  for (const verification of pending) {
+    const targets: VerificationTarget[] = [];
+    for (const target of verification.targets) {
+      const element = report.elements[i++];
+      const landed = element.checks.every((check) => check.status === "match");
+      if (landed || verification.acked || touchesSource(target, updatedPaths)) settled.push(element);
+      else targets.push(target);
+    }
+    if (targets.length > 0) waiting.push({ ...verification, targets });
+  }
+  return { report: summarize(settled), pending: waiting };
+}
+
+/**
+ * Entries that push the properties that still differ again, with the
+ * current value as "before" and a comment describing the gap.
+ */
+export function getRepushEntries(report: VerificationReport) {
+  return report.elements.flatMap(({ target, el, checks }) => {
+    const differing = checks.filter((check) => check.status === "differs");
+    if (!el || differing.length === 0) return [];
+    const entry: ElementEntry = {
+      el,
+      overrides: Object.fromEntries(differing.map(({ prop }) => [prop, target.values[prop]])),
+      original: Object.fromEntries(differing.map(({ prop, actual }) => [prop, actual ?? ""])),
+      comment: `After the last push ${differing
+        .map(({ property, actual, expected }) => `${property} computes to ${actual} instead of ${expected}`)
+        .join(", ")}.`,
+      state: target.state,
+      breakpoint: target.breakpoint,
+    };
+    const narrowed: VerificationTarget = {
+      ...target,
+      change: serializeElementChange(entry),
+      values: entry.overrides,
+    };
+    return [{ entry, target: narrowed }];
+  });
+}
+
+// Kept per tab so a full page reload can still be checked
+export function loadPendingVerifications(): PendingVerification[] {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingVerification[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePendingVerifications(pending: PendingVerification[]) {
+  try {
+    if (pending.length > 0) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {}
+}
@@ -1,7 +1,14 @@
 /// <reference types="vite/client" />
 
 interface Window {
-  __FLARE_BRIDGE__?: {
-    url?: string;
+  /** Injected by the Vite plugin with `flare({ tailwind: true })`; sizes in px */
+  __FLARE_TAILWIND__?: {
+    spacing: Record<string, number>;
+    colors: Record<string, string>;
+    fontSize: Record<string, number>;
+    fontWeight: Record<string, number>;
+    radius: Record<string, number>;
   };
+  /** Injected by the Vite plugin from its `breakpoints` option or the Tailwind theme; min widths in px */
+  __FLARE_BREAKPOINTS__?: Record<string, number>;
 }
@@ -1,10 +1,18 @@
-import { existsSync, mkdirSync, readFileSync, readdirSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, readdirSync, watch } from "node:fs";
 import { join } from "node:path";
 import { getOriginInboxPath } from "./inbox-path.js";
 
 export interface WatcherOptions {
   origin: string;
   pollMs?: number;
+  bridgeUrl?: string;
+  /** Bridge session token, sent with stream requests */
+  token?: string | null;
+  /** Stay alive and emit one event per inbox file instead of a single batch */
+  follow?: boolean;
+  heartbeatMs?: number;
+  /** Where inboxes live; defaults to `getStoreRoot()` */
+  storeRoot?: string;
 }
 
 export interface WatcherInstance {
@@ -12,22 +20,141 @@ export interface WatcherInstance {
   inboxPath: string;
 }
 
-interface WatchEvent {
-  type: "watch.batch";
-  inboxPath?: string;
-  files: Array<{
-    filePath: string;
-    payload: unknown;
-  }>;
+interface WatchFile {
+  filePath: string;
+  payload: unknown;
 }
 
+type WatchEvent =
+  | {
+      type: "watch.batch";
+      inboxPath?: string;
+      files: WatchFile[];
+    }
+  | ({
+      type: "watch.file";
+      inboxPath: string;
+    } & WatchFile)
+  | {
+      type: "watch.ack";
+      inboxPath: string;
+      filePath: string;
+    }
+  | {
+      type: "watch.heartbeat";
+      inboxPath: string;
+      at: string;
+      pending: number;
+      streaming: boolean;
+    };
+
+// Snapshots that arrive this close together are reported as one batch
+const STREAM_BATCH_WINDOW_MS = 100;
+const DEFAULT_HEARTBEAT_MS = 15000;
+
 function writeEvent(event: WatchEvent) {
   process.stdout.write(`${JSON.stringify(event)}\n`);
 }
 
+/** Parse one SSE block (`event: …` / `data: …` lines) into its parts. */
+function parseStreamBlock(block: string): { event: string; data: string } | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Follow the bridge's inbox stream, calling `onFile` for every snapshot it
+ * delivers, until the stream closes or `controller` aborts. Resolves whether
+ * the stream was reachable at all, so callers know to fall back to polling.
+ */
+async function followInboxStream(
+  streamUrl: URL,
+  token: string | null,
+  controller: AbortController,
+  onFile: (file: WatchFile) => void,
+  onOpen?: () => void,
+): Promise<boolean> {
+  let connected = false;
+
+  try {
+    const response = await fetch(streamUrl, {
+      headers: {
+        Accept: "text/event-stream",
+        ...(token ? { "X-Flare-Token": token } : {}),
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) return false;
+    connected = true;
+    onOpen?.();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() ?? "";
+      for (const block of blocks) {
+        const parsed = parseStreamBlock(block);
+        if (!parsed || parsed.event !== "snapshot") continue;
+        try {
+          onFile(JSON.parse(parsed.data) as WatchFile);
+        } catch {}
+      }
+    }
+  } catch {
+    // Aborted by the caller, or the bridge went away
+  }
+
+  return connected;
+}
+
+/**
+ * Wait on the inbox stream for the first snapshots and return them as one
+ * batch. Resolves null when the stream is unavailable or closes without
+ * delivering anything.
+ */
+async function readStreamBatch(
+  streamUrl: URL,
+  token: string | null,
+): Promise<WatchFile[] | null> {
+  const controller = new AbortController();
+  const files: WatchFile[] = [];
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  await followInboxStream(streamUrl, token, controller, (file) => {
+    files.push(file);
+    if (!settleTimer) {
+      settleTimer = setTimeout(() => controller.abort(), STREAM_BATCH_WINDOW_MS);
+    }
+  });
+  if (settleTimer) clearTimeout(settleTimer);
+
+  return files.length > 0 ? files : null;
+}
+
+function readPayload(filePath: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
 export function createWatcher(options: WatcherOptions): WatcherInstance {
-  const inboxPath = getOriginInboxPath(options.origin);
+  const inboxPath = getOriginInboxPath(options.origin, options.storeRoot);
   const pollMs = options.pollMs ?? 500;
+  const token = options.token ?? null;
 
   const readPendingFiles = () => {
     if (!existsSync(inboxPath)) {
@@ -40,28 +167,104 @@ export function createWatcher(options: WatcherOptions): WatcherInstance {
       .sort();
   };
 
+  const pollForBatch = async (): Promise<WatchFile[]> => {
+    while (true) {
+      const files = readPendingFiles();
+      if (files.length > 0) {
+        return files.map((name) => {
+          const filePath = join(inboxPath, name);
+          return {
+            filePath,
+            payload: JSON.parse(readFileSync(filePath, "utf8")),
+          };
+        });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+  };
+
+  const streamUrl = options.bridgeUrl
+    ? new URL("/api/agent/inbox/stream", options.bridgeUrl)
+    : null;
+  streamUrl?.searchParams.set("origin", options.origin);
+
+  const follow = async (): Promise<never> => {
+    const known = new Set<string>();
+    let streaming = false;
+
+    const emitFile = (file: WatchFile) => {
+      if (known.has(file.filePath)) return;
+      known.add(file.filePath);
+      writeEvent({ type: "watch.file", inboxPath, ...file });
+    };
+
+    // Files the agent deleted since we announced them count as processed
+    const emitAcks = () => {
+      for (const filePath of known) {
+        if (existsSync(filePath)) continue;
+        known.delete(filePath);
+        writeEvent({ type: "watch.ack", inboxPath, filePath });
+      }
+    };
+
+    const syncInbox = () => {
+      emitAcks();
+      for (const name of readPendingFiles()) {
+        const filePath = join(inboxPath, name);
+        if (known.has(filePath)) continue;
+        // Half-written files fail to parse and are picked up on the next sync
+        const payload = readPayload(filePath);
+        if (payload !== null) emitFile({ filePath, payload });
+      }
+    };
+
+    const heartbeat = () =>
+      writeEvent({
+        type: "watch.heartbeat",
+        inboxPath,
+        at: new Date().toISOString(),
+        pending: known.size,
+        streaming,
+      });
+
+    readPendingFiles();
+    watch(inboxPath, emitAcks);
+    heartbeat();
+    setInterval(heartbeat, options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+
+    while (true) {
+      syncInbox();
+      if (streamUrl) {
+        const connected = await followInboxStream(
+          streamUrl,
+          token,
+          new AbortController(),
+          emitFile,
+          () => {
+            streaming = true;
+          },
+        );
+        streaming = false;
+        // Catch up on anything written while the stream was down
+        if (connected) continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+  };
+
   return {
     inboxPath,
     async start() {
-      while (true) {
-        const files = readPendingFiles();
-        if (files.length > 0) {
-          writeEvent({
-            type: "watch.batch",
-            inboxPath,
-            files: files.map((name) => {
-              const filePath = join(inboxPath, name);
-              return {
-                filePath,
-                payload: JSON.parse(readFileSync(filePath, "utf8")),
-              };
-            }),
-          });
-          return;
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, pollMs));
-      }
+      if (options.follow) await follow();
+
+      const files = streamUrl ? await readStreamBatch(streamUrl, token) : null;
+
+      writeEvent({
+        type: "watch.batch",
+        inboxPath,
+        files: files ?? (await pollForBatch()),
+      });
     },
   };
 }
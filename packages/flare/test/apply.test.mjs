@@ -0,0 +1,295 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI_PATH = fileURLToPath(new URL("../dist/cli.js", import.meta.url));
+
+function createProject() {
+  const root = mkdtempSync(join(tmpdir(), "flare-apply-"));
+  mkdirSync(join(root, "src"));
+  writeFileSync(
+    join(root, "package.json"),
+    JSON.stringify({ devDependencies: { tailwindcss: "^4.0.0" } }),
+  );
+  writeFileSync(
+    join(root, "src/App.tsx"),
+    [
+      'import styles from "./Card.module.css";',
+      "",
+      "export function App() {",
+      "  return (",
+      '    <main className="flex pt-4 text-gray-900">',
+      "      <h1 style={{ fontSize: 32, color: 'red' }}>Ship faster</h1>",
+      "      <section className={styles.card}>Card</section>",
+      '      <p className="md:pt-2 pt-1">Note</p>',
+      "    </main>",
+      "  );",
+      "}",
+      "",
+    ].join("\n"),
+  );
+  writeFileSync(
+    join(root, "src/Card.module.css"),
+    ".card {\n  padding: 8px;\n}\n",
+  );
+  return root;
+}
+
+function change(selector, line, property, before, after, extra = {}) {
+  return {
+    selector,
+    path: selector,
+    source: `src/App.tsx:${line}:5 (App)`,
+    changes: [{ property, before, after }],
+    ...extra,
+  };
+}
+
+test("flare apply edits Tailwind classes, inline styles and CSS Modules", () => {
+  const root = createProject();
+  const batch = {
+    type: "watch.batch",
+    inboxPath: "/tmp/inbox",
+    files: [
+      {
+        filePath: "/tmp/inbox/1.json",
+        payload: {
+          origin: "http://localhost:5173",
+          snapshot: {
+            updatedAt: "2026-03-27T10:00:00.000Z",
+            changes: [
+              change("main", 5, "padding-top", "16px", "24px"),
+              change("h1", 6, "color", "#ff0000", "#1e40af"),
+              change("section", 7, "border-radius", "0px", "12px"),
+              change("p", 8, "padding-top", "4px", "12px"),
+              change("main", 5, "gap", "0px", "8px", { comment: "Match the footer" }),
+            ],
+          },
+        },
+      },
+    ],
+  };
+  writeFileSync(join(root, "batch.json"), JSON.stringify(batch));
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply", "batch.json"], {
+    cwd: root,
+    encoding: "utf8",
+  });
+  assert.equal(result.status, 0, result.stderr);
+  const output = JSON.parse(result.stdout);
+
+  assert.equal(output.type, "apply.result");
+  assert.deepEqual(
+    output.applied.map((item) => `${item.selector} ${item.property} ${item.strategy}`),
+    ["main padding-top tailwind", "h1 color inline-style", "section border-radius css-module"],
+  );
+
+  const app = readFileSync(join(root, "src/App.tsx"), "utf8");
+  assert.match(app, /<main className="flex text-gray-900 pt-6">/);
+  assert.match(app, /style=\{\{ fontSize: 32, color: '#1e40af' \}\}/);
+  assert.match(app, /<p className="md:pt-2 pt-1">/);
+  assert.equal(
+    readFileSync(join(root, "src/Card.module.css"), "utf8"),
+    ".card {\n  padding: 8px;\n  border-radius: 12px;\n}\n",
+  );
+
+  const remaining = output.batch.files[0].payload.snapshot.changes;
+  assert.equal(output.batch.type, "watch.batch");
+  assert.deepEqual(remaining.map((entry) => entry.selector), ["p", "main"]);
+  assert.equal(remaining[1].comment, "Match the footer");
+});
+
+test("flare apply --dry-run leaves source files untouched", () => {
+  const root = createProject();
+  const before = readFileSync(join(root, "src/App.tsx"), "utf8");
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: {
+      updatedAt: "2026-03-27T10:00:00.000Z",
+      changes: [change("main", 5, "padding-top", "16px", "24px")],
+    },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply", "--dry-run"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  assert.equal(JSON.parse(result.stdout).applied.length, 1);
+  assert.equal(readFileSync(join(root, "src/App.tsx"), "utf8"), before);
+});
+
+test("flare apply prefers the panel's suggestedClass for Tailwind edits", () => {
+  const root = createProject();
+  const entry = change("main", 5, "color", "#101828", "#1e40af");
+  entry.changes[0].suggestedClass = "text-blue-800";
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: { updatedAt: "2026-03-27T10:00:00.000Z", changes: [entry] },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  assert.equal(JSON.parse(result.stdout).applied[0].strategy, "tailwind");
+  assert.match(
+    readFileSync(join(root, "src/App.tsx"), "utf8"),
+    /<main className="flex pt-4 text-blue-800">/,
+  );
+});
+
+test("flare apply writes state edits as Tailwind variants", () => {
+  const root = createProject();
+  const hover = change("main", 5, "color", "#101828", "#1e40af", { state: "hover" });
+  hover.changes[0].suggestedClass = "hover:text-blue-800";
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: {
+      updatedAt: "2026-03-27T10:00:00.000Z",
+      changes: [hover, change("h1", 6, "color", "#ff0000", "#1e40af", { state: "focus" })],
+    },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  const output = JSON.parse(result.stdout);
+  assert.deepEqual(output.applied.map((item) => item.selector), ["main"]);
+  assert.equal(output.skipped[0].reason, ":focus changes need a stylesheet rule or variant");
+
+  const app = readFileSync(join(root, "src/App.tsx"), "utf8");
+  assert.match(app, /<main className="flex pt-4 text-gray-900 hover:text-blue-800">/);
+  assert.match(app, /style=\{\{ fontSize: 32, color: 'red' \}\}/);
+});
+
+test("flare apply writes breakpoint edits as responsive variants", () => {
+  const root = createProject();
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: {
+      updatedAt: "2026-03-27T10:00:00.000Z",
+      changes: [
+        change("main", 5, "padding-top", "16px", "32px", {
+          mediaQuery: "(min-width: 768px)",
+          breakpoint: "md",
+        }),
+        change("p", 8, "padding-top", "8px", "12px", {
+          mediaQuery: "(min-width: 768px)",
+          breakpoint: "md",
+        }),
+        change("section", 7, "border-radius", "0px", "12px", {
+          mediaQuery: "(min-width: 1024px)",
+        }),
+      ],
+    },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  const output = JSON.parse(result.stdout);
+  assert.deepEqual(output.applied.map((item) => item.selector), ["main", "p"]);
+  assert.equal(
+    output.skipped[0].reason,
+    "(min-width: 1024px) changes need a stylesheet rule or variant",
+  );
+
+  const app = readFileSync(join(root, "src/App.tsx"), "utf8");
+  assert.match(app, /<main className="flex pt-4 text-gray-900 md:pt-8">/);
+  assert.match(app, /<p className="pt-1 md:pt-3">/);
+});
+
+test("flare apply leaves inline style keys set from expressions to the agent", () => {
+  const root = createProject();
+  const app = join(root, "src/App.tsx");
+  writeFileSync(
+    app,
+    readFileSync(app, "utf8").replace(
+      "style={{ fontSize: 32, color: 'red' }}",
+      'style={{ paddingTop: size, color: "red" }}',
+    ),
+  );
+  const before = readFileSync(app, "utf8");
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: {
+      updatedAt: "2026-03-27T10:00:00.000Z",
+      changes: [change("h1", 6, "padding-top", "8px", "24px")],
+    },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  const output = JSON.parse(result.stdout);
+  assert.equal(output.applied.length, 0);
+  assert.equal(output.skipped[0].reason, "style sets padding-top to something other than a literal");
+  assert.equal(output.batch.files[0].payload.snapshot.changes[0].selector, "h1");
+  assert.equal(readFileSync(app, "utf8"), before);
+});
+
+test("flare apply leaves Tailwind utilities it can't read to the agent", () => {
+  const root = createProject();
+  const app = join(root, "src/App.tsx");
+  writeFileSync(
+    app,
+    readFileSync(app, "utf8").replace(
+      '<p className="md:pt-2 pt-1">Note</p>',
+      '<p className="w-1/2 text-primary size-10 px-4">Note</p>',
+    ).replace(
+      '<section className={styles.card}>Card</section>',
+      '<section className="w-screen text-center text-sm h-fit">Card</section>',
+    ),
+  );
+  const payload = {
+    origin: "http://localhost:5173",
+    snapshot: {
+      updatedAt: "2026-03-27T10:00:00.000Z",
+      changes: [
+        change("p", 8, "width", "50%", "320px"),
+        change("p", 8, "color", "#7c3aed", "#1e40af"),
+        change("p", 8, "padding-left", "16px", "24px"),
+        change("section", 7, "width", "100vw", "320px"),
+        change("section", 7, "height", "auto", "48px"),
+        change("section", 7, "color", "#101828", "#1e40af"),
+      ],
+    },
+  };
+
+  const result = spawnSync(process.execPath, [CLI_PATH, "apply"], {
+    cwd: root,
+    encoding: "utf8",
+    input: JSON.stringify(payload),
+  });
+  assert.equal(result.status, 0, result.stderr);
+  const output = JSON.parse(result.stdout);
+  assert.deepEqual(
+    output.applied.map((item) => `${item.selector} ${item.property}`),
+    ["p padding-left", "section color"],
+  );
+  assert.deepEqual(
+    output.skipped.map((item) => `${item.selector} ${item.property}`),
+    ["p width", "p color", "section width", "section height"],
+  );
+
+  const source = readFileSync(app, "utf8");
+  assert.match(source, /<p className="w-1\/2 text-primary size-10 px-4 pl-6">/);
+  assert.match(source, /<section className="w-screen text-center text-sm h-fit text-\[#1e40af\]">/);
+});
@@ -1,12 +1,20 @@
-import test from "node:test";
+import test, { beforeEach } from "node:test";
 import assert from "node:assert/strict";
-import { spawn } from "node:child_process";
-import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
-import { getOriginInboxPath } from "../dist/inbox-path.js";
+import { spawn, spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { getBridgeTokenPath, getOriginInboxPath, readBridgeToken } from "../dist/inbox-path.js";
 
 const TEST_ORIGIN = "http://localhost:4173";
 
+// The store persists across bridge restarts, so every test gets its own.
+// Spawned CLIs inherit it through the environment.
+beforeEach(() => {
+  process.env.FLARE_STORE = mkdtempSync(join(tmpdir(), "flare-store-"));
+});
+
 function waitForReady(child) {
   return new Promise((resolve, reject) => {
     let stdout = "";
@@ -18,7 +26,7 @@ function waitForReady(child) {
 
     child.stdout.on("data", (chunk) => {
       stdout += chunk.toString();
-      const match = stdout.match(/Flare bridge listening on http:\/\/127\.0\.0\.1:(\d+)/);
+      const match = stdout.match(/Flare bridge (?:v\S+ )?listening on http:\/\/127\.0\.0\.1:(\d+)/);
       if (!match) return;
       clearTimeout(timeout);
       resolve(Number.parseInt(match[1], 10));
@@ -35,6 +43,13 @@ function waitForReady(child) {
   });
 }
 
+function bridgeHeaders(port) {
+  return {
+    "Content-Type": "application/json",
+    "X-Flare-Token": readBridgeToken(port),
+  };
+}
+
 function waitForJsonEvent(stream, predicate) {
   return new Promise((resolve, reject) => {
     let buffer = "";
@@ -73,7 +88,142 @@ test("flare bridge serves health while running", async () => {
   const port = await waitForReady(child);
   const healthResponse = await fetch(`http://127.0.0.1:${port}/health`);
   assert.equal(healthResponse.status, 200);
-  assert.deepEqual(await healthResponse.json(), { ok: true });
+  assert.deepEqual(await healthResponse.json(), {
+    ok: true,
+    schemaVersion: 1,
+    supportedSchemaVersions: [1],
+    tokenValid: false,
+  });
+
+  const checked = await fetch(`http://127.0.0.1:${port}/health`, { headers: bridgeHeaders(port) });
+  assert.equal((await checked.json()).tokenValid, true);
+  const stale = await fetch(`http://127.0.0.1:${port}/health`, { headers: { "X-Flare-Token": "stale" } });
+  assert.equal((await stale.json()).tokenValid, false);
+
+  child.kill("SIGTERM");
+  await new Promise((resolve) => child.once("exit", resolve));
+});
+
+test("flare bridge replaces a stale token file instead of reusing its permissions", async () => {
+  const probe = createServer().listen(0, "127.0.0.1");
+  await new Promise((resolve) => probe.once("listening", resolve));
+  const freePort = probe.address().port;
+  await new Promise((resolve) => probe.close(resolve));
+
+  const tokenPath = getBridgeTokenPath(freePort);
+  mkdirSync(dirname(tokenPath), { recursive: true });
+  writeFileSync(tokenPath, "stale", { mode: 0o644 });
+
+  const child = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", String(freePort)], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const port = await waitForReady(child);
+  assert.equal(port, freePort);
+  assert.notEqual(readBridgeToken(port), "stale");
+  assert.equal(statSync(tokenPath).mode & 0o777, 0o600);
+
+  child.kill("SIGTERM");
+  await new Promise((resolve) => child.once("exit", resolve));
+});
+
+test("flare bridge requires its session token and an allowed origin", async () => {
+  const child = spawn(
+    process.execPath,
+    ["dist/cli.js", "bridge", "--port", "0", "--allow-origin", TEST_ORIGIN],
+    {
+      cwd: new URL("../", import.meta.url),
+      stdio: ["ignore", "pipe", "pipe"],
+    },
+  );
+
+  const port = await waitForReady(child);
+  const pushUrl = `http://127.0.0.1:${port}/api/agent/push`;
+  const body = JSON.stringify({
+    origin: TEST_ORIGIN,
+    snapshot: { updatedAt: "2026-03-27T10:00:00.000Z", changes: [] },
+  });
+
+  const anonymous = await fetch(pushUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+  assert.equal(anonymous.status, 401);
+
+  const foreign = await fetch(pushUrl, {
+    method: "POST",
+    headers: { ...bridgeHeaders(port), Origin: "https://evil.example" },
+    body,
+  });
+  assert.equal(foreign.status, 403);
+
+  const allowed = await fetch(pushUrl, {
+    method: "POST",
+    headers: { ...bridgeHeaders(port), Origin: TEST_ORIGIN },
+    body,
+  });
+  assert.equal(allowed.status, 202);
+  assert.equal(allowed.headers.get("access-control-allow-origin"), TEST_ORIGIN);
+
+  child.kill("SIGTERM");
+  await new Promise((resolve) => child.once("exit", resolve));
+  assert.equal(readBridgeToken(port), null);
+});
+
+test("flare bridge reports the JSON paths of invalid payloads", async () => {
+  const child = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(child);
+
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      schemaVersion: 1,
+      origin: TEST_ORIGIN,
+      snapshot: {
+        updatedAt: "2026-03-27T10:00:00.000Z",
+        changes: [
+          {
+            selector: ".hero",
+            path: "body > main.hero",
+            changes: [{ property: "color", before: "red", after: 12 }],
+          },
+        ],
+      },
+    }),
+  });
+  assert.equal(pushResponse.status, 400);
+  const pushBody = await pushResponse.json();
+  assert.equal(pushBody.error, "Invalid agent push payload");
+  assert.deepEqual(pushBody.issues, [
+    { path: "$.snapshot.changes[0].changes[0].after", message: "Expected string, got number" },
+  ]);
+  assert.deepEqual(pushBody.supportedSchemaVersions, [1]);
+
+  const respondResponse = await fetch(`http://127.0.0.1:${port}/api/agent/respond`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ schemaVersion: 9, origin: TEST_ORIGIN, selector: ".hero" }),
+  });
+  assert.equal(respondResponse.status, 400);
+  const respondBody = await respondResponse.json();
+  assert.deepEqual(
+    respondBody.issues.map((issue) => issue.path),
+    ["$.outerHTML", "$.schemaVersion"],
+  );
+
+  const malformedResponse = await fetch(`http://127.0.0.1:${port}/api/agent/respond`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: "{ not json",
+  });
+  assert.equal(malformedResponse.status, 400);
+  assert.equal((await malformedResponse.json()).issues[0].path, "$");
 
   child.kill("SIGTERM");
   await new Promise((resolve) => child.once("exit", resolve));
@@ -110,7 +260,7 @@ test("flare bridge writes pushed snapshots to the origin inbox folder", async ()
 
   const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: bridgeHeaders(port),
     body: JSON.stringify(payload),
   });
   assert.equal(pushResponse.status, 202);
@@ -188,3 +338,517 @@ test("flare watch returns one batch of pending inbox files and exits", async ()
   bridge.kill("SIGTERM");
   await new Promise((resolve) => bridge.once("exit", resolve));
 });
+
+test("flare watch receives pushed snapshots over the bridge stream", async () => {
+  const bridge = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(bridge);
+  const watch = spawn(
+    process.execPath,
+    ["dist/cli.js", "watch", "--origin", TEST_ORIGIN, "--port", String(port), "--host", "127.0.0.1"],
+    {
+      cwd: new URL("../", import.meta.url),
+      stdio: ["ignore", "pipe", "pipe"],
+    },
+  );
+
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      snapshot: {
+        updatedAt: "2026-03-27T11:00:00.000Z",
+        changes: [
+          {
+            selector: ".cta",
+            path: "body > button.cta",
+            changes: [{ property: "color", before: "red", after: "blue" }],
+          },
+        ],
+      },
+    }),
+  });
+  const pushBody = await pushResponse.json();
+
+  const batchEvent = await waitForJsonEvent(
+    watch.stdout,
+    (event) => event?.type === "watch.batch",
+  );
+  assert.equal(batchEvent.files.length, 1);
+  assert.equal(batchEvent.files[0].filePath, pushBody.filePath);
+  assert.equal(batchEvent.files[0].payload.snapshot.updatedAt, "2026-03-27T11:00:00.000Z");
+  await new Promise((resolve) => watch.once("exit", resolve));
+
+  bridge.kill("SIGTERM");
+  await new Promise((resolve) => bridge.once("exit", resolve));
+});
+
+test("flare bridge announces inbox files to every agent stream", async () => {
+  const bridge = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const port = await waitForReady(bridge);
+  const controller = new AbortController();
+  const openStream = async () => {
+    const response = await fetch(
+      `http://127.0.0.1:${port}/api/agent/inbox/stream?origin=${encodeURIComponent(TEST_ORIGIN)}`,
+      { headers: bridgeHeaders(port), signal: controller.signal },
+    );
+    assert.equal(response.status, 200);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let received = "";
+    return async (text) => {
+      while (!received.includes(text)) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value, { stream: true });
+      }
+      return received.includes(text);
+    };
+  };
+
+  const first = await openStream();
+  // Written behind the bridge's back between the two streams opening: both
+  // get it, whether the second one's replay or fs.watch sees it first
+  const fileName = "2026-03-27T12-00-00-000Z-0.json";
+  writeFileSync(
+    join(getOriginInboxPath(TEST_ORIGIN), fileName),
+    JSON.stringify({ origin: TEST_ORIGIN, snapshot: { updatedAt: "2026-03-27T12:00:00.000Z", changes: [] } }),
+  );
+  const second = await openStream();
+  assert.equal(await second(fileName), true);
+  assert.equal(await first(fileName), true);
+  controller.abort();
+
+  bridge.kill("SIGTERM");
+  await new Promise((resolve) => bridge.once("exit", resolve));
+});
+
+test("flare bridge streams agent DOM responses to the browser", async () => {
+  const bridge = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(bridge);
+  const controller = new AbortController();
+  const stream = await fetch(
+    `http://127.0.0.1:${port}/api/agent/responses/stream?origin=${encodeURIComponent(TEST_ORIGIN)}`,
+    { headers: bridgeHeaders(port), signal: controller.signal },
+  );
+  assert.equal(stream.status, 200);
+  assert.match(stream.headers.get("content-type") ?? "", /text\/event-stream/);
+
+  const respondResponse = await fetch(`http://127.0.0.1:${port}/api/agent/respond`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      selector: '[data-flare-id="abc123"]',
+      outerHTML: "<h1>Ship faster</h1>",
+    }),
+  });
+  assert.equal(respondResponse.status, 202);
+
+  const reader = stream.body.getReader();
+  const decoder = new TextDecoder();
+  let received = "";
+  while (!received.includes("event: response")) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += decoder.decode(value, { stream: true });
+  }
+  const dataLine = received
+    .split("\n")
+    .find((line) => line.startsWith("data:"));
+  assert.equal(JSON.parse(dataLine.slice(5)).outerHTML, "<h1>Ship faster</h1>");
+  controller.abort();
+
+  const pollResponse = await fetch(
+    `http://127.0.0.1:${port}/api/agent/responses?origin=${encodeURIComponent(TEST_ORIGIN)}`,
+    { headers: bridgeHeaders(port) },
+  );
+  assert.deepEqual(await pollResponse.json(), { responses: [] });
+
+  bridge.kill("SIGTERM");
+  await new Promise((resolve) => bridge.once("exit", resolve));
+});
+
+test("flare watch --follow emits file and ack events and keeps running", async () => {
+  const bridge = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(bridge);
+  const watch = spawn(
+    process.execPath,
+    ["dist/cli.js", "watch", "--origin", TEST_ORIGIN, "--follow", "--port", String(port)],
+    {
+      cwd: new URL("../", import.meta.url),
+      stdio: ["ignore", "pipe", "pipe"],
+    },
+  );
+
+  const heartbeat = await waitForJsonEvent(
+    watch.stdout,
+    (event) => event?.type === "watch.heartbeat",
+  );
+  assert.equal(heartbeat.inboxPath, getOriginInboxPath(TEST_ORIGIN));
+
+  const fileEvent = waitForJsonEvent(watch.stdout, (event) => event?.type === "watch.file");
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      snapshot: { updatedAt: "2026-03-27T12:00:00.000Z", changes: [] },
+    }),
+  });
+  const pushBody = await pushResponse.json();
+  const received = await fileEvent;
+  assert.equal(received.filePath, pushBody.filePath);
+  assert.equal(received.payload.snapshot.updatedAt, "2026-03-27T12:00:00.000Z");
+
+  const ackEvent = waitForJsonEvent(watch.stdout, (event) => event?.type === "watch.ack");
+  rmSync(pushBody.filePath);
+  assert.equal((await ackEvent).filePath, pushBody.filePath);
+  assert.equal(watch.exitCode, null);
+
+  watch.kill("SIGTERM");
+  await new Promise((resolve) => watch.once("exit", resolve));
+  bridge.kill("SIGTERM");
+  await new Promise((resolve) => bridge.once("exit", resolve));
+});
+
+test("flare bridge delivers agent acks for a pushed snapshot", async () => {
+  const bridge = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(bridge);
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      snapshot: {
+        updatedAt: "2026-03-27T10:00:00.000Z",
+        changes: [
+          {
+            selector: ".hero",
+            path: "body > main.hero",
+            changes: [{ property: "padding-top", before: "16px", after: "24px" }],
+          },
+        ],
+      },
+    }),
+  });
+  const { id, filePath } = await pushResponse.json();
+  assert.equal(`${id}.json`, filePath.split(/[\\/]/).pop());
+
+  const controller = new AbortController();
+  const stream = await fetch(
+    `http://127.0.0.1:${port}/api/agent/responses/stream?origin=${encodeURIComponent(TEST_ORIGIN)}&events=ack`,
+    { headers: bridgeHeaders(port), signal: controller.signal },
+  );
+  assert.equal(stream.status, 200);
+
+  const invalidAck = await fetch(`http://127.0.0.1:${port}/api/agent/ack`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ origin: TEST_ORIGIN, id, changes: [{ selector: ".hero", status: "done" }] }),
+  });
+  assert.equal(invalidAck.status, 400);
+
+  const escapingAck = await fetch(`http://127.0.0.1:${port}/api/agent/ack`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ origin: TEST_ORIGIN, id: "../../x", changes: [] }),
+  });
+  assert.equal(escapingAck.status, 400);
+
+  const ackResponse = await fetch(`http://127.0.0.1:${port}/api/agent/ack`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      id: `${id}.json`,
+      changes: [
+        { selector: ".hero", property: "padding-top", status: "failed", reason: "No padding utility on this element" },
+      ],
+    }),
+  });
+  assert.equal(ackResponse.status, 202);
+
+  const reader = stream.body.getReader();
+  const decoder = new TextDecoder();
+  let received = "";
+  while (!received.includes("event: ack")) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += decoder.decode(value, { stream: true });
+  }
+  const dataLine = received
+    .split("\n")
+    .find((line) => line.startsWith("data:"));
+  const ack = JSON.parse(dataLine.slice(5));
+  assert.equal(ack.id, id);
+  assert.equal(ack.changes[0].status, "failed");
+  controller.abort();
+
+  const pollResponse = await fetch(
+    `http://127.0.0.1:${port}/api/agent/acks?origin=${encodeURIComponent(TEST_ORIGIN)}`,
+    { headers: bridgeHeaders(port) },
+  );
+  assert.deepEqual(await pollResponse.json(), { acks: [] });
+
+  bridge.kill("SIGTERM");
+  await new Promise((resolve) => bridge.once("exit", resolve));
+});
+
+test("flare bridge keeps pushes across restarts and can replay them from history", async () => {
+  const origin = "http://localhost:4174";
+  const startBridge = async () => {
+    const child = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+      cwd: new URL("../", import.meta.url),
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    return { child, port: await waitForReady(child) };
+  };
+  const stopBridge = async (child) => {
+    child.kill("SIGTERM");
+    await new Promise((resolve) => child.once("exit", resolve));
+  };
+  const runCli = (...args) =>
+    spawnSync(process.execPath, ["dist/cli.js", ...args], {
+      cwd: new URL("../", import.meta.url),
+      encoding: "utf8",
+    });
+
+  let { child, port } = await startBridge();
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin,
+      snapshot: {
+        updatedAt: "2026-03-27T10:00:00.000Z",
+        changes: [
+          {
+            selector: ".hero",
+            path: "body > main.hero",
+            changes: [{ property: "gap", before: "8px", after: "12px" }],
+          },
+        ],
+      },
+    }),
+  });
+  const { id, filePath } = await pushResponse.json();
+  await stopBridge(child);
+
+  ({ child, port } = await startBridge());
+  assert.ok(existsSync(filePath), "pending push survives a bridge restart");
+
+  await fetch(`http://127.0.0.1:${port}/api/agent/ack`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin,
+      id,
+      changes: [{ selector: ".hero", status: "failed", reason: "Gap set by a parent grid" }],
+    }),
+  });
+  rmSync(filePath);
+  await stopBridge(child);
+
+  const history = runCli("history", "--origin", origin);
+  assert.equal(history.status, 0);
+  assert.match(history.stdout, new RegExp(`${id}\\s+processed\\s+1 change\\s+1 failed`));
+
+  const replay = runCli("replay", id);
+  assert.equal(replay.status, 0);
+  const replayedPath = replay.stdout.match(/-> (.+)$/m)[1];
+  const replayed = JSON.parse(readFileSync(replayedPath, "utf8"));
+  assert.equal(replayed.origin, origin);
+  assert.equal(replayed.snapshot.changes[0].changes[0].after, "12px");
+  assert.match(runCli("history", "--origin", origin).stdout, new RegExp(`pending.*\\(replay of ${id}\\)`));
+
+  assert.equal(runCli("replay", "missing-id").status, 1);
+  assert.equal(runCli("replay", "../history").status, 1);
+});
+
+test("history and replay find the running bridge's store from another folder", async () => {
+  const store = mkdtempSync(join(tmpdir(), "flare-store-"));
+  const { FLARE_STORE, ...env } = process.env;
+  const child = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0", "--store", store], {
+    cwd: new URL("../", import.meta.url),
+    env,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const port = await waitForReady(child);
+
+  const pushResponse = await fetch(`http://127.0.0.1:${port}/api/agent/push`, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({
+      origin: TEST_ORIGIN,
+      snapshot: {
+        updatedAt: "2026-03-27T10:00:00.000Z",
+        changes: [
+          {
+            selector: ".hero",
+            path: "body > main.hero",
+            changes: [{ property: "gap", before: "8px", after: "12px" }],
+          },
+        ],
+      },
+    }),
+  });
+  assert.equal(pushResponse.status, 202);
+  const { id } = await pushResponse.json();
+
+  const elsewhere = mkdtempSync(join(tmpdir(), "flare-cwd-"));
+  const runCli = (...args) =>
+    spawnSync(process.execPath, [new URL("../dist/cli.js", import.meta.url).pathname, ...args], {
+      cwd: elsewhere,
+      env,
+      encoding: "utf8",
+    });
+  assert.match(runCli("history", "--port", String(port)).stdout, new RegExp(`${id}\\s+pending`));
+  const replay = runCli("replay", id, "--port", String(port));
+  assert.equal(replay.status, 0);
+  assert.ok(replay.stdout.includes(store));
+  assert.equal(existsSync(join(elsewhere, ".flare")), false);
+
+  child.kill("SIGTERM");
+  await new Promise((resolve) => child.once("exit", resolve));
+});
+
+test("flare bridge saves, lists and reopens canvas documents", async () => {
+  const child = spawn(process.execPath, ["dist/cli.js", "bridge", "--port", "0"], {
+    cwd: new URL("../", import.meta.url),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const port = await waitForReady(child);
+  const canvasUrl = `http://127.0.0.1:${port}/api/canvas`;
+  const document = {
+    name: "Pricing explorations",
+    savedAt: "2026-03-27T10:00:00.000Z",
+    frames: [
+      { id: "frame-1", path: "/pricing", width: 393, height: 852, x: 0, y: 0 },
+      {
+        id: "frame-2",
+        path: "/pricing",
+        width: 393,
+        height: 852,
+        x: 0,
+        y: 1000,
+        isVariant: true,
+        variantSelector: ".plans",
+        variantHTML: "<div class=\"plans\">Variant</div>",
+        variantIndex: 0,
+      },
+    ],
+    edits: [
+      {
+        frameId: "frame-1",
+        indexPath: [1, 0],
+        tagName: "MAIN",
+        cssSelector: "main.pricing",
+        mediaQuery: "(min-width: 768px)",
+        breakpoint: "md",
+        overrides: { gap: "24px" },
+        original: { gap: "16px" },
+      },
+    ],
+    comments: [],
+    contentChanges: [],
+    guides: [
+      { count: 4, color: "#ff0000", opacity: 10, type: "stretch", width: 60, margin: 16, gutter: 16 },
+    ],
+  };
+
+  const saveResponse = await fetch(canvasUrl, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify(document),
+  });
+  assert.equal(saveResponse.status, 200);
+  const { filePath } = await saveResponse.json();
+  assert.equal(filePath, join(process.env.FLARE_STORE, "canvas", "pricing-explorations.json"));
+  assert.equal(JSON.parse(readFileSync(filePath, "utf8")).schemaVersion, 1);
+
+  const listResponse = await fetch(canvasUrl, { headers: bridgeHeaders(port) });
+  assert.deepEqual((await listResponse.json()).canvases, [
+    { name: "Pricing explorations", savedAt: document.savedAt, frameCount: 1, filePath },
+  ]);
+
+  const loadResponse = await fetch(
+    `${canvasUrl}/document?name=${encodeURIComponent("Pricing explorations")}`,
+    { headers: bridgeHeaders(port) },
+  );
+  assert.equal(loadResponse.status, 200);
+  assert.deepEqual(await loadResponse.json(), { ...document, schemaVersion: 1 });
+
+  // Saving under the same name overwrites; a different name with the same slug doesn't
+  const resaveResponse = await fetch(canvasUrl, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify(document),
+  });
+  assert.equal(resaveResponse.status, 200);
+  const clashResponse = await fetch(canvasUrl, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ ...document, name: "pricing-explorations", frames: [] }),
+  });
+  assert.equal(clashResponse.status, 409);
+  assert.equal((await clashResponse.json()).name, "Pricing explorations");
+  assert.equal(JSON.parse(readFileSync(filePath, "utf8")).frames.length, document.frames.length);
+
+  const missingResponse = await fetch(`${canvasUrl}/document?name=nope`, {
+    headers: bridgeHeaders(port),
+  });
+  assert.equal(missingResponse.status, 404);
+
+  const invalidResponse = await fetch(canvasUrl, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ ...document, frames: [{ id: "frame-1", path: "/", width: "393" }] }),
+  });
+  assert.equal(invalidResponse.status, 400);
+  assert.deepEqual(
+    (await invalidResponse.json()).issues.map((issue) => issue.path),
+    ["$.frames[0].width", "$.frames[0].height", "$.frames[0].x", "$.frames[0].y"],
+  );
+
+  const invalidGuides = await fetch(canvasUrl, {
+    method: "POST",
+    headers: bridgeHeaders(port),
+    body: JSON.stringify({ ...document, guides: [{ ...document.guides[0], count: "4", type: "grid" }] }),
+  });
+  assert.equal(invalidGuides.status, 400);
+  assert.deepEqual(
+    (await invalidGuides.json()).issues.map((issue) => issue.path),
+    ["$.guides[0].count", "$.guides[0].type"],
+  );
+
+  // Saved canvases can be committed; everything else in the store stays ignored
+  const store = process.env.FLARE_STORE;
+  spawnSync("git", ["init", "-q"], { cwd: store });
+  const isIgnored = (path) => spawnSync("git", ["check-ignore", "-q", path], { cwd: store }).status === 0;
+  assert.equal(isIgnored("canvas/pricing-explorations.json"), false);
+  assert.equal(isIgnored("history.jsonl"), true);
+
+  child.kill("SIGTERM");
+  await new Promise((resolve) => child.once("exit", resolve));
+});
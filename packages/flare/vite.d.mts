@@ -1,2 +1,14 @@
 import type { Plugin } from "vite";
-export default function flare(): Plugin;
+
+export interface FlareOptions {
+  /** Load the project's Tailwind theme so the panel can suggest utility classes */
+  tailwind?: boolean;
+  /**
+   * The project's min-width breakpoints, e.g. `{ md: 768, lg: "64rem" }`.
+   * Defaults to the Tailwind theme's with `tailwind`, otherwise they're read
+   * from the page's media queries.
+   */
+  breakpoints?: Record<string, number | string>;
+}
+
+export default function flare(options?: FlareOptions): Plugin;
@@ -1,24 +1,236 @@
-import { existsSync, readFileSync } from "fs";
-import { resolve, dirname } from "path";
-import { fileURLToPath } from "url";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join, resolve, dirname } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
 
 const CDN_URL = "https://unpkg.com/flare-dev/dist/flare.js";
 const LOCAL_PATH = resolve(dirname(fileURLToPath(import.meta.url)), "dist/flare.js");
 const SERVE_PATH = "/@flare/flare.js";
 const DEFAULT_BRIDGE_URL = "http://127.0.0.1:4318";
 
-export default function flare() {
+// Written by `flare-dev bridge` on startup (see getBridgeTokenPath)
+function readBridgeToken(bridgeUrl) {
+  try {
+    const port = new URL(bridgeUrl).port;
+    return readFileSync(join(tmpdir(), "flare-dev", `bridge-${port}.token`), "utf8").trim();
+  } catch {
+    return undefined;
+  }
+}
+
+// ── Tailwind theme ────────────────────────────────
+
+const V3_CONFIG_FILES = ["tailwind.config.js", "tailwind.config.cjs", "tailwind.config.mjs"];
+const SKIP_DIRS = new Set(["node_modules", "dist", "build", ".git", ".flare"]);
+
+// The v3 default spacing steps; v4 derives the same steps from `--spacing`
+const SPACING_STEPS = [
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24,
+  28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96,
+];
+
+/** `1.5rem` → 24, `6px` → 6; anything else (calc, %, vars) is not a token. */
+function toPx(value) {
+  const m = String(value).trim().match(/^(-?\d*\.?\d+)(px|rem)?$/);
+  if (!m) return null;
+  const num = parseFloat(m[1]);
+  return m[2] === "rem" ? num * 16 : num;
+}
+
+/** Collect `--name: value` declarations from every `@theme` block in a stylesheet. */
+function readThemeBlocks(css, vars) {
+  const pattern = /@theme\b[^{]*\{/g;
+  let match;
+  while ((match = pattern.exec(css))) {
+    let depth = 1;
+    let i = match.index + match[0].length;
+    const start = i;
+    while (i < css.length && depth > 0) {
+      if (css[i] === "{") depth++;
+      else if (css[i] === "}") depth--;
+      i++;
+    }
+    const body = css.slice(start, i - 1).replace(/\/\*[\s\S]*?\*\//g, "");
+    for (const decl of body.matchAll(/--([\w-]+)\s*:\s*([^;{}]+);/g)) {
+      vars.set(decl[1], decl[2].trim());
+    }
+  }
+}
+
+function findStylesheets(dir, found = []) {
+  let names;
+  try {
+    names = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return found;
+  }
+  for (const entry of names) {
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRS.has(entry.name)) findStylesheets(join(dir, entry.name), found);
+    } else if (entry.name.endsWith(".css")) {
+      found.push(join(dir, entry.name));
+    }
+  }
+  return found;
+}
+
+/** Tailwind v4: the default theme plus the project's own `@theme` overrides. */
+function loadV4Theme(root, require) {
+  const vars = new Map();
+  readThemeBlocks(readFileSync(require.resolve("tailwindcss/theme.css"), "utf8"), vars);
+  for (const file of findStylesheets(root)) {
+    const css = readFileSync(file, "utf8");
+    if (css.includes("@theme")) readThemeBlocks(css, vars);
+  }
+
+  const resolveVar = (value, depth = 0) =>
+    depth > 5
+      ? value
+      : value.replace(/var\(--([\w-]+)\)/g, (all, name) =>
+          vars.has(name) ? resolveVar(vars.get(name), depth + 1) : all,
+        );
+
+  const theme = {
+    spacing: {},
+    colors: {},
+    fontSize: {},
+    fontWeight: {},
+    radius: {},
+    breakpoints: {},
+  };
+  const spacing = toPx(vars.get("spacing") ?? "");
+  if (spacing != null) {
+    theme.spacing.px = 1;
+    for (const step of SPACING_STEPS) theme.spacing[step] = step * spacing;
+  }
+  for (const [name, raw] of vars) {
+    const value = resolveVar(raw);
+    if (value === "initial") continue;
+    if (name.startsWith("color-")) theme.colors[name.slice(6)] = value;
+    else if (name.startsWith("font-weight-")) theme.fontWeight[name.slice(12)] = Number(value);
+    else if (name.startsWith("text-") && !name.includes("--")) {
+      const px = toPx(value);
+      if (px != null) theme.fontSize[name.slice(5)] = px;
+    } else if (name.startsWith("radius-")) {
+      const px = toPx(value);
+      if (px != null) theme.radius[name.slice(7)] = px;
+    } else if (name.startsWith("breakpoint-")) {
+      const px = toPx(value);
+      if (px != null) theme.breakpoints[name.slice(11)] = px;
+    }
+  }
+  return theme;
+}
+
+function flattenColors(colors, prefix = "", out = {}) {
+  for (const [key, value] of Object.entries(colors ?? {})) {
+    const name = key === "DEFAULT" ? prefix.slice(0, -1) : `${prefix}${key}`;
+    if (typeof value === "string") out[name] = value;
+    else if (value && typeof value === "object") flattenColors(value, `${name}-`, out);
+  }
+  return out;
+}
+
+function mapPx(scale) {
+  const out = {};
+  for (const [key, value] of Object.entries(scale ?? {})) {
+    const px = toPx(Array.isArray(value) ? value[0] : value);
+    // `DEFAULT` is the bare utility, e.g. `rounded`
+    if (px != null) out[key === "DEFAULT" ? "" : key] = px;
+  }
+  return out;
+}
+
+/** Tailwind v3: the resolved `tailwind.config.*` theme. */
+async function loadV3Theme(root, require) {
+  const configFile = V3_CONFIG_FILES.map((name) => join(root, name)).find(existsSync);
+  if (!configFile) return null;
+  const [{ default: resolveConfig }, { default: config }] = await Promise.all([
+    import(pathToFileURL(require.resolve("tailwindcss/resolveConfig")).href),
+    import(pathToFileURL(configFile).href),
+  ]);
+  const { theme } = resolveConfig(config);
+  return {
+    spacing: mapPx(theme.spacing),
+    colors: flattenColors(theme.colors),
+    fontSize: mapPx(theme.fontSize),
+    fontWeight: Object.fromEntries(
+      Object.entries(theme.fontWeight ?? {}).map(([key, value]) => [key, Number(value)]),
+    ),
+    radius: mapPx(theme.borderRadius),
+    // Only plain min-width screens; `{ max: … }` and raw queries aren't breakpoints
+    breakpoints: mapPx(
+      Object.fromEntries(
+        Object.entries(theme.screens ?? {}).map(([key, value]) => [key, value?.min ?? value]),
+      ),
+    ),
+  };
+}
+
+/** Read the project's Tailwind theme, or null when Tailwind isn't installed. */
+async function loadTailwindTheme(root) {
+  const require = createRequire(join(root, "package.json"));
+  try {
+    require.resolve("tailwindcss/theme.css");
+    return loadV4Theme(root, require);
+  } catch {}
+  try {
+    return await loadV3Theme(root, require);
+  } catch {
+    return null;
+  }
+}
+
+/** `{ md: "48rem" }` → `{ md: 768 }`, dropping values that aren't lengths. */
+function normalizeBreakpoints(breakpoints) {
+  const out = {};
+  for (const [name, value] of Object.entries(breakpoints ?? {})) {
+    const px = toPx(value);
+    if (px != null) out[name] = px;
+  }
+  return out;
+}
+
+/**
+ * @param {{ tailwind?: boolean, breakpoints?: Record<string, number | string> }} [options]
+ * `tailwind` loads the project's Tailwind theme so the panel can suggest
+ * utility classes for edited values. `breakpoints` names the project's
+ * min-width breakpoints; with `tailwind`, the theme's are used by default.
+ */
+export default function flare(options = {}) {
   const useLocal = existsSync(LOCAL_PATH);
   const bridgeConfig = {
     url: DEFAULT_BRIDGE_URL,
   };
+  let root = process.cwd();
+  let base = "/";
+  // Loading walks the project for stylesheets, so it runs once and again
+  // only after a stylesheet or Tailwind config changes
+  let themePromise = null;
 
   return {
     name: "flare",
     apply: "serve",
 
-    // Serve the local build when available (monorepo dev)
+    configResolved(config) {
+      root = config.root;
+      base = config.base;
+    },
+
     configureServer(server) {
+      if (options.tailwind) {
+        const invalidateTheme = (file) => {
+          if (file.endsWith(".css") || V3_CONFIG_FILES.some((name) => file.endsWith(name))) {
+            themePromise = null;
+          }
+        };
+        server.watcher.on("add", invalidateTheme);
+        server.watcher.on("change", invalidateTheme);
+        server.watcher.on("unlink", invalidateTheme);
+      }
+
+      // Serve the local build when available (monorepo dev)
       if (!useLocal) return;
       server.middlewares.use((req, res, next) => {
         if (req.url === SERVE_PATH) {
@@ -30,7 +242,7 @@ export default function flare() {
       });
     },
 
-    transformIndexHtml() {
+    async transformIndexHtml() {
       const tags = [
         {
           tag: "script",
@@ -39,12 +251,47 @@ export default function flare() {
         },
       ];
 
+      // Tell the panel which modules hot-updated, so it can check pushed changes landed
+      tags.push({
+        tag: "script",
+        attrs: { type: "module" },
+        children: [
+          `import { createHotContext } from ${JSON.stringify(`${base}@vite/client`)};`,
+          `createHotContext("/@flare/hmr").on("vite:afterUpdate", (payload) => window.dispatchEvent(new CustomEvent("flare:hmr", { detail: payload.updates.map((update) => update.path) })));`,
+        ].join("\n"),
+        injectTo: "body",
+      });
+
+      // Read on every page load so a restarted bridge's new token is picked up
+      const config = { ...bridgeConfig, token: readBridgeToken(bridgeConfig.url) };
       tags.unshift({
         tag: "script",
-        children: `window.__FLARE_BRIDGE__ = ${JSON.stringify(bridgeConfig)};`,
+        children: `window.__FLARE_BRIDGE__ = ${JSON.stringify(config)};`,
         injectTo: "head",
       });
 
+      if (options.tailwind) themePromise ??= loadTailwindTheme(root);
+      const loaded = options.tailwind ? await themePromise : null;
+      const { breakpoints: themeBreakpoints, ...theme } = loaded ?? {};
+      if (loaded) {
+        tags.unshift({
+          tag: "script",
+          children: `window.__FLARE_TAILWIND__ = ${JSON.stringify(theme)};`,
+          injectTo: "head",
+        });
+      }
+
+      const breakpoints = options.breakpoints
+        ? normalizeBreakpoints(options.breakpoints)
+        : themeBreakpoints;
+      if (breakpoints && Object.keys(breakpoints).length > 0) {
+        tags.unshift({
+          tag: "script",
+          children: `window.__FLARE_BREAKPOINTS__ = ${JSON.stringify(breakpoints)};`,
+          injectTo: "head",
+        });
+      }
+
       return tags;
     },
   };